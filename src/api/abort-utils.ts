@@ -0,0 +1,57 @@
+/**
+ * Cancellation helpers shared by the API clients
+ */
+
+export interface RequestSignal {
+    signal: AbortSignal;
+    /** Clears the timeout and stops listening to the run signal; call once the response has arrived */
+    cleanup: () => void;
+}
+
+/**
+ * Signal for a single request: aborts on the request timeout or when the run is cancelled
+ */
+export function createRequestSignal(timeout: number, signal?: AbortSignal): RequestSignal {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    const timer = setTimeout(() => {
+        controller.abort(new DOMException(`Request timed out after ${timeout}ms`, 'TimeoutError'));
+    }, timeout);
+
+    if (signal?.aborted) {
+        onAbort();
+    } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    return {
+        signal: controller.signal,
+        cleanup: () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+        }
+    };
+}
+
+/**
+ * Wait before the next retry, ending early with the abort reason when the run is cancelled
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
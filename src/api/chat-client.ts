@@ -2,6 +2,7 @@
  * OpenAI Chat API Client for Structured Output
  *
  * Pure structured output implementation - YAML processing removed.
+ * Supports strict JSON schema, plain JSON mode and prompt-only structured output.
  */
 
 import { createLogger } from '../logger';
@@ -9,16 +10,27 @@ import { ContentPipelineError, isContentPipelineError } from '../errors';
 import {
     ChatConfig,
     ChatOptions,
+    JsonSchema,
     OpenAIChatRequest,
     OpenAIChatResponse,
+    OpenAIMessage,
     ProcessedResponse,
+    ProcessedSection,
+    TokenUsage,
     DEFAULT_CHAT_CONFIG
 } from './chat-types';
+import { StructuredOutputMode } from '../types';
 import {
     generateChatRequestId,
     calculateChatBackoffDelay,
-    shouldRetryChatError
+    shouldRetryChatError,
+    buildSectionsSchema,
+    buildJsonFormatInstructions,
+    parseSectionsResponse,
+    addTokenUsage
 } from './chat-utils';
+import { estimateRequestTokens, getRetryDelay } from './rate-limiter';
+import { createRequestSignal, delay } from './abort-utils';
 
 const logger = createLogger('ChatClient');
 
@@ -43,63 +55,59 @@ export class ChatClient {
         const model = options.model || DEFAULT_CHAT_CONFIG.model;
 
         try {
-            logger.info(`Processing structured request with ${model}`, { requestId, promptSize: prompt.length });
+            const mode = this.config.structuredOutput || DEFAULT_CHAT_CONFIG.structuredOutput;
+            logger.info(`Processing structured request with ${model}`, { requestId, promptSize: prompt.length, structuredOutput: mode });
 
             // Build JSON schema for response
-            const schema = this.buildResponseSchema(availableNextSteps);
-
-            // Create request with structured output
-            const request: OpenAIChatRequest = {
-                model,
-                messages: [{ role: 'user', content: prompt }],
-                temperature: options.temperature ?? DEFAULT_CHAT_CONFIG.temperature,
-                max_tokens: options.maxTokens ?? DEFAULT_CHAT_CONFIG.maxTokens,
-                top_p: options.topP,
-                frequency_penalty: options.frequencyPenalty,
-                presence_penalty: options.presencePenalty,
-                stop: options.stop,
-                response_format: {
-                    type: 'json_schema',
-                    json_schema: {
-                        name: 'content_pipeline_response',
-                        strict: true,
-                        schema
-                    }
-                }
-            };
+            const schema = buildSectionsSchema(availableNextSteps);
+
+            // Backends without strict schema support get the schema described in the prompt
+            const messages: OpenAIMessage[] = [{
+                role: 'user',
+                content: mode === 'json_schema' ? prompt : `${prompt}\n\n${buildJsonFormatInstructions(schema)}`
+            }];
 
             // Debug logging: Raw LLM Request
             logger.debug('Raw LLM Structured Request', {
                 model: model,
                 promptSize: prompt.length,
                 schema: schema,
+                structuredOutput: mode,
                 availableNextSteps: availableNextSteps
             });
 
-            // Make API request
-            const response = await this.makeRequestWithRetry(request, requestId);
-            const responseData: OpenAIChatResponse = await response.json();
+            const completion = await this.requestCompletion(messages, schema, mode, model, options, requestId);
+            let jsonContent = completion.content;
+            let usage = completion.usage;
+            let sections: ProcessedSection[];
 
-            if (!responseData.choices?.[0]?.message?.content) {
-                throw new ContentPipelineError('Empty response from API');
-            }
+            try {
+                sections = parseSectionsResponse(jsonContent, availableNextSteps, mode === 'json_schema');
+            } catch (parseError) {
+                // Strict schema output is guaranteed by the API, so only weaker modes get a second chance
+                if (mode === 'json_schema') {
+                    throw parseError;
+                }
 
-            const jsonContent = responseData.choices[0].message.content;
-            const jsonResponse = JSON.parse(jsonContent);
+                const reason = parseError instanceof Error ? parseError.message : String(parseError);
+                logger.warn('Malformed structured response, asking model to correct it', { requestId, reason });
 
-            // Debug logging: Raw LLM Response
-            logger.debug('Raw LLM Structured Response', {
-                responseBody: jsonContent,
-                responseSize: jsonContent.length,
-                parsedSections: jsonResponse.sections?.length || 0,
-                model: responseData.model,
-                usage: responseData.usage
-            });
+                messages.push(
+                    { role: 'assistant', content: jsonContent },
+                    { role: 'user', content: `Your previous response was invalid: ${reason}\nRespond again with ONLY the corrected JSON object.` }
+                );
+
+                const correction = await this.requestCompletion(messages, schema, mode, model, options, requestId);
+                jsonContent = correction.content;
+                usage = addTokenUsage(usage, correction.usage);
+                sections = parseSectionsResponse(jsonContent, availableNextSteps);
+            }
 
             const processedResponse: ProcessedResponse = {
-                sections: jsonResponse.sections,
-                isMultiFile: jsonResponse.sections.length > 1,
-                rawResponse: jsonContent
+                sections,
+                isMultiFile: sections.length > 1,
+                rawResponse: jsonContent,
+                usage
             };
 
             logger.info('Structured request complete', {
@@ -122,94 +130,144 @@ export class ChatClient {
         }
     }
 
-    private buildResponseSchema(availableNextSteps: string[]): Record<string, unknown> {
-        // Build item properties conditionally
-        const itemProperties: Record<string, unknown> = {
-            filename: { type: 'string' },
-            content: { type: 'string' }
+    /**
+     * Send one chat completion request and return the raw message content with its token usage
+     */
+    private async requestCompletion(
+        messages: OpenAIMessage[],
+        schema: JsonSchema,
+        mode: StructuredOutputMode,
+        model: string,
+        options: ChatOptions,
+        requestId: string
+    ): Promise<{ content: string; usage?: TokenUsage }> {
+        const request: OpenAIChatRequest = {
+            model,
+            messages,
+            temperature: options.temperature ?? DEFAULT_CHAT_CONFIG.temperature,
+            max_tokens: options.maxTokens ?? DEFAULT_CHAT_CONFIG.maxTokens,
+            top_p: options.topP,
+            frequency_penalty: options.frequencyPenalty,
+            presence_penalty: options.presencePenalty,
+            stop: options.stop
         };
 
-        const required = ['filename', 'content'];
-
-        // Add nextStep property only if routing is available
-        if (availableNextSteps.length > 0) {
-            itemProperties.nextStep = {
-                type: 'string',
-                enum: availableNextSteps
+        if (mode === 'json_schema') {
+            request.response_format = {
+                type: 'json_schema',
+                json_schema: {
+                    name: 'content_pipeline_response',
+                    strict: true,
+                    schema
+                }
             };
-            // CRITICAL FIX: Add nextStep to required array for strict schema compliance
-            required.push('nextStep');
+        } else if (mode === 'json_object') {
+            request.response_format = { type: 'json_object' };
         }
 
-        const schema = {
-            type: 'object',
-            properties: {
-                sections: {
-                    type: 'array',
-                    items: {
-                        type: 'object',
-                        properties: itemProperties,
-                        required: required,
-                        additionalProperties: false
-                    }
-                }
-            },
-            required: ['sections'],
-            additionalProperties: false
-        };
+        // Make API request
+        const responseData = await this.makeRequestWithRetry(request, requestId);
+
+        // Local backends do not always report usage
+        const usage = responseData.usage ? {
+            promptTokens: responseData.usage.prompt_tokens || 0,
+            completionTokens: responseData.usage.completion_tokens || 0
+        } : undefined;
+        if (usage) {
+            this.config.onUsage?.(usage);
+        }
+
+        if (!responseData.choices?.[0]?.message?.content) {
+            throw new ContentPipelineError('Empty response from API');
+        }
+
+        const content = responseData.choices[0].message.content;
 
-        return schema;
+        // Debug logging: Raw LLM Response
+        logger.debug('Raw LLM Structured Response', {
+            responseBody: content,
+            responseSize: content.length,
+            model: responseData.model,
+            usage: responseData.usage
+        });
+
+        return { content, usage };
     }
 
-    private async makeRequestWithRetry(request: OpenAIChatRequest, requestId: string): Promise<Response> {
+    /**
+     * Send the request and parse the response body, retrying transient failures
+     *
+     * The body is read before the rate limit slot is released, so a slow response
+     * still counts against the concurrency limit and can be cancelled.
+     */
+    private async makeRequestWithRetry(request: OpenAIChatRequest, requestId: string): Promise<OpenAIChatResponse> {
         let lastError: Error | null = null;
+        const body = JSON.stringify(request);
+        const estimatedTokens = estimateRequestTokens(body, request.max_tokens);
 
         for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
-            try {
-                const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${this.config.apiKey}`,
-                        ...(this.config.organization && { 'OpenAI-Organization': this.config.organization })
-                    },
-                    body: JSON.stringify(request),
-                    signal: AbortSignal.timeout(this.config.timeout)
-                });
-
-                if (!response.ok) {
-                    const errorText = await response.text().catch(() => 'Unknown error');
-                    let errorMessage = `HTTP ${response.status}: ${errorText}`;
+            let retryDelay: number | undefined;
 
-                    // Parse OpenAI error format if available
-                    try {
-                        const errorData = JSON.parse(errorText);
-                        if (errorData.error?.message) {
-                            errorMessage = `${errorData.error.type || 'API Error'}: ${errorData.error.message}`;
+            try {
+                const release = await this.config.rateLimiter?.acquire(estimatedTokens, this.config.signal);
+                const requestSignal = createRequestSignal(this.config.timeout, this.config.signal);
+                try {
+                    const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+                        method: 'POST',
+                        headers: {
+                            'Content-Type': 'application/json',
+                            'Authorization': `Bearer ${this.config.apiKey}`,
+                            ...(this.config.organization && { 'OpenAI-Organization': this.config.organization })
+                        },
+                        body,
+                        signal: requestSignal.signal
+                    });
+
+                    this.config.rateLimiter?.updateFromHeaders(response.headers);
+
+                    if (!response.ok) {
+                        retryDelay = getRetryDelay(response.headers);
+                        const errorText = await response.text().catch(() => 'Unknown error');
+                        let errorMessage = `HTTP ${response.status}: ${errorText}`;
+
+                        // Parse OpenAI error format if available
+                        try {
+                            const errorData = JSON.parse(errorText);
+                            if (errorData.error?.message) {
+                                errorMessage = `HTTP ${response.status} ${errorData.error.type || 'API Error'}: ${errorData.error.message}`;
+                            }
+                        } catch {
+                            // Keep original error message if parsing fails
                         }
-                    } catch {
-                        // Keep original error message if parsing fails
+
+                        throw new Error(errorMessage);
                     }
 
-                    throw new Error(errorMessage);
+                    return await response.json();
+                } finally {
+                    requestSignal.cleanup();
+                    release?.();
                 }
 
-                return response;
-
             } catch (error) {
                 lastError = error instanceof Error ? error : new Error(String(error));
 
-                if (!shouldRetryChatError(lastError) || attempt === this.config.maxRetries) {
+                // A cancelled run is never retried
+                if (this.config.signal?.aborted || !shouldRetryChatError(lastError) || attempt === this.config.maxRetries) {
                     throw lastError;
                 }
 
-                const delay = calculateChatBackoffDelay(attempt);
-                logger.warn(`Chat request attempt ${attempt} failed, retrying in ${delay}ms`, {
+                // Prefer the delay requested by the API and hold back other requests of the model config meanwhile
+                const delayMs = retryDelay ?? calculateChatBackoffDelay(attempt);
+                if (retryDelay !== undefined) {
+                    this.config.rateLimiter?.pauseFor(retryDelay);
+                }
+                logger.warn(`Chat request attempt ${attempt} failed, retrying in ${delayMs}ms`, {
                     requestId,
                     error: lastError.message
                 });
 
-                await new Promise(resolve => setTimeout(resolve, delay));
+                await delay(delayMs, this.config.signal);
             }
         }
 
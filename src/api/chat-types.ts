@@ -2,6 +2,9 @@
  * Type definitions for OpenAI Chat API client
  */
 
+import { StructuredOutputMode } from '../types';
+import { RateLimiter } from './rate-limiter';
+
 // JSON Schema type for OpenAI structured output
 export type JsonSchema = Record<string, unknown>;
 
@@ -11,6 +14,14 @@ export interface ChatConfig {
     organization?: string;
     timeout?: number;
     maxRetries?: number;
+    /** Structured output capability of the backend */
+    structuredOutput?: StructuredOutputMode;
+    /** Shared rate limiter of the model config (optional) */
+    rateLimiter?: RateLimiter;
+    /** Cancels requests and retries of the pipeline run (optional) */
+    signal?: AbortSignal;
+    /** Called with the usage of every completion the API reported, including ones that fail to parse */
+    onUsage?: (usage: TokenUsage) => void;
 }
 
 export interface ChatOptions {
@@ -23,6 +34,14 @@ export interface ChatOptions {
     stop?: string | string[];
 }
 
+/**
+ * Token usage reported by a chat API
+ */
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
 export interface ChatResult {
     content: string;
     model: string;
@@ -35,7 +54,7 @@ export interface ChatResult {
     };
 }
 
-interface OpenAIMessage {
+export interface OpenAIMessage {
     role: 'system' | 'user' | 'assistant';
     content: string;
 }
@@ -56,6 +75,8 @@ export interface OpenAIChatRequest {
             strict: boolean;
             schema: JsonSchema;
         };
+    } | {
+        type: 'json_object';
     };
 }
 
@@ -93,6 +114,10 @@ export interface ProcessedSection {
     content: string;
     /** Next step for routing (optional) */
     nextStep?: string;
+    /** Index of the response section this section is a broadcast copy of */
+    broadcastOf?: number;
+    /** Output paths of the other copies of a section sent to a broadcast key */
+    copies?: string[];
 }
 
 /**
@@ -105,6 +130,8 @@ export interface ProcessedResponse {
     isMultiFile: boolean;
     /** Raw JSON response for debugging */
     rawResponse: string;
+    /** Token usage summed over all requests made for this response */
+    usage?: TokenUsage;
 }
 
 export const DEFAULT_CHAT_CONFIG = {
@@ -113,7 +140,8 @@ export const DEFAULT_CHAT_CONFIG = {
     maxRetries: 3,
     model: 'gpt-4o',
     temperature: 0.1,
-    maxTokens: 4000
+    maxTokens: 4000,
+    structuredOutput: 'json_schema' as const
 };
 
 export const CHAT_LIMITS = {
@@ -2,7 +2,10 @@
  * Utility functions for Chat API client
  */
 
-import { CHAT_LIMITS } from './chat-types';
+import * as v from 'valibot';
+import { CHAT_LIMITS, JsonSchema, ProcessedSection, TokenUsage } from './chat-types';
+import { structuredResponseSchema } from '../validation/schemas';
+import { ContentPipelineError } from '../errors';
 
 /**
  * Generate unique request ID for tracking
@@ -77,6 +80,173 @@ export function shouldRetryChatError(error: Error): boolean {
     return true;
 }
 
+/**
+ * Check if an error came from the provider or the network (timeouts, rate limits, 5xx)
+ *
+ * Only these are worth sending to another model config; errors of the request
+ * or the response (400, schema or parse errors, configuration) fail every model
+ * the same way. Errors wrapped by the clients are checked through their cause.
+ */
+export function isTransientApiError(error: unknown): boolean {
+    if (!(error instanceof Error)) {
+        return false;
+    }
+    if (error.name === 'TimeoutError') {
+        return true;
+    }
+
+    const message = error.message;
+    if (/\bHTTP (429|5\d\d)\b/.test(message) || /rate limit|overloaded|timed out|timeout/i.test(message)) {
+        return true;
+    }
+    if (/network|fetch failed|failed to fetch|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN/i.test(message)) {
+        return true;
+    }
+
+    return isTransientApiError((error as { cause?: unknown }).cause);
+}
+
+/**
+ * Build the JSON schema describing the `sections` response structure
+ *
+ * Shared by every chat implementation so routing options are enforced identically.
+ */
+export function buildSectionsSchema(availableNextSteps: string[]): JsonSchema {
+    // Build item properties conditionally
+    const itemProperties: Record<string, unknown> = {
+        filename: { type: 'string' },
+        content: { type: 'string' }
+    };
+
+    const required = ['filename', 'content'];
+
+    // Add nextStep property only if routing is available
+    if (availableNextSteps.length > 0) {
+        itemProperties.nextStep = {
+            type: 'string',
+            enum: availableNextSteps
+        };
+        // CRITICAL FIX: Add nextStep to required array for strict schema compliance
+        required.push('nextStep');
+    }
+
+    return {
+        type: 'object',
+        properties: {
+            sections: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: itemProperties,
+                    required: required,
+                    additionalProperties: false
+                }
+            }
+        },
+        required: ['sections'],
+        additionalProperties: false
+    };
+}
+
+/**
+ * Describe the expected JSON structure in the prompt for backends without strict schema support
+ */
+export function buildJsonFormatInstructions(schema: JsonSchema): string {
+    return [
+        '<output_format>',
+        'Respond ONLY with a single JSON object that matches this JSON schema.',
+        'Do not wrap the JSON in markdown code fences and do not add any text before or after it.',
+        JSON.stringify(schema, null, 2),
+        '</output_format>'
+    ].join('\n');
+}
+
+/**
+ * Extract the JSON object from a model response that may contain code fences or surrounding text
+ *
+ * Only a fence around the whole response is stripped; fences inside the JSON
+ * (code blocks in section content) are left alone.
+ */
+export function extractJsonContent(content: string): string {
+    const trimmed = content.trim();
+
+    const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*)```$/i);
+    if (fenced) {
+        return fenced[1].trim();
+    }
+
+    const firstBrace = trimmed.indexOf('{');
+    const lastBrace = trimmed.lastIndexOf('}');
+    if (firstBrace !== -1 && lastBrace > firstBrace) {
+        return trimmed.substring(firstBrace, lastBrace + 1);
+    }
+
+    return trimmed;
+}
+
+/**
+ * Parse and validate the `sections` structure from a model response
+ *
+ * Throws a ContentPipelineError describing the problem so it can be fed back to the model.
+ *
+ * @param strict - The API guarantees a bare JSON body (json_schema mode), so nothing is extracted
+ */
+export function parseSectionsResponse(content: string, availableNextSteps: string[] = [], strict = false): ProcessedSection[] {
+    let parsed: unknown;
+    try {
+        parsed = strict ? JSON.parse(content) : parseJsonContent(content);
+    } catch (error) {
+        throw new ContentPipelineError(`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return validateSections(parsed, availableNextSteps);
+}
+
+/**
+ * Validate parsed `sections` output against the sections schema and the routing options
+ */
+export function validateSections(parsed: unknown, availableNextSteps: string[] = []): ProcessedSection[] {
+    const result = v.safeParse(structuredResponseSchema, parsed);
+    if (!result.success) {
+        throw new ContentPipelineError(`Response does not match the sections schema: ${result.issues[0]?.message || 'Invalid structure'}`);
+    }
+
+    if (availableNextSteps.length > 0) {
+        const invalidSection = result.output.sections.find(section =>
+            !section.nextStep || !availableNextSteps.includes(section.nextStep)
+        );
+        if (invalidSection) {
+            throw new ContentPipelineError(`Section "${invalidSection.filename}" has invalid nextStep '${invalidSection.nextStep ?? ''}'. Allowed values: ${availableNextSteps.join(', ')}`);
+        }
+    }
+
+    return result.output.sections;
+}
+
+/**
+ * Parse the response as it is, and only extract the JSON from it if that fails
+ */
+function parseJsonContent(content: string): unknown {
+    try {
+        return JSON.parse(content);
+    } catch {
+        return JSON.parse(extractJsonContent(content));
+    }
+}
+
+/**
+ * Add up token usage of several requests, ignoring requests without reported usage
+ */
+export function addTokenUsage(total?: TokenUsage, usage?: TokenUsage): TokenUsage | undefined {
+    if (!total) return usage;
+    if (!usage) return total;
+
+    return {
+        promptTokens: total.promptTokens + usage.promptTokens,
+        completionTokens: total.completionTokens + usage.completionTokens
+    };
+}
+
 /**
  * Estimate token count for request (rough approximation)
  */
@@ -0,0 +1,214 @@
+/**
+ * Anthropic Claude Messages API Client for Structured Output
+ *
+ * Uses forced tool use to obtain the same `sections` structure as the OpenAI client.
+ */
+
+import { createLogger } from '../logger';
+import { ContentPipelineError, isContentPipelineError } from '../errors';
+import { ProcessedResponse } from './chat-types';
+import {
+    ClaudeConfig,
+    ClaudeOptions,
+    ClaudeMessagesRequest,
+    ClaudeMessagesResponse,
+    DEFAULT_CLAUDE_CONFIG
+} from './claude-types';
+import {
+    generateChatRequestId,
+    calculateChatBackoffDelay,
+    shouldRetryChatError,
+    buildSectionsSchema,
+    validateSections
+} from './chat-utils';
+import { estimateRequestTokens, getRetryDelay } from './rate-limiter';
+import { createRequestSignal, delay } from './abort-utils';
+
+const logger = createLogger('ClaudeClient');
+
+export class ClaudeClient {
+    private config: ClaudeConfig & Required<Pick<ClaudeConfig, 'baseUrl' | 'timeout' | 'maxRetries'>>;
+
+    constructor(config: ClaudeConfig) {
+        this.config = { ...DEFAULT_CLAUDE_CONFIG, ...config };
+
+        if (!this.config.apiKey) {
+            throw new ContentPipelineError('API key required');
+        }
+    }
+
+    async processStructuredRequest(
+        prompt: string,
+        availableNextSteps: string[] = [],
+        options: ClaudeOptions = {}
+    ): Promise<ProcessedResponse> {
+        const requestId = generateChatRequestId();
+        const startTime = Date.now();
+        const model = options.model || DEFAULT_CLAUDE_CONFIG.model;
+
+        try {
+            logger.info(`Processing structured request with ${model}`, { requestId, promptSize: prompt.length });
+
+            const schema = buildSectionsSchema(availableNextSteps);
+
+            // Force the model to answer through the sections tool
+            const request: ClaudeMessagesRequest = {
+                model,
+                max_tokens: options.maxTokens ?? DEFAULT_CLAUDE_CONFIG.maxTokens,
+                messages: [{ role: 'user', content: prompt }],
+                temperature: options.temperature ?? DEFAULT_CLAUDE_CONFIG.temperature,
+                tools: [{
+                    name: DEFAULT_CLAUDE_CONFIG.toolName,
+                    description: 'Save the processed content as one or more output files.',
+                    input_schema: schema
+                }],
+                tool_choice: { type: 'tool', name: DEFAULT_CLAUDE_CONFIG.toolName }
+            };
+
+            if (options.system) request.system = options.system;
+            if (options.topP !== undefined) request.top_p = options.topP;
+            if (options.stop !== undefined) request.stop_sequences = Array.isArray(options.stop) ? options.stop : [options.stop];
+
+            // Debug logging: Raw LLM Request
+            logger.debug('Raw LLM Structured Request', {
+                model: model,
+                promptSize: prompt.length,
+                systemSize: options.system?.length || 0,
+                schema: schema,
+                availableNextSteps: availableNextSteps
+            });
+
+            const responseData = await this.makeRequestWithRetry(request, requestId);
+            const usage = responseData.usage ? {
+                promptTokens: responseData.usage.input_tokens || 0,
+                completionTokens: responseData.usage.output_tokens || 0
+            } : undefined;
+            if (usage) {
+                this.config.onUsage?.(usage);
+            }
+
+            const toolUse = responseData.content?.find(block =>
+                block.type === 'tool_use' && block.name === DEFAULT_CLAUDE_CONFIG.toolName
+            );
+
+            if (!toolUse || toolUse.type !== 'tool_use') {
+                throw new ContentPipelineError(`Claude response did not contain ${DEFAULT_CLAUDE_CONFIG.toolName} tool call (stop_reason: ${responseData.stop_reason})`);
+            }
+
+            // Tool input follows the schema loosely, so it is validated like OpenAI responses
+            const sections = validateSections(toolUse.input, availableNextSteps);
+
+            // Debug logging: Raw LLM Response
+            logger.debug('Raw LLM Structured Response', {
+                parsedSections: sections.length,
+                model: responseData.model,
+                usage: responseData.usage,
+                stopReason: responseData.stop_reason
+            });
+
+            const processedResponse: ProcessedResponse = {
+                sections,
+                isMultiFile: sections.length > 1,
+                rawResponse: JSON.stringify(toolUse.input),
+                usage
+            };
+
+            logger.info('Structured request complete', {
+                requestId,
+                duration: Date.now() - startTime,
+                sectionsReturned: processedResponse.sections.length,
+                isMultiFile: processedResponse.isMultiFile
+            });
+
+            return processedResponse;
+
+        } catch (error) {
+            logger.error('Structured request failed', { requestId, error, duration: Date.now() - startTime });
+
+            if (isContentPipelineError(error)) {
+                throw error;
+            }
+
+            throw new ContentPipelineError(`Claude API request failed: ${error instanceof Error ? error.message : String(error)}`, error instanceof Error ? error : undefined);
+        }
+    }
+
+    /**
+     * Send the request and parse the response body, retrying transient failures
+     */
+    private async makeRequestWithRetry(request: ClaudeMessagesRequest, requestId: string): Promise<ClaudeMessagesResponse> {
+        let lastError: Error | null = null;
+        const body = JSON.stringify(request);
+        const estimatedTokens = estimateRequestTokens(body, request.max_tokens);
+
+        for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+            let retryDelay: number | undefined;
+
+            try {
+                const release = await this.config.rateLimiter?.acquire(estimatedTokens, this.config.signal);
+                const requestSignal = createRequestSignal(this.config.timeout, this.config.signal);
+                try {
+                    const response = await fetch(`${this.config.baseUrl}/messages`, {
+                        method: 'POST',
+                        headers: {
+                            'Content-Type': 'application/json',
+                            'x-api-key': this.config.apiKey,
+                            'anthropic-version': DEFAULT_CLAUDE_CONFIG.apiVersion,
+                            // Obsidian runs in a browser context, which the API rejects without this opt-in
+                            'anthropic-dangerous-direct-browser-access': 'true'
+                        },
+                        body,
+                        signal: requestSignal.signal
+                    });
+
+                    this.config.rateLimiter?.updateFromHeaders(response.headers);
+
+                    if (!response.ok) {
+                        retryDelay = getRetryDelay(response.headers);
+                        const errorText = await response.text().catch(() => 'Unknown error');
+                        let errorMessage = `HTTP ${response.status}: ${errorText}`;
+
+                        // Parse Anthropic error format if available
+                        try {
+                            const errorData = JSON.parse(errorText);
+                            if (errorData.error?.message) {
+                                errorMessage = `HTTP ${response.status} ${errorData.error.type || 'API Error'}: ${errorData.error.message}`;
+                            }
+                        } catch {
+                            // Keep original error message if parsing fails
+                        }
+
+                        throw new Error(errorMessage);
+                    }
+
+                    return await response.json();
+                } finally {
+                    requestSignal.cleanup();
+                    release?.();
+                }
+
+            } catch (error) {
+                lastError = error instanceof Error ? error : new Error(String(error));
+
+                // A cancelled run is never retried
+                if (this.config.signal?.aborted || !shouldRetryChatError(lastError) || attempt === this.config.maxRetries) {
+                    throw lastError;
+                }
+
+                // Prefer the delay requested by the API and hold back other requests of the model config meanwhile
+                const delayMs = retryDelay ?? calculateChatBackoffDelay(attempt);
+                if (retryDelay !== undefined) {
+                    this.config.rateLimiter?.pauseFor(retryDelay);
+                }
+                logger.warn(`Claude request attempt ${attempt} failed, retrying in ${delayMs}ms`, {
+                    requestId,
+                    error: lastError.message
+                });
+
+                await delay(delayMs, this.config.signal);
+            }
+        }
+
+        throw lastError || new Error('Request failed after all retry attempts');
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Type definitions for Anthropic Claude Messages API client
+ */
+
+import { ChatOptions, JsonSchema, TokenUsage } from './chat-types';
+import { RateLimiter } from './rate-limiter';
+
+export interface ClaudeConfig {
+    apiKey: string;
+    baseUrl?: string;
+    timeout?: number;
+    maxRetries?: number;
+    /** Shared rate limiter of the model config (optional) */
+    rateLimiter?: RateLimiter;
+    /** Cancels requests and retries of the pipeline run (optional) */
+    signal?: AbortSignal;
+    /** Called with the usage of every response the API reported, including ones that fail validation */
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface ClaudeOptions extends ChatOptions {
+    /** System prompt sent separately from the user message */
+    system?: string;
+}
+
+interface ClaudeMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+interface ClaudeTool {
+    name: string;
+    description: string;
+    input_schema: JsonSchema;
+}
+
+export interface ClaudeMessagesRequest {
+    model: string;
+    max_tokens: number;
+    system?: string;
+    messages: ClaudeMessage[];
+    temperature?: number;
+    top_p?: number;
+    stop_sequences?: string[];
+    tools: ClaudeTool[];
+    tool_choice: {
+        type: 'tool';
+        name: string;
+    };
+}
+
+interface ClaudeTextBlock {
+    type: 'text';
+    text: string;
+}
+
+interface ClaudeToolUseBlock {
+    type: 'tool_use';
+    id: string;
+    name: string;
+    input: Record<string, unknown>;
+}
+
+export type ClaudeContentBlock = ClaudeTextBlock | ClaudeToolUseBlock;
+
+export interface ClaudeMessagesResponse {
+    id: string;
+    type: string;
+    role: string;
+    model: string;
+    content: ClaudeContentBlock[];
+    stop_reason: string;
+    usage: {
+        input_tokens: number;
+        output_tokens: number;
+    };
+}
+
+export const DEFAULT_CLAUDE_CONFIG = {
+    baseUrl: 'https://api.anthropic.com/v1',
+    timeout: 60000,
+    maxRetries: 3,
+    model: 'claude-sonnet-4-20250514',
+    temperature: 0.1,
+    maxTokens: 4000,
+    apiVersion: '2023-06-01',
+    toolName: 'save_sections'
+};
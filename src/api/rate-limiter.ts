@@ -0,0 +1,263 @@
+/**
+ * Per-Model-Config Rate Limiting
+ *
+ * Shared limiter for all requests using the same model config. Enforces
+ * requests-per-minute and tokens-per-minute budgets over a sliding one-minute
+ * window, caps the number of requests in flight, and pauses every request of
+ * the model config when the API reports an exhausted budget or asks to retry
+ * later (Retry-After, x-ratelimit-* and anthropic-ratelimit-* headers).
+ */
+
+import { RateLimitConfig } from '../types';
+import { createLogger } from '../logger';
+
+const logger = createLogger('RateLimiter');
+
+const WINDOW_MS = 60000;
+
+/**
+ * Response headers as returned by fetch (absent on some mocked responses)
+ */
+type ResponseHeaders = Pick<Headers, 'get'> | undefined;
+
+/**
+ * Releases an acquired slot, optionally correcting the token estimate with the actual usage
+ */
+export type ReleaseRateLimit = (actualTokens?: number) => void;
+
+interface WindowEntry {
+    time: number;
+    tokens: number;
+}
+
+/**
+ * Parse a rate limit reset value into milliseconds from now
+ *
+ * Accepts OpenAI durations ("1s", "6m0s", "20ms"), plain seconds and
+ * timestamps (Anthropic reports RFC 3339 reset times).
+ */
+export function parseResetDelay(value: string | null | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const trimmed = value.trim();
+
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.ceil(parseFloat(trimmed) * 1000);
+    }
+
+    const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+    if (/^(\d+(\.\d+)?(ms|h|m|s))+$/.test(trimmed)) {
+        let total = 0;
+        for (const match of trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+            total += parseFloat(match[1]) * units[match[2]];
+        }
+        return Math.ceil(total);
+    }
+
+    const timestamp = Date.parse(trimmed);
+    return isNaN(timestamp) ? undefined : Math.max(0, timestamp - Date.now());
+}
+
+/**
+ * Delay requested by the API before the next attempt, if any
+ */
+export function getRetryDelay(headers: ResponseHeaders): number | undefined {
+    if (!headers) {
+        return undefined;
+    }
+
+    const retryAfterMs = headers.get('retry-after-ms');
+    if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+        return Number(retryAfterMs);
+    }
+
+    const retryAfter = parseResetDelay(headers.get('retry-after'));
+    if (retryAfter !== undefined) {
+        return retryAfter;
+    }
+
+    // Without Retry-After, wait for whichever exhausted budget resets last
+    const resets = getExhaustedBudgetResets(headers);
+    return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/**
+ * Reset delays of the request and token budgets that the API reports as exhausted
+ */
+function getExhaustedBudgetResets(headers: Pick<Headers, 'get'>): number[] {
+    const budgets = [
+        ['x-ratelimit-remaining-requests', 'x-ratelimit-reset-requests'],
+        ['x-ratelimit-remaining-tokens', 'x-ratelimit-reset-tokens'],
+        ['anthropic-ratelimit-requests-remaining', 'anthropic-ratelimit-requests-reset'],
+        ['anthropic-ratelimit-tokens-remaining', 'anthropic-ratelimit-tokens-reset']
+    ];
+
+    return budgets
+        .filter(([remaining]) => headers.get(remaining) === '0')
+        .map(([, reset]) => parseResetDelay(headers.get(reset)))
+        .filter((delay): delay is number => delay !== undefined);
+}
+
+export class RateLimiter {
+    private limits: RateLimitConfig;
+    private window: WindowEntry[] = [];
+    private inFlight = 0;
+    private pausedUntil = 0;
+    private waiters: Array<() => void> = [];
+
+    constructor(limits: RateLimitConfig = {}) {
+        this.limits = limits;
+    }
+
+    updateLimits(limits: RateLimitConfig = {}): void {
+        this.limits = limits;
+        this.wakeWaiters();
+    }
+
+    /**
+     * Wait until a request with the estimated token count fits all budgets
+     *
+     * Rejects with the abort reason when the signal aborts while waiting.
+     */
+    async acquire(estimatedTokens = 0, signal?: AbortSignal): Promise<ReleaseRateLimit> {
+        signal?.throwIfAborted();
+        let waitTime = this.getWaitTime(estimatedTokens);
+
+        while (waitTime > 0) {
+            logger.debug('Waiting for rate limit capacity', {
+                waitTime: Number.isFinite(waitTime) ? waitTime : 'until a request completes',
+                inFlight: this.inFlight,
+                requestsInWindow: this.window.length
+            });
+            await this.waitForCapacity(waitTime, signal);
+            signal?.throwIfAborted();
+            waitTime = this.getWaitTime(estimatedTokens);
+        }
+
+        const entry: WindowEntry = { time: Date.now(), tokens: estimatedTokens };
+        this.window.push(entry);
+        this.inFlight++;
+
+        let released = false;
+        return (actualTokens?: number) => {
+            if (released) return;
+            released = true;
+
+            if (actualTokens !== undefined) {
+                entry.tokens = actualTokens;
+            }
+            this.inFlight--;
+            this.wakeWaiters();
+        };
+    }
+
+    /**
+     * Hold back every request of this model config for the given time
+     */
+    pauseFor(delayMs: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+    }
+
+    /**
+     * Pause until reset when the API reports an exhausted request or token budget
+     */
+    updateFromHeaders(headers: ResponseHeaders): void {
+        if (!headers) {
+            return;
+        }
+
+        const resets = getExhaustedBudgetResets(headers);
+        if (resets.length > 0) {
+            const delay = Math.max(...resets);
+            logger.debug(`API rate limit budget exhausted, pausing for ${delay}ms`);
+            this.pauseFor(delay);
+        }
+    }
+
+    /**
+     * Milliseconds until the request may start: 0 if it can start now,
+     * Infinity if it has to wait for a request in flight to complete
+     */
+    getWaitTime(estimatedTokens = 0): number {
+        const now = Date.now();
+        this.window = this.window.filter(entry => now - entry.time < WINDOW_MS);
+
+        if (this.pausedUntil > now) {
+            return this.pausedUntil - now;
+        }
+
+        if (this.limits.maxConcurrent && this.inFlight >= this.limits.maxConcurrent) {
+            return Infinity;
+        }
+
+        // Both budgets free up when the oldest request leaves the window
+        const untilOldestExpires = this.window.length > 0 ? this.window[0].time + WINDOW_MS - now : 0;
+
+        if (this.limits.requestsPerMinute && this.window.length >= this.limits.requestsPerMinute) {
+            return untilOldestExpires;
+        }
+
+        if (this.limits.tokensPerMinute && this.window.length > 0) {
+            const tokensInWindow = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+            // A single request larger than the budget still runs once the window is empty
+            if (tokensInWindow + estimatedTokens > this.limits.tokensPerMinute) {
+                return untilOldestExpires;
+            }
+        }
+
+        return 0;
+    }
+
+    private waitForCapacity(waitTime: number, signal?: AbortSignal): Promise<void> {
+        return new Promise(resolve => {
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const wake = () => {
+                if (timer) clearTimeout(timer);
+                signal?.removeEventListener('abort', wake);
+                this.waiters = this.waiters.filter(waiter => waiter !== wake);
+                resolve();
+            };
+
+            this.waiters.push(wake);
+            signal?.addEventListener('abort', wake, { once: true });
+            if (Number.isFinite(waitTime)) {
+                timer = setTimeout(wake, waitTime);
+            }
+        });
+    }
+
+    private wakeWaiters(): void {
+        [...this.waiters].forEach(wake => wake());
+    }
+}
+
+const rateLimiters = new Map<string, RateLimiter>();
+
+/**
+ * Shared limiter for a model config, created on first use
+ *
+ * Limits are refreshed on every lookup so configuration changes apply without a reload.
+ */
+export function getRateLimiter(modelConfigId: string, limits?: RateLimitConfig): RateLimiter {
+    let limiter = rateLimiters.get(modelConfigId);
+
+    if (!limiter) {
+        limiter = new RateLimiter(limits);
+        rateLimiters.set(modelConfigId, limiter);
+    } else {
+        limiter.updateLimits(limits);
+    }
+
+    return limiter;
+}
+
+/**
+ * Estimate the tokens a chat request counts against a tokens-per-minute budget
+ *
+ * OpenAI counts roughly four characters per prompt token plus the requested maximum completion.
+ */
+export function estimateRequestTokens(requestBody: string, maxTokens = 0): number {
+    return Math.ceil(requestBody.length / 4) + maxTokens;
+}
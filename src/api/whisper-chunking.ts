@@ -0,0 +1,216 @@
+/**
+ * Chunking utilities for transcribing audio larger than the Whisper upload limit
+ *
+ * Audio is decoded to mono PCM, cut into time-bounded chunks that overlap slightly,
+ * and re-encoded as 16-bit WAV. The transcripts of the chunks are stitched back
+ * together, dropping the words that were transcribed twice in the overlap.
+ */
+
+import { ContentPipelineError } from '../errors';
+import { TranscriptionSegment, WHISPER_CHUNKING } from './whisper-types';
+
+/**
+ * Decoded mono audio
+ */
+export interface DecodedAudio {
+    /** PCM samples in the range [-1, 1] */
+    samples: Float32Array;
+    /** Sample rate in Hz */
+    sampleRate: number;
+}
+
+/**
+ * Time range of a single chunk in seconds
+ */
+export interface AudioChunkRange {
+    index: number;
+    start: number;
+    end: number;
+}
+
+/**
+ * Encoded audio chunk ready for upload
+ */
+export interface AudioChunk extends AudioChunkRange {
+    data: ArrayBuffer;
+    filename: string;
+}
+
+export type AudioDecoder = (audioData: ArrayBuffer, sampleRate: number) => Promise<DecodedAudio>;
+
+/**
+ * Plan overlapping chunk ranges covering the full duration
+ */
+export function planAudioChunks(
+    durationSeconds: number,
+    chunkSeconds: number = WHISPER_CHUNKING.chunkDurationSeconds,
+    overlapSeconds: number = WHISPER_CHUNKING.overlapSeconds
+): AudioChunkRange[] {
+    if (chunkSeconds <= overlapSeconds) {
+        throw new ContentPipelineError('Chunk duration must be longer than the chunk overlap');
+    }
+
+    const chunks: AudioChunkRange[] = [];
+    const stride = chunkSeconds - overlapSeconds;
+    let start = 0;
+
+    while (start < durationSeconds) {
+        const end = Math.min(start + chunkSeconds, durationSeconds);
+        chunks.push({ index: chunks.length, start, end });
+        if (end >= durationSeconds) break;
+        start += stride;
+    }
+
+    return chunks;
+}
+
+/**
+ * Decode audio using the Web Audio API available in Obsidian, resampled and mixed down to mono
+ */
+export async function decodeAudioToMono(audioData: ArrayBuffer, sampleRate: number): Promise<DecodedAudio> {
+    if (typeof OfflineAudioContext === 'undefined') {
+        throw new ContentPipelineError('Audio decoding is not available in this environment');
+    }
+
+    // Decoding through an OfflineAudioContext resamples to the context sample rate
+    const context = new OfflineAudioContext(1, 1, sampleRate);
+    const audioBuffer = await context.decodeAudioData(audioData.slice(0));
+
+    const samples = new Float32Array(audioBuffer.length);
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+        const channelData = audioBuffer.getChannelData(channel);
+        for (let i = 0; i < channelData.length; i++) {
+            samples[i] += channelData[i] / audioBuffer.numberOfChannels;
+        }
+    }
+
+    return { samples, sampleRate: audioBuffer.sampleRate };
+}
+
+/**
+ * Encode mono PCM samples as a 16-bit WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+    const bytesPerSample = 2;
+    const dataSize = samples.length * bytesPerSample;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) {
+            view.setUint8(offset + i, value.charCodeAt(i));
+        }
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * bytesPerSample, true);
+    view.setUint16(32, bytesPerSample, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    let offset = 44;
+    for (let i = 0; i < samples.length; i++) {
+        const sample = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+        offset += bytesPerSample;
+    }
+
+    return buffer;
+}
+
+/**
+ * Split audio into overlapping WAV chunks
+ */
+export async function splitAudioIntoChunks(
+    audioData: ArrayBuffer,
+    filename: string,
+    decoder: AudioDecoder = decodeAudioToMono
+): Promise<AudioChunk[]> {
+    const decoded = await decoder(audioData, WHISPER_CHUNKING.sampleRate);
+    const durationSeconds = decoded.samples.length / decoded.sampleRate;
+    const basename = filename.includes('.') ? filename.substring(0, filename.lastIndexOf('.')) : filename;
+
+    return planAudioChunks(durationSeconds).map(range => {
+        const startSample = Math.floor(range.start * decoded.sampleRate);
+        const endSample = Math.min(Math.ceil(range.end * decoded.sampleRate), decoded.samples.length);
+
+        return {
+            ...range,
+            data: encodeWav(decoded.samples.subarray(startSample, endSample), decoded.sampleRate),
+            filename: `${basename}-part-${range.index + 1}.wav`
+        };
+    });
+}
+
+/**
+ * Get the end of a transcript to use as the Whisper prompt for the following chunk
+ */
+export function getTranscriptTail(text: string, maxChars: number = WHISPER_CHUNKING.promptTailChars): string {
+    const trimmed = text.trim();
+    if (trimmed.length <= maxChars) {
+        return trimmed;
+    }
+
+    // Drop a partial leading word so the prompt does not start mid-word
+    const cutIndex = trimmed.length - maxChars;
+    const tail = trimmed.substring(cutIndex);
+    const startsMidWord = !/\s/.test(trimmed[cutIndex - 1]);
+    return (startsMidWord ? tail.replace(/^\S*/, '') : tail).trim();
+}
+
+/**
+ * Join chunk transcripts, removing words repeated because of the chunk overlap
+ */
+export function stitchTranscripts(parts: string[], maxOverlapWords: number = WHISPER_CHUNKING.maxOverlapWords): string {
+    const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+    return parts.reduce((combined, part) => {
+        const next = part.trim();
+        if (!combined) return next;
+        if (!next) return combined;
+
+        const previousWords = combined.split(/\s+/);
+        const nextWords = next.split(/\s+/);
+        const limit = Math.min(maxOverlapWords, previousWords.length, nextWords.length);
+
+        // Find the longest suffix of the previous transcript that starts the next one
+        let overlap = 0;
+        for (let size = limit; size > 0; size--) {
+            const suffix = previousWords.slice(-size).map(normalize).join(' ');
+            const prefix = nextWords.slice(0, size).map(normalize).join(' ');
+            if (suffix && suffix === prefix) {
+                overlap = size;
+                break;
+            }
+        }
+
+        const remainder = nextWords.slice(overlap).join(' ');
+        return remainder ? `${combined} ${remainder}` : combined;
+    }, '');
+}
+
+/**
+ * Shift chunk segments to absolute time and append them, skipping segments repeated in the overlap
+ */
+export function appendChunkSegments(
+    combined: TranscriptionSegment[],
+    chunkSegments: TranscriptionSegment[],
+    offsetSeconds: number
+): TranscriptionSegment[] {
+    const lastEnd = combined.length > 0 ? combined[combined.length - 1].end : 0;
+
+    const shifted = chunkSegments
+        .map(segment => ({ ...segment, start: segment.start + offsetSeconds, end: segment.end + offsetSeconds }))
+        // A segment belongs to the previous chunk when most of it was already covered there
+        .filter(segment => (segment.start + segment.end) / 2 > lastEnd);
+
+    return [...combined, ...shifted];
+}
@@ -4,8 +4,10 @@
 
 import { createLogger } from '../logger';
 import { ContentPipelineError, isContentPipelineError } from '../errors';
-import { WhisperConfig, TranscriptionOptions, TranscriptionResult, DEFAULT_WHISPER_CONFIG } from './whisper-types';
+import { WhisperConfig, TranscriptionOptions, TranscriptionResult, TranscriptionSegment, DEFAULT_WHISPER_CONFIG } from './whisper-types';
 import { generateRequestId, getMimeType, calculateBackoffDelay, shouldRetryError } from './whisper-utils';
+import { getRetryDelay } from './rate-limiter';
+import { createRequestSignal, delay } from './abort-utils';
 import * as v from 'valibot';
 import { audioFileSchema } from '../validation/schemas';
 
@@ -37,8 +39,12 @@ export class WhisperClient {
             v.parse(audioFileSchema, { audioData, filename });
 
             const formData = this.createFormData(audioData, filename, options);
-            const response = await this.makeRequestWithRetry(formData);
-            const text = await response.text();
+
+            if (options.responseFormat === 'verbose_json') {
+                return this.parseVerboseResponse(await this.makeRequestWithRetry(formData, response => response.json()), filename, requestId, startTime);
+            }
+
+            const text = await this.makeRequestWithRetry(formData, response => response.text());
 
             if (!text?.trim()) {
                 throw new ContentPipelineError('Empty transcription from API');
@@ -63,6 +69,32 @@ export class WhisperClient {
         }
     }
 
+    private parseVerboseResponse(
+        data: { text?: string; language?: string; duration?: number; segments?: TranscriptionSegment[] },
+        filename: string,
+        requestId: string,
+        startTime: number
+    ): TranscriptionResult {
+        if (!data?.text?.trim()) {
+            throw new ContentPipelineError('Empty transcription from API');
+        }
+
+        logger.info(`Transcription complete: ${filename}`, { requestId, segments: data.segments?.length || 0 });
+        return {
+            text: data.text.trim(),
+            model: 'whisper-1',
+            requestId,
+            duration: Date.now() - startTime,
+            language: data.language,
+            audioDuration: data.duration,
+            segments: (data.segments || []).map(segment => ({
+                start: segment.start,
+                end: segment.end,
+                text: segment.text.trim()
+            }))
+        };
+    }
+
     private createFormData(audioData: ArrayBuffer, filename: string, options: TranscriptionOptions): FormData {
         const formData = new FormData();
         formData.append('file', new Blob([audioData], { type: getMimeType(filename) }), filename);
@@ -76,36 +108,55 @@ export class WhisperClient {
         return formData;
     }
 
-    private async makeRequestWithRetry(formData: FormData): Promise<Response> {
+    /**
+     * Send the request and read the response with readBody while the request can still be cancelled
+     */
+    private async makeRequestWithRetry<T>(formData: FormData, readBody: (response: Response) => Promise<T>): Promise<T> {
         let lastError: Error | null = null;
 
         for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+            let retryDelay: number | undefined;
+
             try {
-                const response = await fetch(`${this.config.baseUrl}/audio/transcriptions`, {
-                    method: 'POST',
-                    headers: {
-                        'Authorization': `Bearer ${this.config.apiKey}`,
-                        ...(this.config.organization && { 'OpenAI-Organization': this.config.organization })
-                    },
-                    body: formData,
-                    signal: AbortSignal.timeout(this.config.timeout)
-                });
-
-                if (!response.ok) {
-                    const errorText = await response.text().catch(() => 'Unknown error');
-                    throw new Error(`HTTP ${response.status}: ${errorText}`);
+                const release = await this.config.rateLimiter?.acquire(0, this.config.signal);
+                const requestSignal = createRequestSignal(this.config.timeout, this.config.signal);
+                try {
+                    const response = await fetch(`${this.config.baseUrl}/audio/transcriptions`, {
+                        method: 'POST',
+                        headers: {
+                            'Authorization': `Bearer ${this.config.apiKey}`,
+                            ...(this.config.organization && { 'OpenAI-Organization': this.config.organization })
+                        },
+                        body: formData,
+                        signal: requestSignal.signal
+                    });
+
+                    this.config.rateLimiter?.updateFromHeaders(response.headers);
+
+                    if (!response.ok) {
+                        retryDelay = getRetryDelay(response.headers);
+                        const errorText = await response.text().catch(() => 'Unknown error');
+                        throw new Error(`HTTP ${response.status}: ${errorText}`);
+                    }
+
+                    return await readBody(response);
+                } finally {
+                    requestSignal.cleanup();
+                    release?.();
                 }
 
-                return response;
-
             } catch (error) {
                 lastError = error instanceof Error ? error : new Error(String(error));
 
-                if (!shouldRetryError(lastError) || attempt === this.config.maxRetries) {
+                // A cancelled run is never retried
+                if (this.config.signal?.aborted || !shouldRetryError(lastError) || attempt === this.config.maxRetries) {
                     throw lastError;
                 }
 
-                await new Promise(resolve => setTimeout(resolve, calculateBackoffDelay(attempt)));
+                if (retryDelay !== undefined) {
+                    this.config.rateLimiter?.pauseFor(retryDelay);
+                }
+                await delay(retryDelay ?? calculateBackoffDelay(attempt), this.config.signal);
             }
         }
 
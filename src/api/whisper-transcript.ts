@@ -0,0 +1,107 @@
+/**
+ * Formatting utilities for timed Whisper transcripts
+ *
+ * Turns verbose_json segments into timestamped paragraphs that link back to the
+ * archived recording, and into SRT/VTT subtitle files.
+ */
+
+import { SubtitleFormat } from '../types';
+import { TranscriptionSegment, WHISPER_TRANSCRIPT } from './whisper-types';
+
+/**
+ * Paragraph of consecutive segments
+ */
+export interface TranscriptParagraph {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Format seconds as mm:ss, or h:mm:ss for recordings longer than an hour
+ */
+export function formatTimestamp(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = total % 60;
+    const pad = (value: number) => value.toString().padStart(2, '0');
+
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${pad(minutes)}:${pad(secs)}`;
+}
+
+/**
+ * Group segments into paragraphs, breaking at pauses and after a maximum paragraph length
+ */
+export function groupSegmentsIntoParagraphs(
+    segments: TranscriptionSegment[],
+    paragraphSeconds: number = WHISPER_TRANSCRIPT.paragraphSeconds,
+    pauseSeconds: number = WHISPER_TRANSCRIPT.pauseSeconds
+): TranscriptParagraph[] {
+    const paragraphs: TranscriptParagraph[] = [];
+
+    for (const segment of segments) {
+        const text = segment.text.trim();
+        if (!text) continue;
+
+        const current = paragraphs[paragraphs.length - 1];
+        const startsNewParagraph = !current ||
+            segment.start - current.end >= pauseSeconds ||
+            segment.start - current.start >= paragraphSeconds;
+
+        if (startsNewParagraph) {
+            paragraphs.push({ start: segment.start, end: segment.end, text });
+        } else {
+            current.end = segment.end;
+            current.text = `${current.text} ${text}`;
+        }
+    }
+
+    return paragraphs;
+}
+
+/**
+ * Format segments as paragraphs prefixed with [mm:ss] links to the audio at that offset
+ */
+export function formatTimestampedTranscript(segments: TranscriptionSegment[], audioPath: string): string {
+    // Markdown link so the bracketed timestamp can be the link text; spaces must be encoded
+    const encodedPath = encodeURI(audioPath);
+
+    return groupSegmentsIntoParagraphs(segments)
+        .map(paragraph => {
+            const offset = Math.floor(paragraph.start);
+            return `[\\[${formatTimestamp(paragraph.start)}\\]](${encodedPath}#t=${offset}) ${paragraph.text}`;
+        })
+        .join('\n\n');
+}
+
+/**
+ * Format seconds as a subtitle cue time (hh:mm:ss,mmm for SRT, hh:mm:ss.mmm for VTT)
+ */
+function formatCueTime(seconds: number, format: SubtitleFormat): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+    const separator = format === 'srt' ? ',' : '.';
+
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Format segments as an SRT or WebVTT subtitle file
+ */
+export function formatSubtitles(segments: TranscriptionSegment[], format: SubtitleFormat): string {
+    const cues = segments
+        .filter(segment => segment.text.trim())
+        .map((segment, index) => {
+            const timing = `${formatCueTime(segment.start, format)} --> ${formatCueTime(segment.end, format)}`;
+            const lines = format === 'srt' ? [String(index + 1), timing] : [timing];
+            return [...lines, segment.text.trim()].join('\n');
+        });
+
+    const body = cues.join('\n\n') + '\n';
+    return format === 'vtt' ? `WEBVTT\n\n${body}` : body;
+}
@@ -2,12 +2,18 @@
  * Type definitions for OpenAI Whisper API client
  */
 
+import { RateLimiter } from './rate-limiter';
+
 export interface WhisperConfig {
     apiKey: string;
     baseUrl?: string;
     organization?: string;
     timeout?: number;
     maxRetries?: number;
+    /** Shared rate limiter of the model config (optional) */
+    rateLimiter?: RateLimiter;
+    /** Cancels requests and retries of the pipeline run (optional) */
+    signal?: AbortSignal;
 }
 
 export interface TranscriptionOptions {
@@ -17,10 +23,25 @@ export interface TranscriptionOptions {
     temperature?: number;
 }
 
+/**
+ * Timed transcript segment returned by the verbose_json response format
+ */
+export interface TranscriptionSegment {
+    /** Start offset in seconds */
+    start: number;
+    /** End offset in seconds */
+    end: number;
+    text: string;
+}
+
 export interface TranscriptionResult {
     text: string;
     duration?: number;
     language?: string;
+    /** Segment timing, only available with the verbose_json response format */
+    segments?: TranscriptionSegment[];
+    /** Length of the transcribed audio in seconds, only available with verbose_json */
+    audioDuration?: number;
     model: string;
     requestId: string;
 }
@@ -37,3 +58,16 @@ export const WHISPER_LIMITS = {
     supportedFormats: ['mp3', 'wav', 'm4a', 'mp4', 'webm', 'ogg'] as const,
     supportedExtensions: ['.mp3', '.wav', '.m4a', '.mp4', '.webm', '.ogg'] as const
 };
+
+export const WHISPER_CHUNKING = {
+    chunkDurationSeconds: 600, // 10 minutes of 16 kHz mono WAV ≈ 19 MB
+    overlapSeconds: 2,
+    sampleRate: 16000,
+    promptTailChars: 500,
+    maxOverlapWords: 30
+};
+
+export const WHISPER_TRANSCRIPT = {
+    paragraphSeconds: 60, // start a new paragraph after about a minute
+    pauseSeconds: 2 // or after a pause in speech
+};
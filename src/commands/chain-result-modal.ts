@@ -0,0 +1,70 @@
+import { App, Modal, Setting } from 'obsidian';
+import { ChainResultNode, ProcessingStatus } from '../types';
+import { collectFinalOutputs } from '../core/pipeline-executor';
+
+const STATUS_ICONS: Partial<Record<ProcessingStatus, string>> = {
+    [ProcessingStatus.COMPLETED]: '✅',
+    [ProcessingStatus.FAILED]: '❌',
+    [ProcessingStatus.CANCELLED]: '⏹'
+};
+
+/**
+ * Shows the final notes of a file run through the whole pipeline and the steps it took
+ */
+export class ChainResultModal extends Modal {
+    private chain: ChainResultNode;
+
+    constructor(app: App, chain: ChainResultNode) {
+        super(app);
+        this.chain = chain;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.addClass('content-pipeline-chain-result');
+
+        new Setting(contentEl)
+            .setName(`Pipeline result: ${this.chain.result.inputFile.name}`)
+            .setHeading();
+
+        const finalOutputs = collectFinalOutputs(this.chain);
+        new Setting(contentEl).setName('Final notes').setHeading();
+        if (finalOutputs.length === 0) {
+            contentEl.createEl('p', { text: 'No step finished the pipeline.' });
+        }
+        const finalList = contentEl.createEl('ul');
+        for (const path of finalOutputs) {
+            const link = finalList.createEl('li').createEl('a', { text: path, href: '#' });
+            link.addEventListener('click', event => {
+                event.preventDefault();
+                this.app.workspace.openLinkText(path, '', false);
+                this.close();
+            });
+        }
+
+        new Setting(contentEl).setName('Steps').setHeading();
+        this.renderNode(contentEl.createEl('ul'), this.chain);
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private renderNode(listEl: HTMLElement, node: ChainResultNode): void {
+        const { result } = node;
+        const itemEl = listEl.createEl('li', {
+            text: `${STATUS_ICONS[result.status] || ''} ${result.stepId}: ${result.inputFile.path}`.trim()
+        });
+
+        if (result.error) {
+            itemEl.createEl('div', { text: result.error });
+        }
+        if (node.waitingOutputs.length > 0) {
+            itemEl.createEl('div', { text: `Left for a later run: ${node.waitingOutputs.join(', ')}` });
+        }
+        if (node.children.length > 0) {
+            const childList = itemEl.createEl('ul');
+            node.children.forEach(child => this.renderNode(childList, child));
+        }
+    }
+}
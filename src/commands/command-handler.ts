@@ -5,9 +5,20 @@
  */
 
 import { App, Notice, TFile } from 'obsidian';
-import { ContentPipelineSettings, ProcessingStatus, ProcessingResult, FileInfo } from '../types';
-import { PipelineExecutor } from '../core/pipeline-executor';
+import { ContentPipelineSettings, PipelineState, ProcessingStatus, ProcessingResult, FileInfo, DryRunMode, PipelineRun, ChainResultNode } from '../types';
+import { PipelineExecutor, flattenChainResults, collectFinalOutputs } from '../core/pipeline-executor';
 import { FileDiscovery } from '../core/file-operations';
+import { UsageLedger } from '../core/usage-ledger';
+import { JobStore } from '../core/job-store';
+import { FailedFileHandler } from '../core/failed-files';
+import { RunUndo } from '../core/run-undo';
+import { ReviewGate } from '../core/review';
+import { ChainResultModal } from './chain-result-modal';
+import { DryRunModal } from './dry-run-modal';
+import { RetryFailedModal } from './retry-failed-modal';
+import { RerouteModal } from './reroute-modal';
+import { UndoRunModal } from './undo-run-modal';
+import { RunControl } from './run-control';
 import {
     validateSettingsConfigurations,
     getSafePipelineConfiguration
@@ -19,10 +30,51 @@ const logger = createLogger('CommandHandler');
 export class CommandHandler {
     private app: App;
     private settings: ContentPipelineSettings;
+    private usageLedger: UsageLedger;
+    private jobStore: JobStore;
+    private failedFiles: FailedFileHandler;
+    private runUndo: RunUndo;
+    private reviewGate: ReviewGate;
+    private runControl: RunControl;
+    private persistState?: () => Promise<void>;
 
-    constructor(app: App, settings: ContentPipelineSettings) {
+    /**
+     * @param state - Usage ledger and job records, saved apart from the settings
+     * @param persistState - Writes the pipeline state to disk after usage or job state has been recorded
+     * @param runControl - Cancels runs in progress; shared across command handler instances
+     * @param jobStore - Job state and run history; shared across command handler instances
+     */
+    constructor(
+        app: App,
+        settings: ContentPipelineSettings,
+        state: PipelineState = {},
+        persistState?: () => Promise<void>,
+        runControl = new RunControl(),
+        jobStore = new JobStore(state, persistState)
+    ) {
         this.app = app;
         this.settings = settings;
+        this.usageLedger = new UsageLedger(settings, state);
+        this.jobStore = jobStore;
+        this.failedFiles = new FailedFileHandler(app, settings, this.jobStore);
+        this.runUndo = new RunUndo(app, this.jobStore);
+        this.reviewGate = new ReviewGate(app, settings, this.jobStore);
+        this.runControl = runControl;
+        this.persistState = persistState;
+    }
+
+    /**
+     * Cancel the pipeline runs in progress
+     *
+     * Files already being processed stop before they are archived; nothing is partially written.
+     */
+    cancelRun(): void {
+        if (this.runControl.cancel()) {
+            new Notice('⏹ Cancelling pipeline run...', 3000);
+            logger.info('Pipeline run cancellation requested');
+        } else {
+            new Notice('ℹ️ No pipeline run in progress', 3000);
+        }
     }
 
     /**
@@ -83,6 +135,9 @@ export class CommandHandler {
             // Create executor and process specific file
             const executor = new PipelineExecutor(this.app, this.settings);
             const result = await executor.executeStep(stepId, fileInfo);
+            await this.jobStore.recordResult(result);
+            await this.failedFiles.handleResult(result);
+            await this.recordUsage([result]);
 
             // Handle result based on status
             this.handleProcessingResult(result, `file: ${file.name}`);
@@ -103,6 +158,99 @@ export class CommandHandler {
         }
     }
 
+    /**
+     * Process a file and every output it turns into through all following steps
+     */
+    async processFileThroughPipeline(file: TFile): Promise<void> {
+        try {
+            logger.info(`Process file through entire pipeline triggered for: ${file.path}`);
+
+            const validationResult = validateSettingsConfigurations(this.settings);
+            if (!validationResult.isValid) {
+                new Notice(`❌ Configuration invalid: ${validationResult.error}. Please check settings.`, 8000);
+                logger.error('Configuration validation failed:', validationResult.error);
+                return;
+            }
+
+            const stepId = await this.findStepForFile(file);
+            if (!stepId) {
+                new Notice(`❌ Could not determine processing step for file: ${file.name}`, 8000);
+                logger.error(`No step found for file: ${file.path}`);
+                return;
+            }
+
+            new Notice(`🔄 Processing ${file.name} through the pipeline...`, 3000);
+
+            const fileInfo = await this.createFileInfo(file);
+            const executor = new PipelineExecutor(this.app, this.settings);
+            // Recorded as a run of its own so it can be undone like a batch
+            const { run } = await this.jobStore.startRun(false);
+            let chain: ChainResultNode;
+            let results: ProcessingResult[];
+            try {
+                const signal = this.runControl.start();
+                try {
+                    chain = await executor.executeChain(stepId, fileInfo, { signal });
+                } finally {
+                    this.runControl.finish(signal);
+                }
+
+                results = flattenChainResults(chain);
+                for (const result of results) {
+                    await this.jobStore.recordResult(result, run.id);
+                    await this.failedFiles.handleResult(result);
+                }
+            } finally {
+                await this.jobStore.finishRun(run.id);
+            }
+            await this.recordUsage(results);
+
+            const failed = results.filter(result => result.status === ProcessingStatus.FAILED).length;
+            const finalOutputs = collectFinalOutputs(chain);
+            new Notice(failed > 0
+                ? `⚠️ ${file.name}: ${results.length - failed} of ${results.length} step(s) succeeded, ${finalOutputs.length} final note(s)`
+                : `✅ ${file.name} → ${finalOutputs.length} final note(s) in ${results.length} step(s)`, 6000);
+            new ChainResultModal(this.app, chain).open();
+
+        } catch (error) {
+            logger.error('Process file through pipeline command failed:', error);
+
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            new Notice(`❌ Failed to process file: ${errorMessage}`, 8000);
+        }
+    }
+
+    /**
+     * Process a file picked up by watch mode with the step that watches its folder
+     */
+    async processWatchedFile(file: TFile, stepId: string): Promise<void> {
+        try {
+            logger.info(`Watch mode processing ${file.path} with step ${stepId}`);
+            new Notice(`🔄 Processing new file: ${file.name}...`, 3000);
+
+            const fileInfo = await this.createFileInfo(file);
+            const executor = new PipelineExecutor(this.app, this.settings);
+            const signal = this.runControl.start();
+            let result: ProcessingResult;
+            try {
+                result = await executor.executeStep(stepId, fileInfo, { signal });
+            } finally {
+                this.runControl.finish(signal);
+            }
+            await this.jobStore.recordResult(result);
+            await this.failedFiles.handleResult(result);
+            await this.recordUsage([result]);
+
+            this.handleProcessingResult(result, `file: ${file.name}`);
+
+        } catch (error) {
+            logger.error('Watch mode processing failed:', error);
+
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            new Notice(`❌ Failed to process ${file.name}: ${errorMessage}`, 8000);
+        }
+    }
+
     /**
      * Process the next available file in the pipeline
      * 
@@ -124,8 +272,15 @@ export class CommandHandler {
             new Notice('🔄 Processing next file...', 3000);
 
             // Create executor and process next file (now just batch processing with limit 1)
-            const executor = new PipelineExecutor(this.app, this.settings);
-            const result = await executor.processNextFile();
+            const executor = new PipelineExecutor(this.app, this.settings, this.jobStore);
+            const signal = this.runControl.start();
+            let result: ProcessingResult;
+            try {
+                result = await executor.processNextFile({ signal });
+            } finally {
+                this.runControl.finish(signal);
+            }
+            await this.recordUsage([result]);
 
             // Handle result based on status
             this.handleProcessingResult(result, 'next available file');
@@ -145,6 +300,47 @@ export class CommandHandler {
         }
     }
 
+    /**
+     * Preview how the next available file would be processed
+     *
+     * 'preview' makes no API calls; 'api' sends the request to show the planned
+     * outputs. Neither archives nor writes anything.
+     */
+    async dryRunNextFile(mode: DryRunMode = 'preview'): Promise<void> {
+        try {
+            logger.info(`Dry run command triggered (${mode})`);
+
+            // Check if both configurations are available and valid using centralized validation functions
+            const validationResult = validateSettingsConfigurations(this.settings);
+            if (!validationResult.isValid) {
+                new Notice(`❌ Configuration invalid: ${validationResult.error}. Please check settings.`, 8000);
+                logger.error('Configuration validation failed:', validationResult.error);
+                return;
+            }
+
+            new Notice(mode === 'api' ? '🔄 Dry run with API call...' : '🔄 Dry run...', 3000);
+
+            const executor = new PipelineExecutor(this.app, this.settings, this.jobStore);
+            const result = await executor.processNextFile({ dryRun: mode });
+
+            // API calls made during a dry run are billed like any other
+            await this.recordUsage([result]);
+
+            if (result.dryRun) {
+                new DryRunModal(this.app, result, result.dryRun).open();
+                return;
+            }
+
+            this.handleProcessingResult(result, 'next available file');
+
+        } catch (error) {
+            logger.error('Dry run command failed:', error);
+
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            new Notice(`❌ Dry run failed: ${errorMessage}`, 8000);
+        }
+    }
+
     /**
      * Process all available files automatically until none remain
      * 
@@ -164,31 +360,53 @@ export class CommandHandler {
             }
 
             // Show processing started notification
-            new Notice('🔄 Processing all files...', 3000);
+            const interruptedRun = this.jobStore.getUnfinishedRun();
+            new Notice(interruptedRun
+                ? `🔄 Resuming interrupted run from ${new Date(interruptedRun.startedAt).toLocaleString()}...`
+                : '🔄 Processing all files...', 3000);
 
             let processedCount = 0;
             let failedCount = 0;
+            let cancelledCount = 0;
+            const results: ProcessingResult[] = [];
 
             // Use the elegant iterator pattern - state management is fully encapsulated
-            const executor = new PipelineExecutor(this.app, this.settings);
+            const executor = new PipelineExecutor(this.app, this.settings, this.jobStore);
+            const signal = this.runControl.start();
             
-            for await (const result of executor.processAllFilesIterator({ 
-                maxIterations: 100, 
-                continueOnError: true 
-            })) {
-                // Handle each result as it's yielded
-                if (result.status === ProcessingStatus.COMPLETED) {
-                    processedCount++;
-                    logger.info(`File ${processedCount} processed: ${result.inputFile.name} → archived to: ${result.archivePath || 'unknown'}`);
-                } else if (result.status === ProcessingStatus.FAILED) {
-                    failedCount++;
-                    logger.warn(`File processing failed: ${result.error} (file: ${result.inputFile?.name || 'unknown'})`);
-                    new Notice(`⚠️ Failed to process: ${result.inputFile?.name || 'unknown file'}`, 5000);
+            try {
+                for await (const result of executor.processAllFilesIterator({
+                    maxIterations: 100,
+                    continueOnError: true,
+                    concurrency: this.settings.concurrency,
+                    signal
+                })) {
+                    results.push(result);
+
+                    // Handle each result as it's yielded
+                    if (result.status === ProcessingStatus.COMPLETED) {
+                        processedCount++;
+                        logger.info(`File ${processedCount} processed: ${result.inputFile.name} → archived to: ${result.archivePath || 'unknown'}`);
+                    } else if (result.status === ProcessingStatus.FAILED) {
+                        failedCount++;
+                        logger.warn(`File processing failed: ${result.error} (file: ${result.inputFile?.name || 'unknown'})`);
+                        new Notice(`⚠️ Failed to process: ${result.inputFile?.name || 'unknown file'}`, 5000);
+                    } else if (result.status === ProcessingStatus.CANCELLED) {
+                        cancelledCount++;
+                    }
                 }
+            } finally {
+                this.runControl.finish(signal);
+                // Keep usage of the files processed so far even if the batch stops early
+                await this.recordUsage(results);
             }
 
             // Show completion notification
-            if (processedCount > 0 || failedCount > 0) {
+            if (signal.aborted) {
+                const cancelledMsg = cancelledCount > 0 ? `, ${cancelledCount} file(s) left unprocessed` : '';
+                new Notice(`⏹ Pipeline run cancelled: ${processedCount} file(s) processed, ${failedCount} failed${cancelledMsg}`, 6000);
+                logger.info(`Process All Files cancelled: ${processedCount} successful, ${failedCount} failed, ${cancelledCount} cancelled`);
+            } else if (processedCount > 0 || failedCount > 0) {
                 const successMsg = processedCount > 0 ? `✅ Successfully processed ${processedCount} file(s)` : '';
                 const failureMsg = failedCount > 0 ? `⚠️ ${failedCount} file(s) failed` : '';
                 const combinedMsg = [successMsg, failureMsg].filter(Boolean).join(', ');
@@ -215,6 +433,201 @@ export class CommandHandler {
         }
     }
 
+    /**
+     * Send the waiting files of every aggregating step, whether or not their triggers are met
+     */
+    async processAggregateSteps(): Promise<void> {
+        try {
+            logger.info('Process Aggregating Steps command triggered');
+
+            const validationResult = validateSettingsConfigurations(this.settings);
+            if (!validationResult.isValid) {
+                new Notice(`❌ Configuration invalid: ${validationResult.error}. Please check settings.`, 8000);
+                logger.error('Configuration validation failed:', validationResult.error);
+                return;
+            }
+
+            new Notice('🔄 Processing aggregating steps...', 3000);
+
+            const executor = new PipelineExecutor(this.app, this.settings, this.jobStore);
+            const signal = this.runControl.start();
+            let results: ProcessingResult[] = [];
+            try {
+                results = await executor.processAggregateStepsNow({ signal });
+            } finally {
+                this.runControl.finish(signal);
+            }
+            await this.recordUsage(results);
+
+            const completed = results.filter(result => result.status === ProcessingStatus.COMPLETED);
+            const failed = results.filter(result => result.status === ProcessingStatus.FAILED);
+            const inputCount = completed.reduce((count, result) => count + (result.inputFiles?.length || 1), 0);
+
+            if (results.length === 0) {
+                new Notice('ℹ️ No files waiting in aggregating steps', 6000);
+            } else if (failed.length > 0) {
+                new Notice(`⚠️ ${failed.length} batch(es) failed: ${failed[0].error || 'Unknown error'}`, 8000);
+            } else if (completed.length > 0) {
+                new Notice(`✅ Processed ${inputCount} file(s) in ${completed.length} batch(es)`, 6000);
+            }
+            logger.info(`Process Aggregating Steps completed: ${completed.length} batches (${inputCount} files), ${failed.length} failed`);
+
+        } catch (error) {
+            logger.error('Process Aggregating Steps command failed:', error);
+
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            new Notice(`❌ Failed to process aggregating steps: ${errorMessage}`, 8000);
+        }
+    }
+
+    /**
+     * Pick failed files and queue them again for the next run
+     *
+     * Quarantined files are moved back to their input folder.
+     */
+    retryFailedFiles(): void {
+        const jobs = this.failedFiles.getFailedJobs();
+        if (jobs.length === 0) {
+            new Notice('ℹ️ No failed files to retry', 6000);
+            return;
+        }
+
+        new RetryFailedModal(this.app, jobs, async inputPaths => {
+            const retried = await this.failedFiles.retry(inputPaths);
+            const failedCount = inputPaths.length - retried.length;
+            new Notice(failedCount > 0
+                ? `⚠️ Queued ${retried.length} file(s) again, ${failedCount} could not be moved back`
+                : `✅ Queued ${retried.length} file(s) again. Run "Process All Files" to process them.`, 6000);
+        }).open();
+    }
+
+    /**
+     * Undo the most recent run that has not been undone yet
+     */
+    async undoLastRun(): Promise<void> {
+        const [run] = this.runUndo.getUndoableRuns();
+        if (!run) {
+            new Notice('ℹ️ No run to undo', 6000);
+            return;
+        }
+
+        await this.undoRun(run);
+    }
+
+    /**
+     * Pick a run to undo
+     */
+    pickRunToUndo(): void {
+        const runs = this.runUndo.getUndoableRuns();
+        if (runs.length === 0) {
+            new Notice('ℹ️ No run to undo', 6000);
+            return;
+        }
+
+        new UndoRunModal(this.app, runs, run => {
+            const fileCount = this.jobStore.getHistory({ runId: run.id, status: ProcessingStatus.COMPLETED }).length;
+            return `${new Date(run.startedAt).toLocaleString()} · ${fileCount} file(s)`;
+        }, run => this.undoRun(run)).open();
+    }
+
+    /**
+     * Move the archived inputs of a run back and remove its outputs, unless an output was edited since
+     */
+    private async undoRun(run: PipelineRun): Promise<void> {
+        if (this.runControl.isRunning()) {
+            new Notice('⚠️ Wait for the pipeline run in progress to finish before undoing a run', 6000);
+            return;
+        }
+
+        try {
+            logger.info(`Undo run triggered: ${run.id}`);
+            const result = await this.runUndo.undoRun(run.id);
+
+            if (!result.undone) {
+                const more = result.conflicts.length > 1 ? ` (and ${result.conflicts.length - 1} more)` : '';
+                new Notice(`⚠️ Run not undone: ${result.conflicts[0]}${more}`, 8000);
+                return;
+            }
+
+            new Notice(`↩️ Run undone: ${result.restoredInputs.length} input file(s) restored, ${result.revertedOutputs.length} output(s) removed or restored`, 6000);
+
+        } catch (error) {
+            logger.error('Undo run failed:', error);
+
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            new Notice(`❌ Failed to undo run: ${errorMessage}`, 8000);
+        }
+    }
+
+    /**
+     * Release a note held for review to its next step
+     */
+    async approveNote(file: TFile): Promise<void> {
+        await this.review(file, async () => {
+            await this.reviewGate.approve(file);
+            new Notice(`✅ Approved: ${file.name}`, 4000);
+        });
+    }
+
+    /**
+     * Keep a note held for review from being processed
+     */
+    async rejectNote(file: TFile): Promise<void> {
+        await this.review(file, async () => {
+            await this.reviewGate.reject(file);
+            new Notice(`🚫 Rejected: ${file.name}`, 4000);
+        });
+    }
+
+    /**
+     * Pick another next step for a note held for review
+     */
+    async rerouteNote(file: TFile): Promise<void> {
+        await this.review(file, async () => {
+            const held = await this.reviewGate.getHeldOutput(file);
+            const nextSteps = held ? this.reviewGate.getRerouteOptions(held) : [];
+            if (!held || held.status !== 'pending-review' || nextSteps.length === 0) {
+                new Notice(`ℹ️ ${file.name} cannot be re-routed: it is not waiting for review or its step has no other next step`, 6000);
+                return;
+            }
+
+            new RerouteModal(this.app, nextSteps, nextStep => this.review(file, async () => {
+                const path = await this.reviewGate.reroute(file, nextStep);
+                new Notice(`↪️ Re-routed to ${nextStep}: ${path}`, 6000);
+            })).open();
+        });
+    }
+
+    /**
+     * Run a review action, reporting failures like a file that is not waiting for review
+     */
+    private async review(file: TFile, action: () => Promise<void>): Promise<void> {
+        try {
+            await action();
+        } catch (error) {
+            logger.error(`Review of ${file.path} failed:`, error);
+
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            new Notice(`❌ ${errorMessage}`, 6000);
+        }
+    }
+
+    /**
+     * Add the API usage of processing results to the usage ledger and persist it
+     */
+    private async recordUsage(results: ProcessingResult[]): Promise<void> {
+        const recorded = results.flatMap(result => this.usageLedger.record(result));
+        if (recorded.length === 0 || !this.persistState) {
+            return;
+        }
+
+        try {
+            await this.persistState();
+        } catch (error) {
+            logger.warn('Failed to persist usage ledger:', error);
+        }
+    }
+
     /**
      * Handle processing results consistently across commands
      */
@@ -243,6 +656,11 @@ export class CommandHandler {
                 }
                 break;
 
+            case ProcessingStatus.CANCELLED:
+                new Notice(`⏹ Processing cancelled: ${result.inputFile.name} was left unchanged`, 6000);
+                logger.info(`File processing cancelled: ${result.inputFile.path}`);
+                break;
+
             case ProcessingStatus.FAILED:
                 new Notice(`❌ Processing failed: ${result.error || 'Unknown error'}`, 8000);
                 logger.error('File processing failed:', {
@@ -0,0 +1,70 @@
+import { App, Modal, Setting } from 'obsidian';
+import { DryRunPreview, ProcessingResult } from '../types';
+
+/**
+ * Shows what a dry run found: prompt, archive path, output directories and planned outputs
+ */
+export class DryRunModal extends Modal {
+    private result: ProcessingResult;
+    private dryRun: DryRunPreview;
+
+    constructor(app: App, result: ProcessingResult, dryRun: DryRunPreview) {
+        super(app);
+        this.result = result;
+        this.dryRun = dryRun;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.addClass('content-pipeline-dry-run');
+
+        new Setting(contentEl)
+            .setName(`Dry run: ${this.result.inputFile.name}`)
+            .setDesc(this.dryRun.mode === 'api'
+                ? 'The API was called, but nothing was archived or written.'
+                : 'No API call was made and nothing was archived or written.')
+            .setHeading();
+
+        this.renderRow('Step', this.result.stepId);
+        this.renderRow('Model', this.dryRun.modelConfigId
+            ? `${this.dryRun.model} (${this.dryRun.modelConfigId})`
+            : this.dryRun.model);
+        this.renderRow('Archive path', this.dryRun.archivePath);
+        if (this.dryRun.matchedRule) {
+            const { index, rule } = this.dryRun.matchedRule;
+            this.renderRow('Routing rule', `Rule ${index + 1} routes to ${rule.nextStep}${rule.skipModel ? ' without a model call' : ''}`);
+        }
+
+        new Setting(contentEl).setName('Output directories').setHeading();
+        for (const [routingKey, directory] of Object.entries(this.dryRun.outputDirectories)) {
+            this.renderRow(routingKey, directory);
+        }
+
+        if (this.dryRun.systemPrompt) {
+            new Setting(contentEl).setName('System prompt').setHeading();
+            contentEl.createEl('pre', { text: this.dryRun.systemPrompt });
+        }
+
+        new Setting(contentEl).setName('Prompt').setHeading();
+        contentEl.createEl('pre', { text: this.dryRun.prompt || '(empty)' });
+
+        for (const output of this.dryRun.plannedOutputs || []) {
+            new Setting(contentEl)
+                .setName(`Output: ${output.path}`)
+                .setDesc([
+                    output.nextStep && `Next step: ${output.nextStep}`,
+                    output.writeMode && `Merged into the existing file (${output.writeMode})`
+                ].filter(Boolean).join(' · '))
+                .setHeading();
+            contentEl.createEl('pre', { text: output.content });
+        }
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private renderRow(name: string, value: string): void {
+        new Setting(this.contentEl).setName(name).setDesc(value);
+    }
+}
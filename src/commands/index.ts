@@ -3,3 +3,4 @@
  */
 
 export { CommandHandler } from './command-handler';
+export { RunControl } from './run-control';
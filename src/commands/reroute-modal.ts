@@ -0,0 +1,28 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+
+/**
+ * Lets the user pick the next step a held output is re-routed to
+ */
+export class RerouteModal extends FuzzySuggestModal<string> {
+    private nextSteps: string[];
+    private onChoose: (nextStep: string) => void;
+
+    constructor(app: App, nextSteps: string[], onChoose: (nextStep: string) => void) {
+        super(app);
+        this.nextSteps = nextSteps;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Re-route to…');
+    }
+
+    getItems(): string[] {
+        return this.nextSteps;
+    }
+
+    getItemText(nextStep: string): string {
+        return nextStep;
+    }
+
+    onChooseItem(nextStep: string): void {
+        this.onChoose(nextStep);
+    }
+}
@@ -0,0 +1,64 @@
+import { App, Modal, Setting } from 'obsidian';
+import { PipelineJob } from '../types';
+
+/**
+ * Lists failed files with their last error and lets the user pick the ones to queue again
+ */
+export class RetryFailedModal extends Modal {
+    private jobs: PipelineJob[];
+    private onRetry: (inputPaths: string[]) => Promise<void>;
+    private selected: Set<string>;
+
+    constructor(app: App, jobs: PipelineJob[], onRetry: (inputPaths: string[]) => Promise<void>) {
+        super(app);
+        this.jobs = jobs;
+        this.onRetry = onRetry;
+        this.selected = new Set(jobs.map(job => job.inputPath));
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.addClass('content-pipeline-retry-failed');
+
+        new Setting(contentEl)
+            .setName('Retry failed files')
+            .setDesc('Selected files are queued for the next run. Quarantined files are moved back to their input folder.')
+            .setHeading();
+
+        for (const job of this.jobs) {
+            new Setting(contentEl)
+                .setName(job.inputPath)
+                .setDesc([
+                    `${job.stepId} · ${job.failures || 1} failed attempt(s)`,
+                    job.quarantinePath && `Quarantined at ${job.quarantinePath}`,
+                    job.error
+                ].filter(Boolean).join(' · '))
+                .addToggle(toggle => {
+                    toggle
+                        .setValue(true)
+                        .onChange(value => {
+                            if (value) {
+                                this.selected.add(job.inputPath);
+                            } else {
+                                this.selected.delete(job.inputPath);
+                            }
+                        });
+                });
+        }
+
+        new Setting(contentEl)
+            .addButton(button => {
+                button
+                    .setButtonText('Retry selected')
+                    .setCta()
+                    .onClick(async () => {
+                        this.close();
+                        await this.onRetry([...this.selected]);
+                    });
+            });
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,84 @@
+/**
+ * Cancellation of pipeline runs in progress
+ */
+
+import { ContentPipelineError } from '../errors';
+
+type RunStateListener = (running: boolean) => void;
+
+/**
+ * Keeps an abort controller per run in progress, so a single command or
+ * status bar click cancels all of them while runs started afterwards are
+ * not affected.
+ *
+ * Owned by the plugin rather than the command handler, which is recreated
+ * whenever the settings are saved.
+ */
+export class RunControl {
+    private controllers = new Map<AbortSignal, AbortController>();
+    private listeners: RunStateListener[] = [];
+
+    /**
+     * Register a run and get the signal that cancels it
+     */
+    start(): AbortSignal {
+        const controller = new AbortController();
+        this.controllers.set(controller.signal, controller);
+        this.notify();
+        return controller.signal;
+    }
+
+    /**
+     * Unregister a run once it has ended, cancelled or not
+     *
+     * @param signal - Signal the run got from start()
+     */
+    finish(signal: AbortSignal): void {
+        this.controllers.delete(signal);
+        this.notify();
+    }
+
+    /**
+     * Cancel the runs in progress
+     *
+     * @returns false if no run is in progress
+     */
+    cancel(): boolean {
+        if (this.controllers.size === 0) {
+            return false;
+        }
+
+        this.controllers.forEach(controller => {
+            if (!controller.signal.aborted) {
+                controller.abort(new ContentPipelineError('Pipeline run cancelled'));
+            }
+        });
+        this.notify();
+        return true;
+    }
+
+    isRunning(): boolean {
+        return this.controllers.size > 0;
+    }
+
+    isCancelling(): boolean {
+        return [...this.controllers.keys()].some(signal => signal.aborted);
+    }
+
+    /**
+     * Get notified when a run starts, ends or is cancelled
+     *
+     * @returns Function that removes the listener
+     */
+    onChange(listener: RunStateListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(registered => registered !== listener);
+        };
+    }
+
+    private notify(): void {
+        const running = this.isRunning();
+        this.listeners.forEach(listener => listener(running));
+    }
+}
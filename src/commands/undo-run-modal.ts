@@ -0,0 +1,34 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { PipelineRun } from '../types';
+
+/**
+ * Lets the user pick a run to undo, newest first
+ */
+export class UndoRunModal extends FuzzySuggestModal<PipelineRun> {
+    private runs: PipelineRun[];
+    private describeRun: (run: PipelineRun) => string;
+    private onChoose: (run: PipelineRun) => void;
+
+    /**
+     * @param describeRun - Label of a run in the list
+     */
+    constructor(app: App, runs: PipelineRun[], describeRun: (run: PipelineRun) => string, onChoose: (run: PipelineRun) => void) {
+        super(app);
+        this.runs = runs;
+        this.describeRun = describeRun;
+        this.onChoose = onChoose;
+        this.setPlaceholder('Pick a run to undo');
+    }
+
+    getItems(): PipelineRun[] {
+        return this.runs;
+    }
+
+    getItemText(run: PipelineRun): string {
+        return this.describeRun(run);
+    }
+
+    onChooseItem(run: PipelineRun): void {
+        this.onChoose(run);
+    }
+}
@@ -0,0 +1,185 @@
+/**
+ * Failed File Handling
+ *
+ * Writes an error note for every input file that failed (step, model, error,
+ * time and attempts) and moves files that failed too often in a row to the
+ * quarantine folder, so batch runs stop spending API calls on them. Failed
+ * files are queued again with retry, which moves quarantined files back to
+ * their input folder.
+ */
+
+import { App } from 'obsidian';
+import { FileOperations } from '../file-operations';
+import { JobStore } from '../job-store';
+import { hashContent } from '../step-commit';
+import { normalizeDirectoryPath } from '../path-operations/normalize-directory-path';
+import { extractFilename } from '../path-operations/extract-filename';
+import {
+    ContentPipelineSettings,
+    FileInfo,
+    PipelineJob,
+    ProcessingResult,
+    ProcessingStatus
+} from '../../types';
+import { createLogger } from '../../logger';
+
+const logger = createLogger('FailedFileHandler');
+
+const DEFAULT_MAX_FAILURES = 3;
+const DEFAULT_QUARANTINE_FOLDER = 'inbox/quarantine/';
+
+export class FailedFileHandler {
+    private app: App;
+    private settings: ContentPipelineSettings;
+    private jobStore: JobStore;
+    private fileOps: FileOperations;
+
+    constructor(app: App, settings: ContentPipelineSettings, jobStore: JobStore) {
+        this.app = app;
+        this.settings = settings;
+        this.jobStore = jobStore;
+        this.fileOps = new FileOperations(app);
+    }
+
+    /**
+     * Write error notes and quarantine the inputs of a failed result, or remove
+     * the error notes of inputs that were processed after all
+     *
+     * Must be called after the result was recorded in the job store.
+     */
+    async handleResult(result: ProcessingResult): Promise<void> {
+        const inputFiles = result.inputFiles || [result.inputFile];
+
+        for (const inputFile of inputFiles) {
+            try {
+                if (result.status === ProcessingStatus.FAILED) {
+                    await this.handleFailure(inputFile, result);
+                } else if (result.status === ProcessingStatus.COMPLETED) {
+                    await this.removeErrorNote(inputFile.path);
+                }
+            } catch (error) {
+                logger.warn(`Failed to handle result of ${inputFile.path}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Failed jobs whose input file is still in the vault, most recently failed first
+     */
+    getFailedJobs(): PipelineJob[] {
+        return this.jobStore.getJobs(ProcessingStatus.FAILED)
+            .filter(job => this.fileOps.fileExists(job.quarantinePath || job.inputPath));
+    }
+
+    /**
+     * Queue failed files again, moving quarantined files back to their input folder
+     *
+     * @returns Input paths that were queued again
+     */
+    async retry(inputPaths: string[]): Promise<string[]> {
+        const retried: string[] = [];
+
+        for (const inputPath of inputPaths) {
+            const job = this.jobStore.getJob(inputPath);
+            if (!job) {
+                continue;
+            }
+
+            try {
+                if (job.quarantinePath) {
+                    await this.restoreQuarantinedFile(job.quarantinePath, inputPath);
+                }
+                await this.removeErrorNote(inputPath);
+                await this.jobStore.requeue(inputPath);
+                retried.push(inputPath);
+                logger.info(`Failed file queued again: ${inputPath}`);
+            } catch (error) {
+                logger.error(`Failed to queue ${inputPath} again:`, error);
+            }
+        }
+
+        return retried;
+    }
+
+    /**
+     * Path of the error note of an input file
+     *
+     * The hash of the input path keeps inputs with the same name in different
+     * folders from sharing a note.
+     */
+    getErrorNotePath(inputPath: string): string {
+        return `${this.getQuarantineFolder()}${extractFilename(inputPath)}.${hashContent(inputPath)}.error.md`;
+    }
+
+    private async handleFailure(inputFile: FileInfo, result: ProcessingResult): Promise<void> {
+        const job = this.jobStore.getJob(inputFile.path);
+        const failures = job?.failures || 1;
+        const maxFailures = this.settings.maxFailures ?? DEFAULT_MAX_FAILURES;
+        let location = inputFile.path;
+
+        if (maxFailures > 0 && failures >= maxFailures && this.fileOps.fileExists(inputFile.path)) {
+            const archiveResult = await this.fileOps.archiveFile(inputFile.path, this.getQuarantineFolder());
+            if (archiveResult.success) {
+                location = archiveResult.archivePath;
+                await this.jobStore.markQuarantined(inputFile.path, location);
+                logger.warn(`Quarantined ${inputFile.path} after ${failures} failed attempts → ${location}`);
+            } else {
+                logger.error(`Failed to quarantine ${inputFile.path}: ${archiveResult.error}`);
+            }
+        }
+
+        await this.fileOps.writeFile(
+            this.getErrorNotePath(inputFile.path),
+            this.formatErrorNote(inputFile, result, location, job),
+            { createDirectories: true, overwrite: true }
+        );
+    }
+
+    private formatErrorNote(inputFile: FileInfo, result: ProcessingResult, location: string, job?: PipelineJob): string {
+        const configured = this.settings.parsedPipelineConfig?.[result.stepId]?.modelConfig;
+        const model = result.usage?.modelConfig || result.failedModelConfig || (Array.isArray(configured) ? configured.join(' → ') : configured);
+        const lines = [
+            '---',
+            `source: "[[${location}]]"`,
+            `inputPath: "${inputFile.path}"`,
+            `step: "${result.stepId}"`,
+            ...(model ? [`model: "${model}"`] : []),
+            `failed: ${(result.endTime || new Date()).toISOString()}`,
+            `attempts: ${job?.attempts || 1}`,
+            `failures: ${job?.failures || 1}`,
+            `quarantined: ${location !== inputFile.path}`,
+            '---',
+            '',
+            `# ${inputFile.name} failed`,
+            '',
+            result.error || 'Unknown error'
+        ];
+        return lines.join('\n') + '\n';
+    }
+
+    private async restoreQuarantinedFile(quarantinePath: string, inputPath: string): Promise<void> {
+        if (this.fileOps.fileExists(inputPath)) {
+            throw new Error(`A file already exists at ${inputPath}`);
+        }
+
+        const file = this.app.vault.getAbstractFileByPath(quarantinePath);
+        if (!file) {
+            throw new Error(`Quarantined file not found: ${quarantinePath}`);
+        }
+
+        await this.fileOps.ensureDirectoryForFile(inputPath);
+        await this.app.vault.rename(file, inputPath);
+        logger.debug(`Quarantined file restored: ${quarantinePath} → ${inputPath}`);
+    }
+
+    private async removeErrorNote(inputPath: string): Promise<void> {
+        const notePath = this.getErrorNotePath(inputPath);
+        if (this.fileOps.fileExists(notePath)) {
+            await this.fileOps.deleteFile(notePath);
+        }
+    }
+
+    private getQuarantineFolder(): string {
+        return normalizeDirectoryPath(this.settings.quarantineFolder || DEFAULT_QUARANTINE_FOLDER);
+    }
+}
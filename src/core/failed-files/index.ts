@@ -0,0 +1,6 @@
+/**
+ * Failed Files Module
+ *
+ * Error notes, quarantine and retry of input files that failed to process.
+ */
+export { FailedFileHandler } from './failed-file-handler';
@@ -6,8 +6,8 @@ import { App, TFile, Vault } from 'obsidian';
 import { normalizeDirectoryPath } from '../path-operations/normalize-directory-path';
 import { extractFilename } from '../path-operations/extract-filename';
 import { buildArchivePath } from '../path-operations/build-archive-path';
-import { extractDirectoryPath } from '../path-operations/extract-directory-path';
-import { FilenameResolver } from '../FilenameResolver';
+import { resolveCollision } from '../path-operations/resolve-collision';
+import { CollisionPolicy } from '../../types';
 import { ArchiveResult } from './types';
 import { DirectoryManager } from './directory-manager';
 import { createLogger } from '../../logger';
@@ -25,10 +25,13 @@ export class FileArchiver {
 
     /**
      * Move a file to archive location using simplified directory-only system
+     *
+     * @param onCollision - What happens if the archive already holds a file of the same name
      */
     async archiveFile(
         sourceFilePath: string,
-        archiveDirectory: string
+        archiveDirectory: string,
+        onCollision: CollisionPolicy = 'suffix'
     ): Promise<ArchiveResult> {
         try {
             // Validate archive directory
@@ -58,12 +61,14 @@ export class FileArchiver {
             // Ensure archive directory exists
             await this.directoryManager.ensureDirectory(normalizedArchiveDir);
 
-            // Extract source filename and build archive path
-            const sourceFilename = extractFilename(sourceFilePath);
-            const baseArchivePath = buildArchivePath(normalizedArchiveDir, sourceFilename);
+            const finalArchivePath = await this.getArchivePath(sourceFilePath, normalizedArchiveDir, onCollision);
+            const baseArchivePath = buildArchivePath(normalizedArchiveDir, extractFilename(sourceFilePath));
 
-            // Generate unique archive filename if needed
-            const finalArchivePath = await this.generateUniqueFilename(baseArchivePath);
+            // The vault cannot move a file onto an existing one
+            const replacedFile = onCollision === 'overwrite' ? this.vault.getAbstractFileByPath(finalArchivePath) : null;
+            if (replacedFile instanceof TFile) {
+                await this.vault.delete(replacedFile);
+            }
 
             // Move the file
             await this.vault.rename(sourceFile, finalArchivePath);
@@ -73,11 +78,15 @@ export class FileArchiver {
 
             logger.info(`File archived: ${sourceFilePath} → ${finalArchivePath}`);
 
+            const collided = finalArchivePath !== baseArchivePath || replacedFile instanceof TFile;
             return {
                 success: true,
                 originalPath: sourceFilePath,
                 archivePath: finalArchivePath,
-                archivedFile
+                archivedFile,
+                ...(collided && {
+                    collision: { kind: 'archive', path: baseArchivePath, resolvedPath: finalArchivePath, policy: onCollision }
+                })
             };
 
         } catch (error) {
@@ -94,23 +103,16 @@ export class FileArchiver {
     }
 
     /**
-     * Generate a unique filename to avoid conflicts using simplified path operations
+     * Path the file would be archived to, without moving it
+     *
+     * @throws ContentPipelineError if the path is taken and the policy is 'fail'
      */
-    private async generateUniqueFilename(basePath: string): Promise<string> {
-        let counter = 0;
-        let testPath = basePath;
-
-        while (this.fileExists(testPath)) {
-            counter++;
-            const dir = extractDirectoryPath(basePath);
-            const filename = extractFilename(basePath);
-            const basename = FilenameResolver.getBasename(filename);
-            const extension = filename.includes('.') ? '.' + filename.split('.').pop() : '';
-            const uniqueName = `${basename}-${counter}${extension}`;
-            testPath = dir ? `${dir}${uniqueName}` : uniqueName;
-        }
+    async getArchivePath(sourceFilePath: string, archiveDirectory: string, onCollision: CollisionPolicy = 'suffix'): Promise<string> {
+        // Extract source filename and build archive path
+        const sourceFilename = extractFilename(sourceFilePath);
+        const baseArchivePath = buildArchivePath(normalizeDirectoryPath(archiveDirectory), sourceFilename);
 
-        return testPath;
+        return resolveCollision(baseArchivePath, onCollision, path => this.fileExists(path));
     }
 
     /**
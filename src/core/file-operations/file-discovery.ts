@@ -7,7 +7,9 @@
 import { App, TFile, TFolder, Vault, normalizePath } from 'obsidian';
 import { resolveInputDirectory } from '../path-operations/resolve-input-directory';
 import { matchesInputPattern } from '../path-operations/match-input-pattern';
-import { FileInfo, PipelineConfiguration, isRoutingAwareOutput } from '../../types';
+import { getReviewStatus } from '../review/review-status';
+import { matchesInputFilter, needsContent, normalizeExtension } from '../input-filter';
+import { FileInfo, PipelineConfiguration, PipelineStep, isRoutingAwareOutput } from '../../types';
 import { FileDiscoveryOptions, FileDiscoveryResult } from './types';
 import { FileInfoProvider } from './file-info-provider';
 import { ContentPipelineError } from '../../errors';
@@ -15,6 +17,19 @@ import { createLogger } from '../../logger';
 
 const logger = createLogger('FileDiscovery');
 
+/** Extensions of the files pipeline steps pick up from their input folders */
+export const PROCESSABLE_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.mp4', '.md', '.txt'];
+
+/**
+ * Extensions a step picks up: those of its input filter if it sets any, otherwise the processable ones
+ */
+export function getInputExtensions(step: PipelineStep): string[] {
+    return step.inputFilter?.extensions?.map(normalizeExtension) ?? PROCESSABLE_EXTENSIONS;
+}
+
+/** Files sent in one request of an aggregating step unless its trigger sets maxFiles */
+const DEFAULT_AGGREGATE_MAX_FILES = 50;
+
 export class FileDiscovery {
     private vault: Vault;
     private fileInfoProvider: FileInfoProvider;
@@ -112,6 +127,10 @@ export class FileDiscovery {
 
     /**
      * Find the next available file for processing across all pipeline steps
+     *
+     * Aggregating steps are skipped; their files are collected by findReadyAggregation.
+     * Files the step's input filter rejects are skipped, and so are notes held for
+     * review until they are approved.
      */
     async findNextAvailableFile(
         config: PipelineConfiguration,
@@ -132,21 +151,22 @@ export class FileDiscovery {
 
         for (const stepId of stepsToCheck) {
             const step = config[stepId];
+            if (step.aggregate) {
+                continue;
+            }
 
             try {
-                const files = await this.discoverFiles(step.input, {
-                    extensions: ['.mp3', '.wav', '.m4a', '.mp4', '.md', '.txt'],
-                    sortBy: 'name',
-                    sortOrder: 'asc',
-                    limit: 1
-                });
-
-                const availableFiles = files.filter(file =>
-                    !excludeFiles.has(file.path)
-                );
+                const options: FileDiscoveryOptions = { extensions: getInputExtensions(step), sortBy: 'name', sortOrder: 'asc' };
+                // Excluded files (claimed or failed earlier in the batch) may still be in the folder
+                const files = await this.discoverFiles(step.input, { ...options, limit: excludeFiles.size + 1 });
+                let file = await this.findAvailable(files, step, excludeFiles);
+
+                // Filtered-out and held notes can fill the rest of the first page
+                if (!file && files.length > excludeFiles.size) {
+                    file = await this.findAvailable(await this.discoverFiles(step.input, { ...options, limit: 0 }), step, excludeFiles);
+                }
 
-                if (availableFiles.length > 0) {
-                    const file = availableFiles[0];
+                if (file) {
                     logger.debug(`Found file for processing: ${file.path} in step: ${stepId}`);
                     return { file, stepId };
                 }
@@ -160,6 +180,59 @@ export class FileDiscovery {
         return null;
     }
 
+    /**
+     * Find an aggregating step whose batch is ready to be sent
+     *
+     * A batch is ready once it holds minFiles files or its oldest file has waited
+     * windowMinutes; with force, any waiting file makes it ready. Files are
+     * batched oldest first, up to maxFiles per request.
+     */
+    async findReadyAggregation(
+        config: PipelineConfiguration,
+        excludeFiles: Set<string>,
+        force = false
+    ): Promise<FileDiscoveryResult | null> {
+        for (const [stepId, step] of Object.entries(config)) {
+            if (!step.aggregate) {
+                continue;
+            }
+
+            try {
+                const { minFiles, windowMinutes, maxFiles = DEFAULT_AGGREGATE_MAX_FILES } = step.aggregate;
+                const files: FileInfo[] = [];
+                for (const file of await this.discoverFiles(step.input, {
+                    extensions: getInputExtensions(step),
+                    sortBy: 'modified',
+                    sortOrder: 'asc',
+                    limit: 0
+                })) {
+                    if (await this.isAvailable(file, step, excludeFiles)) {
+                        files.push(file);
+                    }
+                }
+
+                if (files.length === 0) {
+                    continue;
+                }
+
+                const waitedMinutes = (Date.now() - files[0].lastModified.getTime()) / 60000;
+                const ready = force ||
+                    (minFiles !== undefined && files.length >= minFiles) ||
+                    (windowMinutes !== undefined && waitedMinutes >= windowMinutes);
+
+                if (ready) {
+                    const batch = files.slice(0, maxFiles);
+                    logger.debug(`Aggregation ready for step ${stepId}: ${batch.length} of ${files.length} files`);
+                    return { file: batch[0], stepId, files: batch };
+                }
+            } catch (error) {
+                logger.warn(`Error searching for files in step ${stepId}:`, error);
+            }
+        }
+
+        return null;
+    }
+
     /**
      * Check if a specific file can be processed by any step in the pipeline
      */
@@ -172,6 +245,8 @@ export class FileDiscovery {
 
     /**
      * Find which step can process a specific file
+     *
+     * The first step whose input folder holds the file and whose input filter it passes.
      */
     async findStepForFile(file: TFile, config: PipelineConfiguration): Promise<string | null> {
         const allSteps = Object.keys(config);
@@ -181,7 +256,8 @@ export class FileDiscovery {
 
             try {
                 // Use fast path matching
-                if (this.isFileInInputDirectory(file.path, step.input)) {
+                if (this.isFileInInputDirectory(file.path, step.input) &&
+                    (!step.inputFilter || await this.passesInputFilter(this.getFileInfo(file), step))) {
                     logger.debug(`File ${file.path} matches step ${stepId} input pattern: ${step.input}`);
                     return stepId;
                 }
@@ -197,6 +273,23 @@ export class FileDiscovery {
 
 
 
+    /**
+     * Whether a note waits for review or was rejected; such notes are never picked up
+     */
+    async isHeldForReview(path: string): Promise<boolean> {
+        if (!path.toLowerCase().endsWith('.md')) {
+            return false;
+        }
+
+        try {
+            const file = this.vault.getAbstractFileByPath(path);
+            return file instanceof TFile && getReviewStatus(await this.vault.read(file)) !== undefined;
+        } catch (error) {
+            logger.debug(`Could not read review status of ${path}:`, error);
+            return false;
+        }
+    }
+
     /**
      * Find entry points in the pipeline (steps not referenced by others via routing-aware output)
      */
@@ -225,6 +318,54 @@ export class FileDiscovery {
     // PRIVATE HELPER METHODS
     // =====================================
 
+    /**
+     * First file a step can take
+     */
+    private async findAvailable(files: FileInfo[], step: PipelineStep, excludeFiles: Set<string>): Promise<FileInfo | undefined> {
+        for (const file of files) {
+            if (await this.isAvailable(file, step, excludeFiles)) {
+                return file;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Whether a file is neither excluded, filtered out by the step nor held for review
+     */
+    private async isAvailable(file: FileInfo, step: PipelineStep, excludeFiles: Set<string>): Promise<boolean> {
+        return !excludeFiles.has(file.path) &&
+            await this.passesInputFilter(file, step) &&
+            !await this.isHeldForReview(file.path);
+    }
+
+    /**
+     * Check a file in a step's input folder against the step's input filter
+     */
+    private async passesInputFilter(file: FileInfo, step: PipelineStep): Promise<boolean> {
+        if (!step.inputFilter) {
+            return true;
+        }
+
+        const inputDirectory = resolveInputDirectory(step.input);
+        let content: string | undefined;
+        if (needsContent(step.inputFilter) && file.extension.toLowerCase() === '.md') {
+            const abstractFile = this.vault.getAbstractFileByPath(file.path);
+            content = abstractFile instanceof TFile ? await this.vault.read(abstractFile) : undefined;
+        }
+
+        const passes = matchesInputFilter(step.inputFilter, {
+            relativePath: file.path.startsWith(inputDirectory) ? file.path.slice(inputDirectory.length) : file.path,
+            extension: file.extension,
+            size: file.size,
+            content
+        });
+        if (!passes) {
+            logger.debug(`File ${file.path} is filtered out by the input filter of ${step.input}`);
+        }
+        return passes;
+    }
+
     /**
      * Check if a file path is within a step's input directory pattern (synchronous)
      */
@@ -4,7 +4,7 @@
 
 import { App, TFolder, TFile } from 'obsidian';
 import { resolveInputDirectory } from '../path-operations/resolve-input-directory';
-import { FileInfo, PipelineConfiguration, RoutingAwareOutput } from '../../types';
+import { CollisionPolicy, FileInfo, PipelineConfiguration, RoutingAwareOutput } from '../../types';
 import {
     FileOperationOptions,
     FileOperationResult,
@@ -116,8 +116,12 @@ export class FileOperations {
     }
 
     // Archive operations
-    async archiveFile(sourceFilePath: string, archiveDirectory: string): Promise<ArchiveResult> {
-        return this.fileArchiver.archiveFile(sourceFilePath, archiveDirectory);
+    async archiveFile(sourceFilePath: string, archiveDirectory: string, onCollision?: CollisionPolicy): Promise<ArchiveResult> {
+        return this.fileArchiver.archiveFile(sourceFilePath, archiveDirectory, onCollision);
+    }
+
+    async getArchivePath(sourceFilePath: string, archiveDirectory: string, onCollision?: CollisionPolicy): Promise<string> {
+        return this.fileArchiver.getArchivePath(sourceFilePath, archiveDirectory, onCollision);
     }
 
     // Discovery operations
@@ -3,5 +3,5 @@
  */
 
 export { FileOperations } from './file-operations';
-export { FileDiscovery } from './file-discovery';
+export { FileDiscovery, PROCESSABLE_EXTENSIONS, getInputExtensions } from './file-discovery';
 export { FileUtils } from './file-utils';
@@ -3,7 +3,7 @@
  */
 
 import { TFile } from 'obsidian';
-import { FileInfo } from '../../types';
+import { FileCollision, FileInfo } from '../../types';
 
 /**
  * Options for file operations
@@ -59,6 +59,8 @@ export interface FileDiscoveryOptions {
 export interface FileDiscoveryResult {
     file: FileInfo;
     stepId: string;
+    /** Batch of an aggregating step, oldest first (file is the first of them) */
+    files?: FileInfo[];
 }
 
 /**
@@ -73,6 +75,8 @@ export interface ArchiveResult {
     archivePath: string;
     /** Archive file object */
     archivedFile?: TFile;
+    /** Set if a file of the same name was already archived */
+    collision?: FileCollision;
     /** Error if operation failed */
     error?: string;
 }
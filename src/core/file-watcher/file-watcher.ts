@@ -0,0 +1,214 @@
+/**
+ * Watch Mode
+ *
+ * Listens to files created in or moved into the input folders of steps with
+ * `watch: true` and queues them for processing. Synced files (e.g. recordings
+ * dropped into the vault by a phone) often arrive in several writes, so a file
+ * is only processed after a quiet period and once its size has stopped changing.
+ * Files are processed one at a time; the global pause setting drops new events.
+ */
+
+import { App, TAbstractFile, TFile } from 'obsidian';
+import { FileDiscovery, getInputExtensions } from '../file-operations';
+import { getSafePipelineConfiguration } from '../../validation';
+import { ContentPipelineSettings } from '../../types';
+import { createLogger } from '../../logger';
+
+const logger = createLogger('FileWatcher');
+
+export interface FileWatcherOptions {
+    /** Quiet period after the last event for a file (ms) */
+    debounceMs?: number;
+    /** Interval between file size checks (ms) */
+    stabilityIntervalMs?: number;
+    /** Size checks before a file that keeps changing is given up on */
+    maxStabilityChecks?: number;
+}
+
+/**
+ * Processes a watched file with the step whose input folder it appeared in
+ */
+export type ProcessWatchedFile = (file: TFile, stepId: string) => Promise<void>;
+
+const DEFAULT_OPTIONS: Required<FileWatcherOptions> = {
+    debounceMs: 2000,
+    stabilityIntervalMs: 1000,
+    maxStabilityChecks: 120
+};
+
+export class FileWatcher {
+    private app: App;
+    private settings: ContentPipelineSettings;
+    private processFile: ProcessWatchedFile;
+    private options: Required<FileWatcherOptions>;
+    private fileDiscovery: FileDiscovery;
+    private timers = new Map<string, ReturnType<typeof setTimeout>>();
+    /** Paths waiting for their debounce, size check or turn in the queue, or being processed */
+    private pending = new Set<string>();
+    private queue: Array<{ path: string; stepId: string }> = [];
+    private draining = false;
+    private stopped = false;
+
+    constructor(app: App, settings: ContentPipelineSettings, processFile: ProcessWatchedFile, options: FileWatcherOptions = {}) {
+        this.app = app;
+        this.settings = settings;
+        this.processFile = processFile;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        this.fileDiscovery = new FileDiscovery(app);
+    }
+
+    /**
+     * Handle a vault `create` or `rename` event
+     */
+    handleFileEvent(file: TAbstractFile): void {
+        if (this.stopped || this.settings.watchPaused || !(file instanceof TFile)) {
+            return;
+        }
+
+        const config = getSafePipelineConfiguration(this.settings);
+        const extension = `.${file.extension.toLowerCase()}`;
+        if (!config || !Object.values(config).some(step => step.watch && getInputExtensions(step).includes(extension))) {
+            return;
+        }
+
+        // Every further event for the path restarts its quiet period
+        const timer = this.timers.get(file.path);
+        if (timer) {
+            clearTimeout(timer);
+        } else if (this.pending.has(file.path)) {
+            return;
+        }
+
+        this.pending.add(file.path);
+        this.timers.set(file.path, setTimeout(() => {
+            this.timers.delete(file.path);
+            void this.enqueueWhenStable(file.path);
+        }, this.options.debounceMs));
+    }
+
+    /**
+     * Stop watching and drop the files not processed yet
+     */
+    stop(): void {
+        this.stopped = true;
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.queue = [];
+        this.pending.clear();
+    }
+
+    /**
+     * Number of files waiting or being processed
+     */
+    getPendingCount(): number {
+        return this.pending.size;
+    }
+
+    private async enqueueWhenStable(path: string): Promise<void> {
+        try {
+            const stepId = await this.getWatchedStep(path);
+            if (!stepId) {
+                this.pending.delete(path);
+                return;
+            }
+
+            if (!await this.waitForStableSize(path)) {
+                this.pending.delete(path);
+                return;
+            }
+
+            if (this.stopped) {
+                return;
+            }
+
+            logger.info(`Watch mode queued ${path} for step ${stepId}`);
+            this.queue.push({ path, stepId });
+            void this.drainQueue();
+        } catch (error) {
+            logger.warn(`Watch mode could not queue ${path}:`, error);
+            this.pending.delete(path);
+        }
+    }
+
+    /**
+     * Process queued files one after another
+     */
+    private async drainQueue(): Promise<void> {
+        if (this.draining) {
+            return;
+        }
+        this.draining = true;
+
+        try {
+            let next: { path: string; stepId: string } | undefined;
+            while (!this.stopped && (next = this.queue.shift())) {
+                const { path, stepId } = next;
+                try {
+                    // The file may have been processed, moved or deleted while it was waiting
+                    const file = this.app.vault.getAbstractFileByPath(path);
+                    if (this.settings.watchPaused || !(file instanceof TFile) || await this.getWatchedStep(path) !== stepId) {
+                        logger.debug(`Watch mode skipped ${path}`);
+                        continue;
+                    }
+
+                    await this.processFile(file, stepId);
+                } catch (error) {
+                    logger.error(`Watch mode failed to process ${path}:`, error);
+                } finally {
+                    this.pending.delete(path);
+                }
+            }
+        } finally {
+            this.draining = false;
+        }
+    }
+
+    /**
+     * Step with watch mode enabled whose input folder contains the file
+     */
+    private async getWatchedStep(path: string): Promise<string | null> {
+        const config = getSafePipelineConfiguration(this.settings);
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!config || !(file instanceof TFile)) {
+            return null;
+        }
+
+        const stepId = await this.fileDiscovery.findStepForFile(file, config);
+        if (!stepId || !config[stepId].watch || !getInputExtensions(config[stepId]).includes(`.${file.extension.toLowerCase()}`)) {
+            return null;
+        }
+
+        // Notes held for review are processed by a batch once they are approved
+        return await this.fileDiscovery.isHeldForReview(path) ? null : stepId;
+    }
+
+    /**
+     * Wait until two consecutive size checks agree
+     *
+     * @returns false if the file disappeared or kept changing
+     */
+    private async waitForStableSize(path: string): Promise<boolean> {
+        let previousSize: number | undefined;
+
+        for (let check = 0; check < this.options.maxStabilityChecks; check++) {
+            const stat = await this.app.vault.adapter.stat(path);
+            if (!stat) {
+                logger.debug(`Watched file disappeared: ${path}`);
+                return false;
+            }
+
+            if (stat.size === previousSize) {
+                return true;
+            }
+
+            previousSize = stat.size;
+            await new Promise(resolve => setTimeout(resolve, this.options.stabilityIntervalMs));
+            if (this.stopped) {
+                return false;
+            }
+        }
+
+        logger.warn(`Watch mode gave up on ${path}: its size kept changing`);
+        return false;
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * File Watcher Module
+ *
+ * Queues files that appear in the input folders of watched steps for processing.
+ */
+export { FileWatcher } from './file-watcher';
+export type { FileWatcherOptions, ProcessWatchedFile } from './file-watcher';
@@ -0,0 +1,7 @@
+/**
+ * Input Filter Module
+ *
+ * Per-step filters on the files of an input folder.
+ */
+export { matchesInputFilter, needsContent, normalizeExtension, parseFrontmatterPredicate } from './input-filter';
+export type { InputFilterInput, FrontmatterPredicate } from './input-filter';
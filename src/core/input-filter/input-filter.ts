@@ -0,0 +1,112 @@
+/**
+ * Input Filters
+ *
+ * Narrow the files a step takes from its input folder by name, extension,
+ * size or frontmatter, so unrelated files can be kept in an inbox folder
+ * without the pipeline picking them up. Discovery, watch mode, chains and
+ * the file menu all check the same filter.
+ */
+
+import { matchesGlob } from '../path-operations/match-glob';
+import { readFrontmatterValue } from '../write-modes';
+import { InputFilter } from '../../types';
+
+/**
+ * Facts about a file in a step's input folder the filter is tested against
+ */
+export interface InputFilterInput {
+    /** Path relative to the step's input folder */
+    relativePath: string;
+    /** File extension (including dot) */
+    extension: string;
+    /** File size in bytes */
+    size: number;
+    /** Note content; files without it have no frontmatter */
+    content?: string;
+}
+
+/**
+ * Parsed frontmatter predicate
+ */
+export interface FrontmatterPredicate {
+    key: string;
+    operator: '=' | '!=' | 'set' | 'not-set';
+    value?: string;
+}
+
+const PREDICATE_PATTERN = /^(!?)\s*([^\s=!]+)\s*(?:(!?=)\s*(.*))?$/;
+
+/**
+ * Parse "key = value", "key != value", "key" or "!key"; undefined if the predicate is malformed
+ */
+export function parseFrontmatterPredicate(predicate: string): FrontmatterPredicate | undefined {
+    const match = PREDICATE_PATTERN.exec(predicate.trim());
+    if (!match) {
+        return undefined;
+    }
+
+    const [, negated, key, operator, value] = match;
+    if (!operator) {
+        return { key, operator: negated ? 'not-set' : 'set' };
+    }
+    if (negated || !value) {
+        return undefined;
+    }
+    return { key, operator: operator as '=' | '!=', value: value.trim().replace(/^(["'])(.*)\1$/, '$2') };
+}
+
+/**
+ * Whether the filter reads the note content, so discovery only reads notes when it has to
+ */
+export function needsContent(filter: InputFilter | undefined): boolean {
+    return Boolean(filter?.frontmatter?.length);
+}
+
+/**
+ * Check every filter given; filters that are not set always hold
+ */
+export function matchesInputFilter(filter: InputFilter | undefined, input: InputFilterInput): boolean {
+    if (!filter) {
+        return true;
+    }
+
+    if (filter.extensions && !filter.extensions.map(normalizeExtension).includes(normalizeExtension(input.extension))) return false;
+
+    if (filter.minSize !== undefined && input.size < filter.minSize) return false;
+    if (filter.maxSize !== undefined && input.size > filter.maxSize) return false;
+
+    if (filter.include && !filter.include.some(glob => matchesGlob(input.relativePath, glob))) return false;
+    if (filter.exclude?.some(glob => matchesGlob(input.relativePath, glob))) return false;
+
+    if (filter.frontmatter) {
+        const content = input.content || '';
+        const matches = filter.frontmatter.every(predicate => {
+            const parsed = parseFrontmatterPredicate(predicate);
+            return parsed !== undefined && matchesPredicate(parsed, readFrontmatterValue(content, parsed.key));
+        });
+        if (!matches) return false;
+    }
+
+    return true;
+}
+
+function matchesPredicate(predicate: FrontmatterPredicate, actual: string | undefined): boolean {
+    switch (predicate.operator) {
+        case 'set':
+            return actual !== undefined;
+        case 'not-set':
+            return actual === undefined;
+        case '=':
+            return actual === predicate.value;
+        case '!=':
+            return actual !== predicate.value;
+    }
+}
+
+/**
+ * Lower-case extension with its dot
+ */
+export function normalizeExtension(extension: string): string {
+    const lower = extension.toLowerCase();
+    return lower.startsWith('.') ? lower : `.${lower}`;
+}
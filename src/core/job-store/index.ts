@@ -0,0 +1,7 @@
+/**
+ * Job Store Module
+ *
+ * Persists the processing state of input files and the run history.
+ */
+export { JobStore } from './job-store';
+export type { HistoryQuery, RunStart } from './job-store';
@@ -0,0 +1,414 @@
+/**
+ * Persistent Job Store
+ *
+ * Records the processing state of every input file (step, status, attempts,
+ * error, outputs, archive path) and a history of processing results in the
+ * pipeline state, so batch runs can be inspected and resumed after a restart.
+ * Run boundaries and user actions are persisted immediately, per-file changes
+ * once they settle. A run that was left without an end time before the plugin
+ * loaded was interrupted and is resumed by the next batch.
+ */
+
+import {
+    FileInfo,
+    JobStoreData,
+    PipelineJob,
+    PipelineRun,
+    PipelineState,
+    ProcessingResult,
+    ProcessingStatus,
+    ReviewDecision,
+    RunHistoryEntry
+} from '../../types';
+import { createLogger } from '../../logger';
+
+const logger = createLogger('JobStore');
+
+/**
+ * Maximum number of records kept; the oldest are dropped first
+ */
+const LIMITS = {
+    jobs: 2000,
+    runs: 100,
+    history: 5000,
+    reviews: 1000
+};
+
+/**
+ * Previous contents of merged files kept for undo: at most this many, each at
+ * most this long, so the pipeline state does not grow with every note appended to
+ */
+const SNAPSHOT_LIMITS = {
+    count: 200,
+    length: 100_000
+};
+
+/**
+ * Per-file changes made within this delay are persisted in one write
+ */
+const PERSIST_DELAY_MS = 500;
+
+/**
+ * Filter for run history queries; all given fields must match
+ */
+export interface HistoryQuery {
+    runId?: string;
+    stepId?: string;
+    status?: ProcessingStatus;
+    inputPath?: string;
+    /** Maximum number of entries (newest first) */
+    limit?: number;
+}
+
+export interface RunStart {
+    run: PipelineRun;
+    /** Whether an interrupted run is continued */
+    resumed: boolean;
+}
+
+export class JobStore {
+    private state: PipelineState;
+    private persistState?: () => Promise<void>;
+    /** Runs started or resumed since the plugin loaded */
+    private liveRunIds = new Set<string>();
+    private persistTimer: ReturnType<typeof setTimeout> | null = null;
+    private hasUnsavedChanges = false;
+    private writing: Promise<void> = Promise.resolve();
+
+    /**
+     * @param persistState - Writes the pipeline state to disk after changes
+     */
+    constructor(state: PipelineState, persistState?: () => Promise<void>) {
+        this.state = state;
+        this.persistState = persistState;
+    }
+
+    /**
+     * Run that was interrupted before the plugin loaded, if any
+     *
+     * Runs of this session without an end time are still in progress and are not returned.
+     */
+    getUnfinishedRun(): PipelineRun | undefined {
+        return this.getData().runs.find(run => !run.finishedAt && !this.liveRunIds.has(run.id));
+    }
+
+    /**
+     * Start a run, continuing an interrupted run if there is one
+     *
+     * Jobs left in PROCESSING by the interrupted run are reset to PENDING;
+     * their input files are picked up again if they were not archived yet.
+     *
+     * @param resume - Whether to continue an interrupted run; runs that only process given files leave it to the next batch
+     */
+    async startRun(resume = true): Promise<RunStart> {
+        const data = this.getData();
+        const unfinished = resume ? this.getUnfinishedRun() : undefined;
+
+        if (unfinished) {
+            const interrupted = Object.values(data.jobs).filter(job =>
+                job.runId === unfinished.id && job.status === ProcessingStatus.PROCESSING
+            );
+            interrupted.forEach(job => this.updateJob(job.inputPath, { status: ProcessingStatus.PENDING }));
+
+            this.liveRunIds.add(unfinished.id);
+            logger.info(`Resuming interrupted run ${unfinished.id}`, { interruptedJobs: interrupted.length });
+            await this.persist(true);
+            return { run: unfinished, resumed: true };
+        }
+
+        const run: PipelineRun = {
+            id: `run-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            startedAt: new Date().toISOString()
+        };
+        data.runs.push(run);
+        this.trim(data.runs, LIMITS.runs);
+        this.liveRunIds.add(run.id);
+
+        logger.debug(`Run started: ${run.id}`);
+        await this.persist(true);
+        return { run, resumed: false };
+    }
+
+    async finishRun(runId: string): Promise<void> {
+        this.liveRunIds.delete(runId);
+        const run = this.getData().runs.find(candidate => candidate.id === runId);
+        if (!run) {
+            return;
+        }
+
+        run.finishedAt = new Date().toISOString();
+        logger.debug(`Run finished: ${runId}`);
+        await this.persist(true);
+    }
+
+    /**
+     * Input files that failed in a run and are not retried within it
+     */
+    getFailedPaths(runId: string): string[] {
+        return Object.values(this.getData().jobs)
+            .filter(job => job.runId === runId && job.status === ProcessingStatus.FAILED)
+            .map(job => job.inputPath);
+    }
+
+    /**
+     * Record that processing of a file has started
+     */
+    async markProcessing(stepId: string, file: FileInfo, runId?: string): Promise<PipelineJob> {
+        const previous = this.getJob(file.path);
+        const job = this.updateJob(file.path, {
+            stepId,
+            status: ProcessingStatus.PROCESSING,
+            attempts: (previous?.attempts || 0) + 1,
+            error: undefined,
+            runId
+        });
+
+        await this.persist();
+        return job;
+    }
+
+    /**
+     * Record a processing result on its job and in the run history
+     *
+     * Results of aggregating steps are recorded on the job of every input file.
+     *
+     * @returns History entries, one per input file
+     */
+    async recordResult(result: ProcessingResult, runId?: string): Promise<RunHistoryEntry[]> {
+        const data = this.getData();
+        const inputFiles = result.inputFiles || [result.inputFile];
+
+        const entries = inputFiles.map((inputFile, index): RunHistoryEntry => {
+            const archivePath = result.archivePaths?.[index] ?? result.archivePath;
+            const previous = this.getJob(inputFile.path);
+            const failures = result.status === ProcessingStatus.FAILED ? (previous?.failures || 0) + 1
+                : result.status === ProcessingStatus.COMPLETED ? 0
+                    : previous?.failures;
+
+            this.updateJob(inputFile.path, {
+                stepId: result.stepId,
+                status: result.status,
+                // Results recorded without markProcessing (single files) still count as an attempt
+                attempts: previous?.status === ProcessingStatus.PROCESSING ? previous.attempts : (previous?.attempts || 0) + 1,
+                failures,
+                error: result.error,
+                outputFiles: result.outputFiles,
+                archivePath,
+                runId
+            });
+
+            return {
+                runId,
+                inputPath: inputFile.path,
+                stepId: result.stepId,
+                status: result.status,
+                outputFiles: result.outputFiles,
+                archivePath,
+                nextStep: result.nextStep,
+                error: result.error,
+                ...(index === 0 && result.outputOperations?.length && {
+                    outputOperations: result.outputOperations.map(({ previousContent, ...operation }) => ({
+                        ...operation,
+                        ...(previousContent !== undefined && previousContent.length <= SNAPSHOT_LIMITS.length && { previousContent })
+                    }))
+                }),
+                startTime: result.startTime.toISOString(),
+                endTime: result.endTime?.toISOString()
+            };
+        });
+        data.history.push(...entries);
+        this.trim(data.history, LIMITS.history);
+        this.trimSnapshots(data.history);
+
+        await this.persist();
+        return entries;
+    }
+
+    /**
+     * Record that a failed input file was moved to the quarantine folder
+     */
+    async markQuarantined(inputPath: string, quarantinePath: string): Promise<void> {
+        this.updateJob(inputPath, { quarantinePath });
+        await this.persist();
+    }
+
+    /**
+     * Queue a failed input file again: its failures are reset and batch runs no longer skip it
+     */
+    async requeue(inputPath: string): Promise<void> {
+        this.updateJob(inputPath, {
+            status: ProcessingStatus.PENDING,
+            failures: 0,
+            error: undefined,
+            quarantinePath: undefined
+        });
+        await this.persist(true);
+    }
+
+    /**
+     * Record that a run was undone; its restored input files are pending again
+     */
+    async markRunUndone(runId: string, restoredInputPaths: string[]): Promise<void> {
+        const run = this.getData().runs.find(candidate => candidate.id === runId);
+        if (run) {
+            run.undoneAt = new Date().toISOString();
+        }
+        restoredInputPaths.forEach(inputPath => this.updateJob(inputPath, {
+            status: ProcessingStatus.PENDING,
+            outputFiles: [],
+            archivePath: undefined
+        }));
+
+        logger.info(`Run undone: ${runId}`, { restoredInputs: restoredInputPaths.length });
+        await this.persist(true);
+    }
+
+    /**
+     * Record a decision on an output held for review
+     */
+    async recordReview(decision: ReviewDecision): Promise<void> {
+        const data = this.getData();
+        data.reviews = data.reviews || [];
+        data.reviews.push(decision);
+        this.trim(data.reviews, LIMITS.reviews);
+
+        logger.debug(`Review recorded: ${decision.path} ${decision.decision}`);
+        await this.persist(true);
+    }
+
+    /**
+     * Review decisions, newest first
+     */
+    getReviews(): ReviewDecision[] {
+        return [...(this.getData().reviews || [])].reverse();
+    }
+
+    getJob(inputPath: string): PipelineJob | undefined {
+        return this.getData().jobs[inputPath];
+    }
+
+    /**
+     * Jobs, most recently updated first
+     */
+    getJobs(status?: ProcessingStatus): PipelineJob[] {
+        return Object.values(this.getData().jobs)
+            .filter(job => !status || job.status === status)
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    /**
+     * Run history entries matching the query, newest first
+     */
+    getHistory(query: HistoryQuery = {}): RunHistoryEntry[] {
+        const entries = this.getData().history
+            .filter(entry =>
+                (!query.runId || entry.runId === query.runId) &&
+                (!query.stepId || entry.stepId === query.stepId) &&
+                (!query.status || entry.status === query.status) &&
+                (!query.inputPath || entry.inputPath === query.inputPath)
+            )
+            .reverse();
+
+        return query.limit ? entries.slice(0, query.limit) : entries;
+    }
+
+    getRuns(): PipelineRun[] {
+        return [...this.getData().runs].reverse();
+    }
+
+    async clear(): Promise<void> {
+        this.state.jobStore = { jobs: {}, runs: [], history: [], reviews: [] };
+        await this.persist(true);
+    }
+
+    /**
+     * Write changes that are waiting to be persisted, e.g. before the plugin unloads
+     */
+    async flush(): Promise<void> {
+        if (this.persistTimer) {
+            clearTimeout(this.persistTimer);
+            this.persistTimer = null;
+        }
+        if (!this.hasUnsavedChanges) {
+            return this.writing;
+        }
+
+        this.hasUnsavedChanges = false;
+        this.writing = this.writing.then(() => this.write());
+        return this.writing;
+    }
+
+    private getData(): JobStoreData {
+        if (!this.state.jobStore) {
+            this.state.jobStore = { jobs: {}, runs: [], history: [] };
+        }
+        return this.state.jobStore;
+    }
+
+    private updateJob(inputPath: string, changes: Partial<PipelineJob>): PipelineJob {
+        const data = this.getData();
+        const current: PipelineJob = data.jobs[inputPath] || {
+            inputPath,
+            stepId: '',
+            status: ProcessingStatus.PENDING,
+            attempts: 0,
+            outputFiles: [],
+            updatedAt: ''
+        };
+        const job: PipelineJob = { ...current, ...changes, updatedAt: new Date().toISOString() };
+        data.jobs[inputPath] = job;
+
+        const paths = Object.keys(data.jobs);
+        if (paths.length > LIMITS.jobs) {
+            this.getJobs()
+                .slice(LIMITS.jobs)
+                .forEach(stale => delete data.jobs[stale.inputPath]);
+        }
+
+        return job;
+    }
+
+    private trim<T>(records: T[], limit: number): void {
+        if (records.length > limit) {
+            records.splice(0, records.length - limit);
+        }
+    }
+
+    /**
+     * Drop the previous contents of all but the newest snapshots; their hashes are kept
+     */
+    private trimSnapshots(history: RunHistoryEntry[]): void {
+        let kept = 0;
+        for (let index = history.length - 1; index >= 0; index--) {
+            for (const operation of history[index].outputOperations || []) {
+                if (operation.previousContent !== undefined && ++kept > SNAPSHOT_LIMITS.count) {
+                    delete operation.previousContent;
+                }
+            }
+        }
+    }
+
+    /**
+     * Persist the changes, right away or together with the changes of the next moments
+     */
+    private async persist(immediate = false): Promise<void> {
+        if (!this.persistState) {
+            return;
+        }
+
+        this.hasUnsavedChanges = true;
+        if (immediate) {
+            await this.flush();
+        } else if (!this.persistTimer) {
+            this.persistTimer = setTimeout(() => this.flush(), PERSIST_DELAY_MS);
+        }
+    }
+
+    private async write(): Promise<void> {
+        try {
+            await this.persistState?.();
+        } catch (error) {
+            logger.warn('Failed to persist job store:', error);
+        }
+    }
+}
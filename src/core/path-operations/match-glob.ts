@@ -0,0 +1,31 @@
+/**
+ * Check if a file path matches a glob
+ *
+ * "*" matches within a folder and "**" across folders. Globs without "/" are
+ * matched against the file name, so "*.md" matches notes at any depth.
+ */
+
+export function matchesGlob(filePath: string, glob: string): boolean {
+    const normalizedPath = filePath.replace(/\\/g, '/');
+    const target = glob.includes('/') ? normalizedPath : normalizedPath.split('/').pop() || '';
+    return globToRegExp(glob).test(target);
+}
+
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        if (glob.startsWith('**/', i)) {
+            // Also matches no folder at all
+            source += '(?:.*/)?';
+            i += 2;
+        } else if (glob.startsWith('**', i)) {
+            source += '.*';
+            i += 1;
+        } else if (glob[i] === '*') {
+            source += '[^/]*';
+        } else {
+            source += glob[i].replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,63 @@
+/**
+ * Resolve the path to write to when a file already exists at the target path
+ */
+
+import { extractDirectoryPath } from './extract-directory-path';
+import { extractFilename } from './extract-filename';
+import { CollisionPolicy, FileCollision } from '../../types';
+import { ContentPipelineError } from '../../errors';
+
+/**
+ * @param exists - Whether a file exists at a path
+ * @returns The target path if it is free or may be overwritten, otherwise a free path next to it
+ * @throws ContentPipelineError if the target path exists and the policy is 'fail'
+ */
+export function resolveCollision(
+    targetPath: string,
+    policy: CollisionPolicy,
+    exists: (path: string) => boolean,
+    now: Date = new Date()
+): string {
+    if (policy === 'overwrite' || !exists(targetPath)) {
+        return targetPath;
+    }
+
+    if (policy === 'fail') {
+        throw new ContentPipelineError(`File already exists: ${targetPath}`);
+    }
+
+    const directory = extractDirectoryPath(targetPath);
+    const filename = extractFilename(targetPath);
+    const dot = filename.lastIndexOf('.');
+    const basename = dot > 0 ? filename.substring(0, dot) : filename;
+    const extension = dot > 0 ? filename.substring(dot) : '';
+    const withSuffix = (suffix: string) => `${directory}${basename}-${suffix}${extension}`;
+
+    // 20240115-103000; a numeric suffix follows if files collide within the same second
+    const stamp = policy === 'timestamp'
+        ? now.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-')
+        : undefined;
+    let candidate = stamp ? withSuffix(stamp) : withSuffix('1');
+
+    for (let counter = stamp ? 1 : 2; exists(candidate); counter++) {
+        candidate = withSuffix(stamp ? `${stamp}-${counter}` : String(counter));
+    }
+
+    return candidate;
+}
+
+/**
+ * Resolve the path of a new output file, recording a collision if the target path was taken
+ */
+export function resolveOutputCollision(
+    targetPath: string,
+    policy: CollisionPolicy,
+    exists: (path: string) => boolean,
+    collisions?: FileCollision[]
+): string {
+    const outputPath = resolveCollision(targetPath, policy, exists);
+    if (exists(targetPath)) {
+        collisions?.push({ kind: 'output', path: targetPath, resolvedPath: outputPath, policy });
+    }
+    return outputPath;
+}
@@ -0,0 +1,22 @@
+/**
+ * List the candidate output directories of a step output configuration
+ */
+
+import { normalizeDirectoryPath } from './normalize-directory-path';
+import { RoutingAwareOutput } from '../../types';
+
+/**
+ * Map routing keys to normalized directory paths
+ * A single output directory is listed under the 'default' key
+ */
+export function resolveOutputDirectories(output: string | RoutingAwareOutput): Record<string, string> {
+    if (typeof output === 'string') {
+        return { default: normalizeDirectoryPath(output) };
+    }
+
+    const directories: Record<string, string> = {};
+    for (const [routingKey, directoryPath] of Object.entries(output)) {
+        directories[routingKey] = normalizeDirectoryPath(directoryPath);
+    }
+    return directories;
+}
@@ -1,87 +1,110 @@
 /**
  * Chain Execution Logic
+ *
+ * Runs a file through every step of the pipeline at once. Each output is
+ * processed by the step whose input folder it was written to, the same step
+ * a batch run would pick it up with, until no step is left.
  */
 
 import { App, TFile } from 'obsidian';
-import { FileOperations } from '../../file-operations';
+import { FileOperations, FileDiscovery } from '../../file-operations';
 import { StepExecutor } from './StepExecutor';
+import { getValidatedPipelineConfiguration } from '../../../validation';
 import {
+    ChainResultNode,
+    ContentPipelineSettings,
     FileInfo,
     ProcessingResult,
-    ProcessingStatus
+    ProcessingStatus,
+    StepExecutionOptions
 } from '../../../types';
 import { createLogger } from '../../../logger';
 
 const logger = createLogger('ChainExecutor');
 
+/** Steps a file can pass through before the chain is considered to loop */
+const MAX_CHAIN_DEPTH = 20;
+
 export class ChainExecutor {
     private app: App;
+    private settings: ContentPipelineSettings;
     private fileOps: FileOperations;
+    private fileDiscovery: FileDiscovery;
     private stepExecutor: StepExecutor;
 
-    constructor(app: App, stepExecutor: StepExecutor) {
+    constructor(app: App, settings: ContentPipelineSettings, stepExecutor: StepExecutor) {
         this.app = app;
+        this.settings = settings;
         this.fileOps = new FileOperations(app);
+        this.fileDiscovery = new FileDiscovery(app);
         this.stepExecutor = stepExecutor;
     }
 
+    /**
+     * Process a file with a step, then every output with its next step
+     *
+     * A failed step ends its branch only; the other outputs are still processed.
+     * Outputs that are not processable (like subtitle sidecars) are final, and
+     * outputs held for review wait for their approval.
+     */
     async execute(
         startStepId: string,
-        inputFile: FileInfo
-    ): Promise<ProcessingResult> {
-        let currentStepId = startStepId;
-        let currentFile = inputFile;
-        const allResults: ProcessingResult[] = [];
-
-        try {
-            logger.info(`Starting chain execution: ${startStepId} for ${inputFile.path}`);
+        inputFile: FileInfo,
+        options: StepExecutionOptions = {}
+    ): Promise<ChainResultNode> {
+        logger.info(`Starting chain execution: ${startStepId} for ${inputFile.path}`);
+        return await this.executeNode(startStepId, inputFile, options, 1);
+    }
 
-            while (currentStepId) {
-                // Execute current step (StepExecutor handles configuration resolution internally)
-                const result = await this.stepExecutor.execute(currentStepId, currentFile);
-                allResults.push(result);
+    private async executeNode(
+        stepId: string,
+        inputFile: FileInfo,
+        options: StepExecutionOptions,
+        depth: number
+    ): Promise<ChainResultNode> {
+        const result = await this.stepExecutor.execute(stepId, inputFile, options);
+        const node: ChainResultNode = { result, children: [], finalOutputs: [], waitingOutputs: [] };
 
-                // Check if step failed
-                if (result.status === ProcessingStatus.FAILED) {
-                    logger.error(`Chain execution stopped due to failed step: ${currentStepId}`);
-                    return result;
-                }
+        if (result.status !== ProcessingStatus.COMPLETED) {
+            logger.warn(`Chain branch stopped at step ${stepId}: ${result.status}`);
+            return node;
+        }
 
-                // Check if there's a next step
-                if (!result.nextStep || result.outputFiles.length === 0) {
-                    logger.info(`Chain execution complete at step: ${currentStepId}`);
-                    return result;
-                }
+        const config = getValidatedPipelineConfiguration(this.settings);
+        for (const outputPath of result.outputFiles) {
+            const outputFile = this.app.vault.getAbstractFileByPath(outputPath);
+            const outputInfo = outputFile instanceof TFile ? this.fileOps.getFileInfo(outputFile) : null;
+            const nextStepId = outputFile instanceof TFile && outputInfo?.isProcessable
+                ? await this.fileDiscovery.findStepForFile(outputFile, config)
+                : null;
 
-                // Prepare for next step - use first output file as input for next step
-                const outputFilePath = result.outputFiles[0];
-                try {
-                    const outputFile = this.app.vault.getAbstractFileByPath(outputFilePath);
-                    if (!outputFile) {
-                        throw new Error(`Output file not found: ${outputFilePath}`);
-                    }
-                    if (!(outputFile instanceof TFile)) {
-                        throw new Error(`Output path is not a file: ${outputFilePath}`);
-                    }
-                    currentFile = this.fileOps.getFileInfo(outputFile);
-                    currentStepId = result.nextStep;
-                    logger.debug(`Chaining to next step: ${currentStepId} with file: ${outputFilePath}`);
-                } catch (error) {
-                    logger.error(`Failed to prepare next step input: ${outputFilePath}`, error);
-                    return {
-                        ...result,
-                        status: ProcessingStatus.FAILED,
-                        error: `Failed to chain to next step: ${error instanceof Error ? error.message : String(error)}`
-                    };
-                }
+            if (!nextStepId || !outputInfo) {
+                node.finalOutputs.push(outputPath);
+            } else if (config[nextStepId].aggregate || options.signal?.aborted || await this.fileDiscovery.isHeldForReview(outputPath)) {
+                node.waitingOutputs.push(outputPath);
+            } else if (depth >= MAX_CHAIN_DEPTH) {
+                logger.warn(`Chain stopped after ${MAX_CHAIN_DEPTH} steps at ${outputPath}`);
+                node.waitingOutputs.push(outputPath);
+            } else {
+                logger.debug(`Chaining to next step: ${nextStepId} with file: ${outputPath}`);
+                node.children.push(await this.executeNode(nextStepId, outputInfo, options, depth + 1));
             }
-
-            // This should never be reached, but return the last result as fallback
-            return allResults[allResults.length - 1];
-
-        } catch (error) {
-            logger.error('Chain execution failed:', error);
-            throw error;
         }
+
+        return node;
     }
 }
+
+/**
+ * Results of a chain in the order they were processed
+ */
+export function flattenChainResults(node: ChainResultNode): ProcessingResult[] {
+    return [node.result, ...node.children.flatMap(flattenChainResults)];
+}
+
+/**
+ * Final outputs of a chain across all its branches
+ */
+export function collectFinalOutputs(node: ChainResultNode): string[] {
+    return [...node.finalOutputs, ...node.children.flatMap(collectFinalOutputs)];
+}
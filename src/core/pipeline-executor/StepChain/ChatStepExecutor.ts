@@ -5,9 +5,15 @@
 import { App } from 'obsidian';
 import { PromptBuilder } from '../../prompt-builder';
 import { ChatClient } from '../../../api/chat-client';
+import { ClaudeClient } from '../../../api/claude-client';
+import { ProcessedResponse, TokenUsage } from '../../../api/chat-types';
+import { getRateLimiter } from '../../../api/rate-limiter';
 import { FileOperations, FileUtils } from '../../file-operations';
 import { FilenameResolver } from '../../FilenameResolver';
 import { OutputHandler } from './OutputHandler';
+import { resolveOutputDirectories } from '../../path-operations/resolve-output-directories';
+import { RoutingRuleMatcher } from '../../routing-rules';
+import { StepCommit, StagedOutput, withCommitLock } from '../../step-commit';
 import {
     ResolvedPipelineStep,
     PipelineStep,
@@ -15,8 +21,14 @@ import {
     ProcessingResult,
     ProcessingStatus,
     ProcessingContext,
+    ProcessingUsage,
+    UsageListener,
+    DryRunMode,
+    DryRunPreview,
     isRoutingAwareOutput,
     RoutingAwareOutput,
+    RoutingRuleMatch,
+    OutputOperation,
     ContentPipelineSettings
 } from '../../../types';
 import { createLogger } from '../../../logger';
@@ -25,6 +37,18 @@ import { executionContextSchema } from '../../../validation/schemas';
 
 const logger = createLogger('ChatStepExecutor');
 
+interface RequestPrompt {
+    prompt: string;
+    systemPrompt?: string;
+}
+
+interface StagedResponse {
+    outputs: StagedOutput[];
+    outputFiles: string[];
+    nextStep?: string;
+    routingDecision: NonNullable<ProcessingResult['routingDecision']>;
+}
+
 interface LLMResponseSection {
     filename?: string;
     content: string;
@@ -36,18 +60,26 @@ export class ChatStepExecutor {
     private promptBuilder: PromptBuilder;
     private fileOps: FileOperations;
     private outputHandler: OutputHandler;
+    private routingRules: RoutingRuleMatcher;
 
     constructor(app: App, settings?: ContentPipelineSettings) {
         this.app = app;
         this.promptBuilder = new PromptBuilder(app, settings);
         this.fileOps = new FileOperations(app);
         this.outputHandler = new OutputHandler(app);
+        this.routingRules = new RoutingRuleMatcher(app);
     }
 
+    /**
+     * @param signal - Cancels the request; once the response has arrived the file is archived and written in full
+     * @param onUsage - Receives the usage of every request, also when the step fails afterwards
+     */
     async execute(
         stepId: string,
         fileInfo: FileInfo,
-        resolvedStep: ResolvedPipelineStep
+        resolvedStep: ResolvedPipelineStep,
+        signal?: AbortSignal,
+        onUsage?: UsageListener
     ): Promise<ProcessingResult> {
         const startTime = new Date();
 
@@ -58,178 +90,534 @@ export class ChatStepExecutor {
             logger.info(`Starting chat processing: ${fileInfo.name} with ${resolvedStep.modelConfig.model}`);
 
             // Create processing context with routing preparation
-            const context: ProcessingContext = {
-                filename: FilenameResolver.getBasename(fileInfo.path),
-                timestamp: FileUtils.generateTimestamp(),
-                date: new Date().toISOString().split('T')[0],
-                archivePath: '', // Will be set after archiving
-                stepId,
-                inputPath: fileInfo.path,
-                outputPath: '' // Will be resolved per output file based on routing
-            };
+            const context = this.createContext(stepId, fileInfo, resolvedStep);
 
-            // Build prompt using explicit configuration
-            const prompt = await this.promptBuilder.buildPrompt(
-                fileInfo,
-                resolvedStep,  // NEW WAY - pass entire resolved step
-                context,
-                this.getAvailableNextSteps(resolvedStep)
-            );
+            // Routing rules decide before the model is asked for a next step
+            const ruleMatch = await this.routingRules.match(fileInfo, resolvedStep.routingRules);
+            const processedResponse = await this.getStructuredResponse(fileInfo, resolvedStep, context, ruleMatch, signal, onUsage);
+
+            // Last point to stop before the vault is changed
+            signal?.throwIfAborted();
+
+            const { staged, archivePaths: [archivePath], outputOperations } = await withCommitLock(async () => {
+                this.outputHandler.assertNoCollisions(processedResponse.sections, this.createOutputStep(stepId, resolvedStep), context);
 
-            // Create chat client and process request using structured output
-            const chatClient = new ChatClient({
-                apiKey: resolvedStep.modelConfig.apiKey,
-                baseUrl: resolvedStep.modelConfig.baseUrl,
-                organization: resolvedStep.modelConfig.organization
+                // Outputs link to the archive path the input will be moved to once they are written
+                context.archivePath = await this.fileOps.getArchivePath(fileInfo.path, resolvedStep.archive, resolvedStep.onCollision);
+                const staged = await this.stageResponse(stepId, resolvedStep, context, processedResponse);
+                return { staged, ...await this.commit(staged, [fileInfo], [context.archivePath], resolvedStep, context) };
             });
 
-            const processedResponse = await chatClient.processStructuredRequest(
-                prompt,
-                this.getAvailableNextSteps(resolvedStep),
-                {
-                    model: resolvedStep.modelConfig.model,
-                    temperature: 0.1
-                }
-            );
+            logger.info(`Chat processing completed with structured output: ${fileInfo.name} → ${staged.outputFiles.length} files, nextStep: ${staged.nextStep || 'none'}`);
 
-            // Archive input file using FileOperations directly
-            let archivePath: string;
-            try {
-                const archiveResult = await this.fileOps.archiveFile(
-                    fileInfo.path,
-                    resolvedStep.archive
-                );
-                
-                if (!archiveResult.success) {
-                    throw new Error(`Archive operation failed: ${archiveResult.error || 'Unknown error'}`);
-                }
-                
-                archivePath = archiveResult.archivePath;
-                logger.debug(`File archived: ${fileInfo.path} → ${archivePath}`);
-            } catch (error) {
-                const errorMsg = `Failed to archive file: ${fileInfo.path}. ${error instanceof Error ? error.message : String(error)}`;
-                logger.error(errorMsg);
-                
-                // Archiving failure should cause the entire processing step to fail
-                // This prevents the file from remaining in the input directory and causing infinite loops
-                throw new Error(`Processing failed due to archiving error: ${errorMsg}`);
-            }
-            context.archivePath = archivePath;
-
-            // Validate routing decisions and resolve output paths
-            const routingValidation = this.validateRoutingDecisions(processedResponse.sections, resolvedStep);
-            logger.debug('Routing validation completed', routingValidation);
-
-            // Create step object for OutputHandler compatibility with routing-aware output support
-            const outputStepCompat: PipelineStep = {
-                modelConfig: stepId, // Not used by OutputHandler but needed for interface
-                input: resolvedStep.input,
-                output: resolvedStep.routingAwareOutput || resolvedStep.output, // Use routing-aware output if available
-                archive: resolvedStep.archive,
-                prompts: resolvedStep.prompts,
-                context: resolvedStep.context,
-                description: resolvedStep.description
+            return {
+                inputFile: fileInfo,
+                status: ProcessingStatus.COMPLETED,
+                outputFiles: staged.outputFiles,
+                archivePath,
+                startTime,
+                endTime: new Date(),
+                stepId,
+                nextStep: staged.nextStep,
+                routingDecision: {
+                    ...staged.routingDecision,
+                    ...(ruleMatch && { matchedRule: ruleMatch.index })
+                },
+                usage: this.createUsage(resolvedStep, processedResponse.usage),
+                outputOperations,
+                ...(context.collisions?.length && { collisions: context.collisions })
             };
 
-            const outputFiles: string[] = [];
-            let nextStep: string | undefined;
-            const routingDecisions: Array<{
-                section: string;
-                nextStep?: string;
-                usedDefaultFallback: boolean;
-                resolvedOutputPath: string;
-            }> = [];
-
-            // Process routing decisions and prepare context
-            for (const section of processedResponse.sections) {
-                const sectionRoutingDecision = this.createRoutingDecision(section, resolvedStep);
-                routingDecisions.push(sectionRoutingDecision);
-
-                // Set the first valid nextStep as the overall nextStep for the processing result
-                if (!nextStep && sectionRoutingDecision.nextStep && this.isValidNextStep(sectionRoutingDecision.nextStep, resolvedStep)) {
-                    nextStep = sectionRoutingDecision.nextStep;
-                }
+        } catch (error) {
+            logger.error(`Chat processing failed: ${fileInfo?.name || 'unknown file'}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Process the batch of an aggregating step with a single request
+     *
+     * All files are sent as separate <input_content> blocks. Once the response
+     * has arrived the outputs are written and every file is archived; if one of
+     * them cannot be archived the others are moved back and the outputs removed.
+     */
+    async executeAggregate(
+        stepId: string,
+        files: FileInfo[],
+        resolvedStep: ResolvedPipelineStep,
+        signal?: AbortSignal,
+        onUsage?: UsageListener
+    ): Promise<ProcessingResult> {
+        const startTime = new Date();
+
+        try {
+            files.forEach(fileInfo => this.validateInput(stepId, fileInfo, resolvedStep));
+
+            logger.info(`Starting aggregated chat processing: ${files.length} files with ${resolvedStep.modelConfig.model}`);
+
+            const context = this.createContext(stepId, files[0], resolvedStep);
+            // Sections without a filename are named after the step rather than one of the inputs
+            if (files.length > 1) {
+                context.filename = `${stepId}-${context.date}`;
             }
 
-            // Update context with comprehensive routing information
-            context.routingDecision = {
-                nextStep: nextStep,
-                usedDefaultFallback: routingDecisions.some(rd => rd.usedDefaultFallback),
-                resolvedOutputPath: '', // Will be set per section
-                availableOptions: this.getAvailableNextSteps(resolvedStep)
-            };
+            const requestPrompt = await this.buildRequestPrompt(files, resolvedStep, context);
+            const response = await this.requestStructuredResponse(resolvedStep, requestPrompt, undefined, signal, onUsage);
+            const processedResponse = this.expandBroadcasts(response, resolvedStep);
 
-            // Handle different response types with unified output handling
-            if (processedResponse.isMultiFile) {
-                // Multi-file response: use saveMultiple for all cases
-                const savedFiles = await this.outputHandler.saveMultiple(processedResponse.sections, outputStepCompat, context);
-                outputFiles.push(...Object.values(savedFiles));
-
-                // Get nextStep from first section that has a valid one
-                const validNextStep = processedResponse.sections.find(section =>
-                    section.nextStep && this.isValidNextStep(section.nextStep, resolvedStep)
-                )?.nextStep;
-                if (validNextStep) {
-                    nextStep = validNextStep;
-                }
-            } else if (processedResponse.sections.length > 0) {
-                // Single-file response: use unified save method
-                const section = processedResponse.sections[0];
-
-                // Update context with specific routing decision for this section
-                const sectionContext = {
-                    ...context,
-                    routingDecision: {
-                        nextStep: section.nextStep,
-                        usedDefaultFallback: !section.nextStep || !this.isValidNextStep(section.nextStep, resolvedStep),
-                        resolvedOutputPath: this.outputHandler.resolveOutputDirectory(outputStepCompat, section.nextStep),
-                        availableOptions: this.getAvailableNextSteps(resolvedStep)
-                    }
-                };
-
-                // Use unified save method for all single-file responses
-                const outputPath = await this.outputHandler.save(section, outputStepCompat, sectionContext);
-                outputFiles.push(outputPath);
-
-                // Validate and set nextStep
-                if (section.nextStep && this.isValidNextStep(section.nextStep, resolvedStep)) {
-                    nextStep = section.nextStep;
-                } else if (section.nextStep) {
-                    const availableNextSteps = this.getAvailableNextSteps(resolvedStep);
-                    logger.warn(`Invalid nextStep '${section.nextStep}' not found in step configuration. Available options: ${availableNextSteps.join(', ')}`);
-                    nextStep = undefined;
+            // Last point to stop before the vault is changed
+            signal?.throwIfAborted();
+
+            const { staged, archivePaths, outputOperations } = await withCommitLock(async () => {
+                this.outputHandler.assertNoCollisions(processedResponse.sections, this.createOutputStep(stepId, resolvedStep), context);
+
+                const plannedArchivePaths: string[] = [];
+                for (const fileInfo of files) {
+                    plannedArchivePaths.push(await this.fileOps.getArchivePath(fileInfo.path, resolvedStep.archive, resolvedStep.onCollision));
                 }
-            }
+                context.archivePath = plannedArchivePaths[0];
+                context.sources = plannedArchivePaths;
 
-            // Create comprehensive routing decision metadata for result
-            const finalRoutingDecision = {
-                availableOptions: this.getAvailableNextSteps(resolvedStep),
-                chosenOption: nextStep,
-                usedDefaultFallback: routingDecisions.some(rd => rd.usedDefaultFallback),
-                resolvedOutputPath: outputFiles[0] || '', // Use first output file as representative
-                routingConfig: isRoutingAwareOutput(outputStepCompat.output) ? outputStepCompat.output as RoutingAwareOutput : undefined
-            };
+                const staged = await this.stageResponse(stepId, resolvedStep, context, processedResponse);
+                return { staged, ...await this.commit(staged, files, plannedArchivePaths, resolvedStep, context) };
+            });
 
-            logger.info(`Chat processing completed with structured output: ${fileInfo.name} → ${outputFiles.length} files, nextStep: ${nextStep || 'none'}`);
+            logger.info(`Aggregated chat processing completed: ${files.length} files → ${staged.outputFiles.length} files, nextStep: ${staged.nextStep || 'none'}`);
 
             return {
-                inputFile: fileInfo,
+                inputFile: files[0],
+                inputFiles: files,
                 status: ProcessingStatus.COMPLETED,
-                outputFiles,
-                archivePath,
+                outputFiles: staged.outputFiles,
+                archivePath: archivePaths[0],
+                archivePaths,
                 startTime,
                 endTime: new Date(),
                 stepId,
-                nextStep,
-                routingDecision: finalRoutingDecision
+                nextStep: staged.nextStep,
+                routingDecision: staged.routingDecision,
+                usage: this.createUsage(resolvedStep, processedResponse.usage),
+                outputOperations,
+                ...(context.collisions?.length && { collisions: context.collisions })
             };
 
         } catch (error) {
-            logger.error(`Chat processing failed: ${fileInfo?.name || 'unknown file'}`, error);
+            logger.error(`Aggregated chat processing failed: ${files.length} files of step ${stepId}`, error);
             throw error;
         }
     }
 
+    /**
+     * Write and verify the staged outputs, then archive the inputs, all or nothing
+     *
+     * @param plannedArchivePaths - Archive paths the outputs link to, in the order of the files
+     * @returns Archive paths in the order of the files and the changes made to output files
+     */
+    private async commit(
+        staged: StagedResponse,
+        files: FileInfo[],
+        plannedArchivePaths: string[],
+        resolvedStep: ResolvedPipelineStep,
+        context: ProcessingContext
+    ): Promise<{ archivePaths: string[]; outputOperations: OutputOperation[] }> {
+        const inputs = files.map((fileInfo, index) => ({ path: fileInfo.path, archivePath: plannedArchivePaths[index] }));
+        const { archiveResults, outputOperations } = await new StepCommit(this.app).commit(staged.outputs, inputs, resolvedStep.archive, resolvedStep.onCollision);
+
+        for (const archiveResult of archiveResults) {
+            logger.debug(`File archived: ${archiveResult.originalPath} → ${archiveResult.archivePath}`);
+            if (archiveResult.collision) {
+                context.collisions?.push(archiveResult.collision);
+            }
+        }
+        return { archivePaths: archiveResults.map(archiveResult => archiveResult.archivePath), outputOperations };
+    }
+
+    /**
+     * Dry run of the step: assemble the prompt and resolve the archive and output paths
+     *
+     * In 'api' mode the request is sent as well and the planned output files are
+     * reported, but nothing is archived or written to the vault.
+     */
+    async preview(
+        stepId: string,
+        fileInfo: FileInfo,
+        resolvedStep: ResolvedPipelineStep,
+        mode: DryRunMode,
+        signal?: AbortSignal,
+        onUsage?: UsageListener
+    ): Promise<ProcessingResult> {
+        const startTime = new Date();
+
+        this.validateInput(stepId, fileInfo, resolvedStep);
+        logger.info(`Starting chat dry run (${mode}): ${fileInfo.name} with ${resolvedStep.modelConfig.model}`);
+
+        const context = this.createContext(stepId, fileInfo, resolvedStep);
+        context.archivePath = await this.fileOps.getArchivePath(fileInfo.path, resolvedStep.archive, resolvedStep.onCollision);
+
+        // Rules that skip the model leave nothing to prompt
+        const ruleMatch = await this.routingRules.match(fileInfo, resolvedStep.routingRules);
+        const requestPrompt = ruleMatch?.rule.skipModel
+            ? { prompt: '' }
+            : await this.buildRequestPrompt(fileInfo, resolvedStep, context, ruleMatch);
+        const outputStep = this.createOutputStep(stepId, resolvedStep);
+        const dryRun: DryRunPreview = {
+            mode,
+            modelConfigId: resolvedStep.modelConfigId,
+            model: resolvedStep.modelConfig.model,
+            prompt: requestPrompt.prompt,
+            ...(requestPrompt.systemPrompt !== undefined && { systemPrompt: requestPrompt.systemPrompt }),
+            archivePath: context.archivePath,
+            outputDirectories: resolveOutputDirectories(outputStep.output),
+            ...(ruleMatch && { matchedRule: ruleMatch })
+        };
+
+        if (mode === 'preview') {
+            return this.createDryRunResult(stepId, fileInfo, startTime, dryRun);
+        }
+
+        const response = ruleMatch?.rule.skipModel
+            ? await this.createPassThroughResponse(fileInfo, context, ruleMatch)
+            : this.applyRoutingRule(await this.requestStructuredResponse(resolvedStep, requestPrompt, ruleMatch, signal, onUsage), ruleMatch);
+        const processedResponse = this.expandBroadcasts(response, resolvedStep);
+        dryRun.plannedOutputs = this.outputHandler.planOutputs(processedResponse.sections, outputStep, context);
+
+        const nextStep = dryRun.plannedOutputs.find(output =>
+            output.nextStep && this.isValidNextStep(output.nextStep, resolvedStep)
+        )?.nextStep;
+
+        return {
+            ...this.createDryRunResult(stepId, fileInfo, startTime, dryRun),
+            nextStep,
+            usage: this.createUsage(resolvedStep, processedResponse.usage)
+        };
+    }
+
+    /**
+     * Resolve the output files of the response sections without writing them
+     */
+    private async stageResponse(
+        stepId: string,
+        resolvedStep: ResolvedPipelineStep,
+        context: ProcessingContext,
+        processedResponse: ProcessedResponse
+    ): Promise<StagedResponse> {
+        // Validate routing decisions and resolve output paths
+        const routingValidation = this.validateRoutingDecisions(processedResponse.sections, resolvedStep);
+        logger.debug('Routing validation completed', routingValidation);
+
+        // Create step object for OutputHandler compatibility with routing-aware output support
+        const outputStepCompat = this.createOutputStep(stepId, resolvedStep);
+
+        const outputs: StagedOutput[] = [];
+        let nextStep: string | undefined;
+        const routingDecisions: Array<{
+            section: string;
+            nextStep?: string;
+            usedDefaultFallback: boolean;
+            resolvedOutputPath: string;
+        }> = [];
+
+        // Process routing decisions and prepare context
+        for (const section of processedResponse.sections) {
+            const sectionRoutingDecision = this.createRoutingDecision(section, resolvedStep);
+            routingDecisions.push(sectionRoutingDecision);
+
+            // Set the first valid nextStep as the overall nextStep for the processing result
+            if (!nextStep && sectionRoutingDecision.nextStep && this.isValidNextStep(sectionRoutingDecision.nextStep, resolvedStep)) {
+                nextStep = sectionRoutingDecision.nextStep;
+            }
+        }
+
+        // Update context with comprehensive routing information
+        context.routingDecision = {
+            nextStep: nextStep,
+            usedDefaultFallback: routingDecisions.some(rd => rd.usedDefaultFallback),
+            resolvedOutputPath: '', // Will be set per section
+            availableOptions: this.getAvailableNextSteps(resolvedStep)
+        };
+
+        // Handle different response types with unified output handling
+        if (processedResponse.isMultiFile) {
+            // Multi-file response: use stageMultiple for all cases
+            outputs.push(...await this.outputHandler.stageMultiple(processedResponse.sections, outputStepCompat, context));
+
+            // Get nextStep from first section that has a valid one
+            const validNextStep = processedResponse.sections.find(section =>
+                section.nextStep && this.isValidNextStep(section.nextStep, resolvedStep)
+            )?.nextStep;
+            if (validNextStep) {
+                nextStep = validNextStep;
+            }
+        } else if (processedResponse.sections.length > 0) {
+            // Single-file response: use unified stage method
+            const section = processedResponse.sections[0];
+
+            // Update context with specific routing decision for this section
+            const sectionContext = {
+                ...context,
+                routingDecision: {
+                    nextStep: section.nextStep,
+                    usedDefaultFallback: !section.nextStep || !this.isValidNextStep(section.nextStep, resolvedStep),
+                    resolvedOutputPath: this.outputHandler.resolveOutputDirectory(outputStepCompat, section.nextStep),
+                    availableOptions: this.getAvailableNextSteps(resolvedStep)
+                }
+            };
+
+            // Use unified stage method for all single-file responses
+            outputs.push(await this.outputHandler.stage(section, outputStepCompat, sectionContext));
+
+            // Validate and set nextStep
+            if (section.nextStep && this.isValidNextStep(section.nextStep, resolvedStep)) {
+                nextStep = section.nextStep;
+            } else if (section.nextStep) {
+                const availableNextSteps = this.getAvailableNextSteps(resolvedStep);
+                logger.warn(`Invalid nextStep '${section.nextStep}' not found in step configuration. Available options: ${availableNextSteps.join(', ')}`);
+                nextStep = undefined;
+            }
+        }
+
+        const outputFiles = outputs.map(output => output.path);
+
+        // Create comprehensive routing decision metadata for result
+        const finalRoutingDecision = {
+            availableOptions: this.getAvailableNextSteps(resolvedStep),
+            chosenOption: nextStep,
+            usedDefaultFallback: routingDecisions.some(rd => rd.usedDefaultFallback),
+            resolvedOutputPath: outputFiles[0] || '', // Use first output file as representative
+            routingConfig: isRoutingAwareOutput(outputStepCompat.output) ? outputStepCompat.output as RoutingAwareOutput : undefined
+        };
+
+        return { outputs, outputFiles, nextStep, routingDecision: finalRoutingDecision };
+    }
+
+    private createUsage(resolvedStep: ResolvedPipelineStep, usage?: TokenUsage): ProcessingUsage | undefined {
+        return usage && {
+            modelConfig: resolvedStep.modelConfigId || resolvedStep.modelConfig.model,
+            model: resolvedStep.modelConfig.model,
+            promptTokens: usage.promptTokens,
+            completionTokens: usage.completionTokens,
+            audioSeconds: 0
+        };
+    }
+
+    private createDryRunResult(
+        stepId: string,
+        fileInfo: FileInfo,
+        startTime: Date,
+        dryRun: DryRunPreview
+    ): ProcessingResult {
+        return {
+            inputFile: fileInfo,
+            status: ProcessingStatus.COMPLETED,
+            outputFiles: [],
+            startTime,
+            endTime: new Date(),
+            stepId,
+            dryRun
+        };
+    }
+
+    private createContext(stepId: string, fileInfo: FileInfo, resolvedStep: ResolvedPipelineStep): ProcessingContext {
+        return {
+            filename: FilenameResolver.getBasename(fileInfo.path),
+            timestamp: FileUtils.generateTimestamp(),
+            date: new Date().toISOString().split('T')[0],
+            archivePath: '', // Will be set after archiving
+            stepId,
+            modelConfigId: resolvedStep.modelConfigId,
+            model: resolvedStep.modelConfig.model,
+            inputPath: fileInfo.path,
+            outputPath: '', // Will be resolved per output file based on routing
+            collisions: [],
+            ...(resolvedStep.requiresApproval && { reviewStatus: 'pending-review' })
+        };
+    }
+
+    /**
+     * Step object for OutputHandler compatibility with routing-aware output support
+     */
+    private createOutputStep(stepId: string, resolvedStep: ResolvedPipelineStep): PipelineStep {
+        return {
+            modelConfig: stepId, // Not used by OutputHandler but needed for interface
+            input: resolvedStep.input,
+            output: resolvedStep.routingAwareOutput || resolvedStep.output, // Use routing-aware output if available
+            archive: resolvedStep.archive,
+            prompts: resolvedStep.prompts,
+            context: resolvedStep.context,
+            description: resolvedStep.description,
+            broadcast: resolvedStep.broadcast,
+            write: resolvedStep.write,
+            onCollision: resolvedStep.onCollision,
+            requiresApproval: resolvedStep.requiresApproval
+        };
+    }
+
+    /**
+     * Get the sections to write for the file
+     *
+     * Files matched by a rule that skips the model are passed through; otherwise the
+     * model is asked, and only chooses the next step if no rule has decided it.
+     */
+    private async getStructuredResponse(
+        fileInfo: FileInfo,
+        resolvedStep: ResolvedPipelineStep,
+        context: ProcessingContext,
+        ruleMatch?: RoutingRuleMatch,
+        signal?: AbortSignal,
+        onUsage?: UsageListener
+    ): Promise<ProcessedResponse> {
+        if (ruleMatch?.rule.skipModel) {
+            return this.expandBroadcasts(await this.createPassThroughResponse(fileInfo, context, ruleMatch), resolvedStep);
+        }
+
+        // Build prompt and request structured output from the configured implementation
+        const requestPrompt = await this.buildRequestPrompt(fileInfo, resolvedStep, context, ruleMatch);
+        const processedResponse = await this.requestStructuredResponse(resolvedStep, requestPrompt, ruleMatch, signal, onUsage);
+        return this.expandBroadcasts(this.applyRoutingRule(processedResponse, ruleMatch), resolvedStep);
+    }
+
+    /**
+     * Turn sections routed to a broadcast key into one section per target output key
+     */
+    private expandBroadcasts(processedResponse: ProcessedResponse, resolvedStep: ResolvedPipelineStep): ProcessedResponse {
+        const outputStep = this.createOutputStep(resolvedStep.stepId, resolvedStep);
+        const sections = this.outputHandler.expandBroadcasts(processedResponse.sections, outputStep);
+        return { ...processedResponse, sections, isMultiFile: sections.length > 1 };
+    }
+
+    /**
+     * Input content without its frontmatter as a single section routed by the rule
+     */
+    private async createPassThroughResponse(
+        fileInfo: FileInfo,
+        context: ProcessingContext,
+        ruleMatch: RoutingRuleMatch
+    ): Promise<ProcessedResponse> {
+        const content = FileUtils.stripFrontmatter(await this.fileOps.readFile(fileInfo.path));
+        logger.info(`Routing rule ${ruleMatch.index} sent ${fileInfo.name} to ${ruleMatch.rule.nextStep} without a model call`);
+
+        return {
+            sections: [{ filename: context.filename, content, nextStep: ruleMatch.rule.nextStep }],
+            isMultiFile: false,
+            rawResponse: ''
+        };
+    }
+
+    /**
+     * Route every section to the next step chosen by the matched rule
+     */
+    private applyRoutingRule(processedResponse: ProcessedResponse, ruleMatch?: RoutingRuleMatch): ProcessedResponse {
+        if (!ruleMatch) {
+            return processedResponse;
+        }
+
+        return {
+            ...processedResponse,
+            sections: processedResponse.sections.map(section => ({ ...section, nextStep: ruleMatch.rule.nextStep }))
+        };
+    }
+
+    /**
+     * Next steps and broadcast keys the model may choose from; none once a rule has decided
+     */
+    private getModelRoutingOptions(resolvedStep: ResolvedPipelineStep, ruleMatch?: RoutingRuleMatch): string[] {
+        if (ruleMatch) {
+            return [];
+        }
+        return [...this.getAvailableNextSteps(resolvedStep), ...Object.keys(resolvedStep.broadcast || {})];
+    }
+
+    /**
+     * Assemble the step prompt for the configured chat implementation
+     *
+     * Claude receives the step prompts as its system prompt; OpenAI-compatible
+     * models receive the complete prompt as a single user message.
+     */
+    private async buildRequestPrompt(
+        fileInfo: FileInfo | FileInfo[],
+        resolvedStep: ResolvedPipelineStep,
+        context: ProcessingContext,
+        ruleMatch?: RoutingRuleMatch
+    ): Promise<RequestPrompt> {
+        const availableNextSteps = this.getModelRoutingOptions(resolvedStep, ruleMatch);
+
+        if (resolvedStep.modelConfig.implementation === 'claude') {
+            const { systemPrompt, userPrompt } = await this.promptBuilder.buildPromptParts(
+                fileInfo,
+                resolvedStep,
+                context,
+                availableNextSteps
+            );
+            return { prompt: userPrompt, systemPrompt };
+        }
+
+        // Build prompt using explicit configuration
+        const prompt = await this.promptBuilder.buildPrompt(
+            fileInfo,
+            resolvedStep,  // NEW WAY - pass entire resolved step
+            context,
+            availableNextSteps
+        );
+        return { prompt };
+    }
+
+    /**
+     * Send the assembled prompt to the configured chat implementation
+     */
+    private async requestStructuredResponse(
+        resolvedStep: ResolvedPipelineStep,
+        requestPrompt: RequestPrompt,
+        ruleMatch?: RoutingRuleMatch,
+        signal?: AbortSignal,
+        onUsage?: UsageListener
+    ): Promise<ProcessedResponse> {
+        const availableNextSteps = this.getModelRoutingOptions(resolvedStep, ruleMatch);
+        const { modelConfig } = resolvedStep;
+
+        // Step options are already merged over the model config defaults; the timeout belongs to the client
+        const { timeout, ...generationOptions } = resolvedStep.options || {};
+        const rateLimiter = getRateLimiter(resolvedStep.modelConfigId || modelConfig.model, modelConfig.rateLimit);
+        const reportUsage = onUsage && ((usage: TokenUsage) => onUsage(this.createUsage(resolvedStep, usage)!));
+
+        if (modelConfig.implementation === 'claude') {
+            const claudeClient = new ClaudeClient({
+                apiKey: modelConfig.apiKey,
+                baseUrl: modelConfig.baseUrl,
+                rateLimiter,
+                signal,
+                onUsage: reportUsage,
+                ...(timeout !== undefined && { timeout })
+            });
+
+            return await claudeClient.processStructuredRequest(requestPrompt.prompt, availableNextSteps, {
+                ...generationOptions,
+                model: modelConfig.model,
+                system: requestPrompt.systemPrompt || undefined
+            });
+        }
+
+        // Create chat client and process request using structured output
+        const chatClient = new ChatClient({
+            apiKey: modelConfig.apiKey,
+            baseUrl: modelConfig.baseUrl,
+            organization: modelConfig.organization,
+            structuredOutput: modelConfig.structuredOutput,
+            rateLimiter,
+            signal,
+            onUsage: reportUsage,
+            ...(timeout !== undefined && { timeout })
+        });
+
+        return await chatClient.processStructuredRequest(
+            requestPrompt.prompt,
+            availableNextSteps,
+            {
+                ...generationOptions,
+                model: modelConfig.model
+            }
+        );
+    }
+
     /**
      * Get available next steps from routing-aware output only
      */
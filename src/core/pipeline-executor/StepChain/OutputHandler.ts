@@ -2,16 +2,21 @@
  * Simplified Output File Handling Logic for Directory-Only System
  */
 
-import { App } from 'obsidian';
+import { App, normalizePath } from 'obsidian';
 import { FileOperations } from '../../file-operations';
 import { normalizeDirectoryPath } from '../../path-operations/normalize-directory-path';
 import { buildOutputPath } from '../../path-operations/build-output-path';
+import { resolveCollision, resolveOutputCollision } from '../../path-operations/resolve-collision';
 import { FilenameResolver } from '../../FilenameResolver';
+import { mergeOutput } from '../../write-modes';
+import { StagedOutput } from '../../step-commit';
 import { ProcessedSection } from '../../../api/chat-types';
 import {
     PipelineStep,
     ProcessingContext,
     FileMetadata,
+    DryRunOutput,
+    OutputWriteConfig,
     RoutingAwareOutput,
     isRoutingAwareOutput
 } from '../../../types';
@@ -78,77 +83,231 @@ export class OutputHandler {
         throw new ContentPipelineError('Invalid output configuration - not string or routing-aware object');
     }
 
-    async save(
+    /**
+     * Write mode of the output a section is routed to; sections without a valid route use "default"
+     */
+    getWriteConfig(section: ProcessedSection, step: PipelineStep): OutputWriteConfig | undefined {
+        const routingOutput = isRoutingAwareOutput(step.output) ? step.output as RoutingAwareOutput : undefined;
+        const key = section.nextStep && routingOutput?.[section.nextStep] ? section.nextStep : 'default';
+        return step.write?.[key];
+    }
+
+    /**
+     * Output file path of a section, resolved from its routing decision
+     *
+     * Outputs with a write mode target file are always written to that file.
+     */
+    resolveOutputPath(
         section: ProcessedSection,
         step: PipelineStep,
         context: ProcessingContext
-    ): Promise<string> {
-        try {
-            // Resolve output directory based on routing decision
-            const outputDirectory = this.resolveOutputDirectory(step, section.nextStep);
-
-            // Determine effective filename using FilenameResolver
-            const effectiveFilename = FilenameResolver.resolveOutputFilename(
-                section.filename,
-                context.filename
-            );
-
-            // Get appropriate file extension for the step type
-            const extension = FilenameResolver.getExtensionForStepType(context.stepId);
-
-            // Build complete output path using path operations
-            const outputPath = buildOutputPath(
-                outputDirectory,
-                effectiveFilename,
-                extension
-            );
-
-            // Generate clean frontmatter with essential metadata only
-            const metadata: FileMetadata = {
-                source: context.archivePath,
-                processed: new Date().toISOString(),
-                step: context.stepId,
-                nextStep: section.nextStep
-            };
+    ): string {
+        const targetFile = this.getWriteConfig(section, step)?.file;
+        if (targetFile) {
+            return normalizePath(targetFile);
+        }
+
+        // Resolve output directory based on routing decision
+        const outputDirectory = this.resolveOutputDirectory(step, section.nextStep);
+
+        // Determine effective filename using FilenameResolver
+        const effectiveFilename = FilenameResolver.resolveOutputFilename(
+            section.filename,
+            context.filename
+        );
 
-            // Create clean frontmatter
-            const frontmatterLines = ['---'];
-            frontmatterLines.push(`source: "[[${metadata.source}]]"`);
-            frontmatterLines.push(`processed: "${metadata.processed}"`);
-            frontmatterLines.push(`step: "${metadata.step}"`);
-            if (metadata.nextStep) {
-                frontmatterLines.push(`nextStep: "${metadata.nextStep}"`);
+        // Get appropriate file extension for the step type
+        const extension = FilenameResolver.getExtensionForStepType(context.stepId);
+
+        // Build complete output path using path operations
+        return buildOutputPath(
+            outputDirectory,
+            effectiveFilename,
+            extension
+        );
+    }
+
+    /**
+     * Replace sections routed to a broadcast key with one copy per target output key
+     *
+     * The copies are linked to each other once their output paths are resolved.
+     */
+    expandBroadcasts(sections: ProcessedSection[], step: PipelineStep): ProcessedSection[] {
+        return sections.flatMap((section, sectionIndex) => {
+            const targets = section.nextStep ? step.broadcast?.[section.nextStep] : undefined;
+            if (!targets) {
+                return [section];
             }
-            frontmatterLines.push('---');
-            frontmatterLines.push('');
 
-            // Combine frontmatter with direct API response content
-            const finalContent = frontmatterLines.join('\n') + section.content;
+            logger.debug(`Broadcasting section ${section.filename} to ${targets.join(', ')}`);
+            return targets.map(nextStep => ({ ...section, nextStep, broadcastOf: sectionIndex }));
+        });
+    }
+
+    /**
+     * Section content with clean frontmatter, as written to the output file
+     */
+    formatContent(section: ProcessedSection, context: ProcessingContext): string {
+        // Generate clean frontmatter with essential metadata only
+        const metadata: FileMetadata = {
+            source: context.archivePath,
+            processed: new Date().toISOString(),
+            step: context.stepId,
+            nextStep: section.nextStep,
+            model: context.model,
+            modelConfig: context.modelConfigId,
+            copies: section.copies,
+            sources: context.sources,
+            status: context.reviewStatus
+        };
 
-            // Debug logging: Saving output file with simplified system
-            logger.debug('Saving output file with simplified system', {
-                outputPath: outputPath,
-                outputDirectory: outputDirectory,
-                nextStep: section.nextStep,
-                contentLength: finalContent.length,
-                frontmatterUsed: metadata,
-                filenameSource: FilenameResolver.getFilenameSource(section.filename),
-                sectionFilename: section.filename,
-                effectiveFilename: effectiveFilename,
-                extension: extension
-            });
+        // Create clean frontmatter
+        const frontmatterLines = ['---'];
+        frontmatterLines.push(`source: "[[${metadata.source}]]"`);
+        frontmatterLines.push(`processed: "${metadata.processed}"`);
+        frontmatterLines.push(`step: "${metadata.step}"`);
+        if (metadata.nextStep) {
+            frontmatterLines.push(`nextStep: "${metadata.nextStep}"`);
+        }
+        if (metadata.model) {
+            frontmatterLines.push(`model: "${metadata.model}"`);
+        }
+        if (metadata.modelConfig) {
+            frontmatterLines.push(`modelConfig: "${metadata.modelConfig}"`);
+        }
+        if (metadata.copies?.length) {
+            frontmatterLines.push('copies:');
+            metadata.copies.forEach(copy => frontmatterLines.push(`  - "[[${copy}]]"`));
+        }
+        if (metadata.sources?.length) {
+            frontmatterLines.push('sources:');
+            metadata.sources.forEach(source => frontmatterLines.push(`  - "[[${source}]]"`));
+        }
+        if (metadata.status) {
+            frontmatterLines.push(`status: "${metadata.status}"`);
+        }
+        frontmatterLines.push('---');
+        frontmatterLines.push('');
+
+        // Combine frontmatter with direct API response content
+        return frontmatterLines.join('\n') + section.content;
+    }
+
+    /**
+     * Resolve the output path and final content of a section without writing anything
+     *
+     * @param staged - Outputs staged earlier for the same step: their paths count as taken,
+     *                 and a section merged into one of them is merged into its staged content
+     */
+    async stage(
+        section: ProcessedSection,
+        step: PipelineStep,
+        context: ProcessingContext,
+        staged: StagedOutput[] = []
+    ): Promise<StagedOutput> {
+        const outputPath = this.resolveStagedPath(section, step, context, path => staged.some(output => output.path === path));
+        return this.stageAt(outputPath, section, step, context, staged);
+    }
+
+    /**
+     * Stage every section with its own routing context
+     *
+     * Sections merged into the same file are staged as one output. All output paths
+     * are resolved first, so broadcast copies link to the paths they are written to.
+     */
+    async stageMultiple(
+        sections: ProcessedSection[],
+        step: PipelineStep,
+        context: ProcessingContext
+    ): Promise<StagedOutput[]> {
+        const sectionContexts = sections.map(section => this.createSectionContext(context, section, step));
+        const paths: string[] = [];
+        sections.forEach((section, index) => {
+            paths.push(this.resolveStagedPath(section, step, sectionContexts[index], path => paths.includes(path)));
+        });
+
+        const staged: StagedOutput[] = [];
+        const linkedSections = this.linkBroadcastCopies(sections, paths);
+        for (const [index, section] of linkedSections.entries()) {
+            const output = await this.stageAt(paths[index], section, step, sectionContexts[index], staged);
+
+            const stagedIndex = staged.findIndex(candidate => candidate.path === output.path);
+            if (stagedIndex >= 0) {
+                staged[stagedIndex] = output;
+            } else {
+                staged.push(output);
+            }
+        }
 
-            // Ensure directory exists before writing file
-            await this.fileOps.ensureDirectoryForFile(outputPath);
+        logger.debug(`Staged ${staged.length} output(s) for ${sections.length} section(s) of ${context.stepId}`);
+        return staged;
+    }
+
+    /**
+     * Output path of a section, next to the files and outputs that already take its path
+     */
+    private resolveStagedPath(
+        section: ProcessedSection,
+        step: PipelineStep,
+        context: ProcessingContext,
+        isStaged: (path: string) => boolean
+    ): string {
+        const write = this.getWriteConfig(section, step);
+        const targetPath = this.resolveOutputPath(section, step, context);
+        // Write modes that merge into the file target it on purpose
+        return write && write.mode !== 'create'
+            ? targetPath
+            : resolveOutputCollision(targetPath, step.onCollision || 'suffix', path => isStaged(path) || this.fileOps.fileExists(path), context.collisions);
+    }
+
+    /**
+     * Final content of a section written to the given output path
+     */
+    private async stageAt(
+        outputPath: string,
+        section: ProcessedSection,
+        step: PipelineStep,
+        context: ProcessingContext,
+        staged: StagedOutput[]
+    ): Promise<StagedOutput> {
+        const write = this.getWriteConfig(section, step);
+        const existing = staged.find(output => output.path === outputPath)?.content;
+        const content = await this.mergeIntoExisting(outputPath, this.formatContent(section, context), write, existing);
+
+        logger.debug('Output staged', {
+            outputPath,
+            nextStep: section.nextStep,
+            contentLength: content.length,
+            filenameSource: FilenameResolver.getFilenameSource(section.filename),
+            sectionFilename: section.filename
+        });
+
+        return { path: outputPath, content };
+    }
+
+    /**
+     * Stage a section and write it right away
+     *
+     * Steps write their outputs through StepCommit instead, so they are rolled back together.
+     */
+    async save(
+        section: ProcessedSection,
+        step: PipelineStep,
+        context: ProcessingContext
+    ): Promise<string> {
+        try {
+            const output = await this.stage(section, step, context);
 
-            // Write content to file
-            await this.fileOps.writeFile(outputPath, finalContent, {
+            const result = await this.fileOps.writeFile(output.path, output.content, {
                 createDirectories: true,
                 overwrite: true
             });
+            if (!result.success) {
+                throw new ContentPipelineError(`Failed to write output file: ${output.path}. ${result.error || 'Unknown error'}`);
+            }
 
-            logger.debug(`Output file saved with simplified system: ${outputPath}`);
-            return outputPath;
+            logger.debug(`Output file saved: ${output.path}`);
+            return output.path;
 
         } catch (error) {
             logger.error('Failed to save output file', error);
@@ -156,41 +315,79 @@ export class OutputHandler {
         }
     }
 
-    async saveMultiple(
-        sections: ProcessedSection[],
-        step: PipelineStep,
-        context: ProcessingContext
-    ): Promise<{ [filename: string]: string }> {
-        const savedFiles: { [filename: string]: string } = {};
-
-        logger.debug('Saving multiple sections with simplified system', {
-            sectionCount: sections.length,
-            stepId: context.stepId,
-            stepOutput: step.output,
-            isRoutingAware: isRoutingAwareOutput(step.output)
-        });
+    /**
+     * Fail before anything is archived if an output would collide under the 'fail' policy
+     *
+     * Sections of the same response that share a path collide with each other as well.
+     */
+    assertNoCollisions(sections: ProcessedSection[], step: PipelineStep, context: ProcessingContext): void {
+        if (step.onCollision !== 'fail') {
+            return;
+        }
 
+        const plannedPaths = new Set<string>();
         for (const section of sections) {
-            try {
-                // Create section-specific context with routing decision metadata
-                const sectionContext = this.createSectionContext(context, section, step);
-
-                // Use unified save method - no need for special directory handling
-                const outputPath = await this.save(section, step, sectionContext);
-                savedFiles[section.filename] = outputPath;
-            } catch (error) {
-                logger.error(`Failed to save section: ${section.filename}`, error);
-                // Continue processing other sections even if one fails
+            const write = this.getWriteConfig(section, step);
+            if (write && write.mode !== 'create') {
+                continue;
             }
+
+            const path = this.resolveOutputPath(section, step, context);
+            resolveCollision(path, 'fail', candidate => plannedPaths.has(candidate) || this.fileOps.fileExists(candidate));
+            plannedPaths.add(path);
+        }
+    }
+
+    /**
+     * Merge the output into the existing target file according to its write mode
+     *
+     * Without a write mode, or if the target file does not exist yet, the output is written as is.
+     *
+     * @param staged - Content staged for the target file, which takes the place of the file
+     */
+    private async mergeIntoExisting(outputPath: string, content: string, write?: OutputWriteConfig, staged?: string): Promise<string> {
+        if (!write || write.mode === 'create' || (staged === undefined && !this.fileOps.fileExists(outputPath))) {
+            return content;
         }
 
-        logger.debug('Multiple sections save complete with simplified system', {
-            successCount: Object.keys(savedFiles).length,
-            totalCount: sections.length,
-            savedFiles: savedFiles
+        const existing = staged ?? await this.fileOps.readFile(outputPath);
+        logger.debug(`Merging output into ${outputPath} (${write.mode})`);
+        return mergeOutput(existing, content, write);
+    }
+
+    /**
+     * Output files the sections would be saved to, without writing anything
+     */
+    planOutputs(
+        sections: ProcessedSection[],
+        step: PipelineStep,
+        context: ProcessingContext
+    ): DryRunOutput[] {
+        const sectionContexts = sections.map(section => this.createSectionContext(context, section, step));
+        const paths = sections.map((section, index) => this.resolveOutputPath(section, step, sectionContexts[index]));
+
+        return this.linkBroadcastCopies(sections, paths).map((section, index) => {
+            const sectionContext = sectionContexts[index];
+            const write = this.getWriteConfig(section, step);
+            return {
+                path: paths[index],
+                ...(section.nextStep && { nextStep: section.nextStep }),
+                content: this.formatContent(section, sectionContext),
+                ...(write && write.mode !== 'create' && { writeMode: write.mode })
+            };
         });
+    }
 
-        return savedFiles;
+    /**
+     * Let every broadcast copy link to the output paths of the other copies of its section
+     *
+     * @param paths - Output path of each section
+     */
+    private linkBroadcastCopies(sections: ProcessedSection[], paths: string[]): ProcessedSection[] {
+        return sections.map((section, index) => section.broadcastOf === undefined ? section : {
+            ...section,
+            copies: paths.filter((_, other) => other !== index && sections[other].broadcastOf === section.broadcastOf)
+        });
     }
 
     /**
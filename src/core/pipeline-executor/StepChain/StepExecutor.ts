@@ -5,13 +5,18 @@
 import { App } from 'obsidian';
 import { WhisperStepProcessor } from '../whisper-step';
 import { ChatStepExecutor } from './ChatStepExecutor';
-import { resolveStepFromSettings } from '../../../validation';
+import { sumUsage } from '../../usage-ledger';
+import { isTransientApiError } from '../../../api/chat-utils';
+import { resolveStepChainFromSettings } from '../../../validation';
 import {
     ContentPipelineSettings,
     FileInfo,
     ProcessingResult,
     ProcessingStatus,
-    ResolvedPipelineStep
+    ProcessingUsage,
+    ResolvedPipelineStep,
+    StepExecutionOptions,
+    UsageListener
 } from '../../../types';
 import { ContentPipelineError } from '../../../errors';
 import { createLogger } from '../../../logger';
@@ -27,59 +32,179 @@ export class StepExecutor {
     constructor(app: App, settings: ContentPipelineSettings) {
         this.app = app;
         this.settings = settings;
-        this.whisperProcessor = new WhisperStepProcessor(app);
+        this.whisperProcessor = new WhisperStepProcessor(app, settings);
         this.chatExecutor = new ChatStepExecutor(app, settings);
     }
 
     async execute(
         stepId: string,
-        fileInfo: FileInfo
+        fileInfo: FileInfo,
+        options: StepExecutionOptions = {}
+    ): Promise<ProcessingResult> {
+        return await this.executeWithFailover(stepId, fileInfo, options, (resolvedStep, onUsage) =>
+            this.executeWithModel(stepId, fileInfo, resolvedStep, options, onUsage)
+        );
+    }
+
+    /**
+     * Execute an aggregating step with all files of its batch in one request
+     *
+     * The result lists every input file, whether the batch completed or failed.
+     */
+    async executeAggregate(
+        stepId: string,
+        files: FileInfo[],
+        options: StepExecutionOptions = {}
+    ): Promise<ProcessingResult> {
+        const result = await this.executeWithFailover(stepId, files[0], options, async (resolvedStep, onUsage) => {
+            if (options.dryRun) {
+                throw new ContentPipelineError(`Dry runs are not supported for aggregating step "${stepId}"`);
+            }
+            this.validateApiKey(stepId, resolvedStep);
+            return await this.chatExecutor.executeAggregate(stepId, files, resolvedStep, options.signal, onUsage);
+        });
+
+        return { ...result, inputFiles: files };
+    }
+
+    /**
+     * Run the step with each model config of its failover chain until one succeeds or fails
+     * with an error that is not transient
+     *
+     * Usage billed by attempts that produced no result is kept on the result as failedUsage.
+     *
+     * @param fileInfo - Input file, checked to still be in place before falling back
+     */
+    private async executeWithFailover(
+        stepId: string,
+        fileInfo: FileInfo,
+        options: StepExecutionOptions,
+        executeWithModel: (resolvedStep: ResolvedPipelineStep, onUsage: UsageListener) => Promise<ProcessingResult>
     ): Promise<ProcessingResult> {
         const startTime = new Date();
+        const failures: string[] = [];
+        const failedUsage: ProcessingUsage[] = [];
+        let attemptedModelConfig: string | undefined;
 
         try {
             logger.info(`Executing step: ${stepId} for file: ${fileInfo.path}`);
 
-            // Resolve step configuration using centralized configuration service
-            const resolvedStep = this.resolveStep(stepId);
+            // Resolve the step once per model config of its failover chain
+            const resolvedSteps = this.resolveStepChain(stepId);
 
-            // Validate API key exists
-            if (!resolvedStep.modelConfig.apiKey || resolvedStep.modelConfig.apiKey.trim() === '') {
-                throw new ContentPipelineError(`No API key configured for step "${stepId}"`);
-            }
+            for (const [index, resolvedStep] of resolvedSteps.entries()) {
+                const hasFallback = index < resolvedSteps.length - 1;
+                const attemptUsage: ProcessingUsage[] = [];
+                attemptedModelConfig = resolvedStep.modelConfigId;
 
-            // Route to appropriate processor based on model implementation
-            const implementation = resolvedStep.modelConfig.implementation;
+                try {
+                    const result = await executeWithModel(resolvedStep, usage => attemptUsage.push(usage));
+                    return failedUsage.length > 0 ? { ...result, failedUsage } : result;
+                } catch (error) {
+                    const spent = sumUsage(attemptUsage);
+                    if (spent) {
+                        failedUsage.push(spent);
+                    }
 
-            if (implementation === 'whisper' && WhisperStepProcessor.isAudioFile(fileInfo)) {
-                return await this.whisperProcessor.executeWhisperStep(stepId, fileInfo, resolvedStep);
-            } else if (implementation === 'chatgpt') {
-                return await this.chatExecutor.execute(stepId, fileInfo, resolvedStep);
+                    // A cancelled file does not fall through to the next model config
+                    if (options.signal?.aborted) {
+                        throw error;
+                    }
+
+                    failures.push(`${resolvedStep.modelConfigId}: ${error instanceof Error ? error.message : String(error)}`);
+
+                    // Clients retry transient errors themselves, so anything thrown here is final for this
+                    // model. Only provider errors are worth another model: a bad request or response would
+                    // fail (and be billed) the same way. Falling through is only safe while nothing has been
+                    // archived or written yet.
+                    if (!hasFallback || !isTransientApiError(error) || !this.isInputUntouched(fileInfo)) {
+                        throw failures.length === 1 ? error : this.createChainError(stepId, failures);
+                    }
+
+                    logger.warn(`Model config "${resolvedStep.modelConfigId}" failed for step ${stepId}, falling back to "${resolvedSteps[index + 1].modelConfigId}"`, error);
+                }
             }
 
-            // Unsupported implementation
-            throw new ContentPipelineError(`Unsupported model implementation: ${implementation}`);
+            throw this.createChainError(stepId, failures);
 
         } catch (error) {
-            logger.error(`Step execution failed: ${stepId}`, error);
+            const cancelled = options.signal?.aborted === true;
+            if (cancelled) {
+                logger.info(`Step execution cancelled: ${stepId} for file: ${fileInfo.path}`);
+            } else {
+                logger.error(`Step execution failed: ${stepId}`, error);
+            }
 
             // Return failed result instead of throwing
             return {
                 inputFile: fileInfo,
-                status: ProcessingStatus.FAILED,
+                status: cancelled ? ProcessingStatus.CANCELLED : ProcessingStatus.FAILED,
                 outputFiles: [],
                 startTime,
                 endTime: new Date(),
                 stepId,
-                error: error instanceof Error ? error.message : String(error)
+                error: error instanceof Error ? error.message : String(error),
+                ...(attemptedModelConfig && { failedModelConfig: attemptedModelConfig }),
+                ...(failedUsage.length > 0 && { failedUsage })
             };
         }
     }
 
     /**
-     * Resolve pipeline step using centralized validation function
+     * Execute the step with a single model config of its chain
+     *
+     * Dry runs are routed to the processors' preview methods, which never archive or write.
+     */
+    private async executeWithModel(
+        stepId: string,
+        fileInfo: FileInfo,
+        resolvedStep: ResolvedPipelineStep,
+        options: StepExecutionOptions,
+        onUsage: UsageListener
+    ): Promise<ProcessingResult> {
+        this.validateApiKey(stepId, resolvedStep);
+
+        // Route to appropriate processor based on model implementation
+        const implementation = resolvedStep.modelConfig.implementation;
+
+        if (implementation === 'whisper' && WhisperStepProcessor.isAudioFile(fileInfo)) {
+            return options.dryRun
+                ? await this.whisperProcessor.previewWhisperStep(stepId, fileInfo, resolvedStep, options.dryRun, options.signal, onUsage)
+                : await this.whisperProcessor.executeWhisperStep(stepId, fileInfo, resolvedStep, options.signal, onUsage);
+        } else if ((implementation === 'chatgpt' || implementation === 'claude') && resolvedStep.aggregate && !options.dryRun) {
+            // A single file of an aggregating step (e.g. processed from the file menu) is a batch of one
+            return await this.chatExecutor.executeAggregate(stepId, [fileInfo], resolvedStep, options.signal, onUsage);
+        } else if (implementation === 'chatgpt' || implementation === 'claude') {
+            return options.dryRun
+                ? await this.chatExecutor.preview(stepId, fileInfo, resolvedStep, options.dryRun, options.signal, onUsage)
+                : await this.chatExecutor.execute(stepId, fileInfo, resolvedStep, options.signal, onUsage);
+        }
+
+        // Unsupported implementation
+        throw new ContentPipelineError(`Unsupported model implementation: ${implementation}`);
+    }
+
+    private validateApiKey(stepId: string, resolvedStep: ResolvedPipelineStep): void {
+        if (!resolvedStep.modelConfig.apiKey || resolvedStep.modelConfig.apiKey.trim() === '') {
+            throw new ContentPipelineError(`No API key configured for step "${stepId}"`);
+        }
+    }
+
+    private createChainError(stepId: string, failures: string[]): ContentPipelineError {
+        return new ContentPipelineError(`All model configs failed for step "${stepId}": ${failures.join('; ')}`);
+    }
+
+    /**
+     * Whether the input file is still at its original path, i.e. it has not been archived yet
+     */
+    private isInputUntouched(fileInfo: FileInfo): boolean {
+        return this.app.vault.getAbstractFileByPath(fileInfo.path) !== null;
+    }
+
+    /**
+     * Resolve the step's model config chain using centralized validation function
      */
-    private resolveStep(stepId: string): ResolvedPipelineStep {
-        return resolveStepFromSettings(stepId, this.settings);
+    private resolveStepChain(stepId: string): ResolvedPipelineStep[] {
+        return resolveStepChainFromSettings(stepId, this.settings);
     }
 }
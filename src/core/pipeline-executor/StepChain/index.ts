@@ -6,9 +6,11 @@ import { App } from 'obsidian';
 import { StepExecutor } from './StepExecutor';
 import { ChainExecutor } from './ChainExecutor';
 import {
+    ChainResultNode,
     ContentPipelineSettings,
     FileInfo,
-    ProcessingResult
+    ProcessingResult,
+    StepExecutionOptions
 } from '../../../types';
 import { createLogger } from '../../../logger';
 
@@ -20,21 +22,33 @@ export class StepChain {
 
     constructor(app: App, settings: ContentPipelineSettings) {
         this.stepExecutor = new StepExecutor(app, settings);
-        this.chainExecutor = new ChainExecutor(app, this.stepExecutor);
+        this.chainExecutor = new ChainExecutor(app, settings, this.stepExecutor);
         logger.debug('StepChain initialized with dual configuration support');
     }
 
     async executeStep(
         stepId: string,
-        fileInfo: FileInfo
+        fileInfo: FileInfo,
+        options: StepExecutionOptions = {}
     ): Promise<ProcessingResult> {
-        return await this.stepExecutor.execute(stepId, fileInfo);
+        return await this.stepExecutor.execute(stepId, fileInfo, options);
+    }
+
+    async executeAggregate(
+        stepId: string,
+        files: FileInfo[],
+        options: StepExecutionOptions = {}
+    ): Promise<ProcessingResult> {
+        return await this.stepExecutor.executeAggregate(stepId, files, options);
     }
 
     async executeChain(
         startStepId: string,
-        inputFile: FileInfo
-    ): Promise<ProcessingResult> {
-        return await this.chainExecutor.execute(startStepId, inputFile);
+        inputFile: FileInfo,
+        options: StepExecutionOptions = {}
+    ): Promise<ChainResultNode> {
+        return await this.chainExecutor.execute(startStepId, inputFile, options);
     }
 }
+
+export { flattenChainResults, collectFinalOutputs } from './ChainExecutor';
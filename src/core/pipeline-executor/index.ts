@@ -5,4 +5,4 @@
  */
 export { PipelineExecutor } from './pipeline-executor';
 export { ExecutionState } from './execution-state';
-export { StepChain } from './StepChain';
+export { StepChain, flattenChainResults, collectFinalOutputs } from './StepChain';
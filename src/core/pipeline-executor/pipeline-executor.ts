@@ -5,14 +5,20 @@
 import { App } from 'obsidian';
 import { ExecutionState } from './execution-state';
 import { FileDiscovery } from '../file-operations';
+import { FileDiscoveryResult } from '../file-operations/types';
 import { StepChain } from './StepChain';
+import { JobStore } from '../job-store';
+import { FailedFileHandler } from '../failed-files';
 import { getValidatedPipelineConfiguration } from '../../validation';
 import {
+    ChainResultNode,
     ContentPipelineSettings,
     PipelineConfiguration,
     FileInfo,
     ProcessingResult,
-    ProcessingStatus
+    ProcessingStatus,
+    DryRunMode,
+    StepExecutionOptions
 } from '../../types';
 import { createLogger } from '../../logger';
 
@@ -21,11 +27,28 @@ const logger = createLogger('PipelineExecutor');
 interface ExecutionOptions {
     continueOnError?: boolean;
     maxFiles?: number;
+    /** Preview files instead of processing them; nothing is archived or written */
+    dryRun?: DryRunMode;
+    /** Cancels the file in progress */
+    signal?: AbortSignal;
 }
 
 interface BatchProcessingOptions {
     maxIterations?: number;
     continueOnError?: boolean;
+    /** Number of files processed at the same time (defaults to 1) */
+    concurrency?: number;
+    /** Preview files instead of processing them; nothing is archived or written */
+    dryRun?: DryRunMode;
+    /** Stops claiming files and cancels the files in progress */
+    signal?: AbortSignal;
+}
+
+interface SettledFile {
+    iteration: number;
+    fileToProcess: FileDiscoveryResult;
+    result?: ProcessingResult;
+    error?: unknown;
 }
 
 export class PipelineExecutor {
@@ -33,12 +56,20 @@ export class PipelineExecutor {
     private executionState: ExecutionState;
     private fileDiscovery: FileDiscovery;
     private stepChain: StepChain;
+    private jobStore?: JobStore;
+    private failedFiles?: FailedFileHandler;
 
-    constructor(app: App, settings: ContentPipelineSettings) {
+    /**
+     * @param jobStore - Persists job state and run history of batch runs (optional);
+     *                   failed files of recorded runs get error notes and are quarantined
+     */
+    constructor(app: App, settings: ContentPipelineSettings, jobStore?: JobStore) {
         this.settings = settings;
         this.executionState = new ExecutionState();
         this.fileDiscovery = new FileDiscovery(app);
         this.stepChain = new StepChain(app, settings);
+        this.jobStore = jobStore;
+        this.failedFiles = jobStore && new FailedFileHandler(app, settings, jobStore);
         logger.debug('PipelineExecutor initialized with dual configuration support');
     }
 
@@ -48,14 +79,16 @@ export class PipelineExecutor {
      * This is now just the degenerate case of batch processing with maxIterations: 1
      */
     async processNextFile(options: ExecutionOptions = {}): Promise<ProcessingResult> {
-        const { continueOnError = false } = options;
+        const { continueOnError = false, dryRun, signal } = options;
 
         logger.info('Starting single file processing');
 
         // Single file processing is just batch processing with limit 1
         for await (const result of this.processAllFilesIterator({ 
             maxIterations: 1, 
-            continueOnError 
+            continueOnError,
+            dryRun,
+            signal
         })) {
             logger.info(`Single file processing completed: ${result.inputFile.name} → ${result.status}`);
             return result;
@@ -73,65 +106,99 @@ export class PipelineExecutor {
      * This method returns an async generator that yields processing results
      * while maintaining its own state, eliminating the need for external
      * loop management and safety mechanisms.
+     *
+     * Up to `concurrency` files are processed at the same time and results are
+     * yielded in completion order. Files are claimed in the exclude set before
+     * processing starts, so no file is picked up twice.
+     *
+     * With a job store, the batch is recorded as a run and continues an
+     * interrupted run, skipping the files that already failed in it. Failed
+     * files get an error note and are quarantined after too many failures.
+     * Dry runs are not recorded.
+     *
+     * Aborting the signal stops claiming files; files in progress are cancelled
+     * before they are archived and yielded with status CANCELLED.
+     *
+     * Once no single file is left, ready batches of aggregating steps are
+     * claimed and processed as one file each. Dry runs skip them.
      */
     async* processAllFilesIterator(options: BatchProcessingOptions = {}): AsyncGenerator<ProcessingResult, void, unknown> {
         const {
             maxIterations = 100,
-            continueOnError = true
+            continueOnError = true,
+            concurrency = 1,
+            dryRun,
+            signal
         } = options;
+        const maxInFlight = Math.max(1, Math.floor(concurrency));
+        const jobStore = dryRun ? undefined : this.jobStore;
 
-        logger.info('Starting batch processing iterator');
+        logger.info(`Starting batch processing iterator (concurrency: ${maxInFlight}${dryRun ? `, dry run: ${dryRun}` : ''})`);
         
-        const processedFiles = new Set<string>();
+        const runStart = await jobStore?.startRun();
+        const runId = runStart?.run.id;
+        const processedFiles = new Set<string>(runId ? jobStore?.getFailedPaths(runId) : []);
+        const inFlight = new Map<number, Promise<SettledFile>>();
         let currentIteration = 0;
+        let noFilesAvailable = false;
+
+        this.executionState.startProcessing();
 
         try {
-            while (currentIteration < maxIterations) {
-                currentIteration++;
-                
-                // Find next available file using persistent exclude set
-                const config = this.getPipelineConfiguration();
-                const fileToProcess = await this.fileDiscovery.findNextAvailableFile(
-                    config,
-                    processedFiles
-                );
-
-                if (!fileToProcess) {
-                    logger.info('No more files available for batch processing');
+            while (true) {
+                // Claim files until the concurrency limit is reached or no file is available
+                while (!noFilesAvailable && !signal?.aborted && inFlight.size < maxInFlight && currentIteration < maxIterations) {
+                    // Find next available file using persistent exclude set
+                    const config = this.getPipelineConfiguration();
+                    const fileToProcess = await this.fileDiscovery.findNextAvailableFile(
+                        config,
+                        processedFiles
+                    ) ?? (dryRun ? null : await this.fileDiscovery.findReadyAggregation(config, processedFiles));
+
+                    if (!fileToProcess) {
+                        noFilesAvailable = true;
+                        break;
+                    }
+
+                    currentIteration++;
+
+                    // Track the file (or batch) we're about to process
+                    this.getClaimedFiles(fileToProcess).forEach(file => processedFiles.add(file.path));
+                    this.executionState.addActiveFile(fileToProcess.file.path);
+                    inFlight.set(currentIteration, this.processClaimedFile(currentIteration, fileToProcess, { dryRun, signal }, jobStore, runId));
+                }
+
+                if (inFlight.size === 0) {
+                    if (signal?.aborted) {
+                        logger.info('Batch processing cancelled');
+                    } else if (noFilesAvailable) {
+                        logger.info('No more files available for batch processing');
+                    }
                     break;
                 }
 
-                // Track the file we're about to process
-                processedFiles.add(fileToProcess.file.path);
+                const settled = await Promise.race(inFlight.values());
+                inFlight.delete(settled.iteration);
+                this.executionState.removeActiveFile(settled.fileToProcess.file.path);
+
+                // Outputs of the completed file may be inputs of the next step
+                noFilesAvailable = false;
 
-                try {
-                    // Execute the step directly
-                    const result = await this.stepChain.executeStep(
-                        fileToProcess.stepId,
-                        fileToProcess.file
-                    );
+                const result = this.getSettledResult(settled);
+                await this.recordResult(result, jobStore, runId);
 
-                    logger.info(`Batch processing iteration ${currentIteration}: ${fileToProcess.file.name} → ${result.status}`);
+                if (settled.result) {
+                    logger.info(`Batch processing iteration ${settled.iteration}: ${settled.fileToProcess.file.name} → ${result.status}`);
                     yield result;
+                    continue;
+                }
 
-                } catch (error) {
-                    const errorResult: ProcessingResult = {
-                        inputFile: this.createFileInfo(fileToProcess.file),
-                        status: ProcessingStatus.FAILED,
-                        outputFiles: [],
-                        startTime: new Date(),
-                        endTime: new Date(),
-                        stepId: fileToProcess.stepId,
-                        error: error instanceof Error ? error.message : String(error)
-                    };
-
-                    logger.warn(`Batch processing iteration ${currentIteration} failed: ${error}`);
-                    
-                    if (continueOnError) {
-                        yield errorResult;
-                    } else {
-                        throw error;
-                    }
+                logger.warn(`Batch processing iteration ${settled.iteration} failed: ${settled.error}`);
+                
+                if (continueOnError) {
+                    yield result;
+                } else {
+                    throw settled.error;
                 }
             }
 
@@ -140,13 +207,129 @@ export class PipelineExecutor {
             }
 
         } finally {
+            // Files still in flight (early exit or error) are finished before the iterator ends
+            if (inFlight.size > 0) {
+                logger.info(`Waiting for ${inFlight.size} file(s) still being processed`);
+                for (const settled of await Promise.all(inFlight.values())) {
+                    await this.recordResult(this.getSettledResult(settled), jobStore, runId);
+                }
+            }
+            if (runId) {
+                await jobStore?.finishRun(runId);
+            }
+            this.executionState.endProcessing();
             logger.info(`Batch processing iterator completed: ${currentIteration} iterations, ${processedFiles.size} unique files`);
         }
     }
 
-    async executeStep(stepId: string, fileInfo: FileInfo): Promise<ProcessingResult> {
+    /**
+     * Send the waiting batches of all aggregating steps, regardless of their triggers
+     */
+    async processAggregateStepsNow(options: ExecutionOptions = {}): Promise<ProcessingResult[]> {
+        const { signal } = options;
+        const claimedFiles = new Set<string>();
+        const results: ProcessingResult[] = [];
+
+        this.executionState.startProcessing();
+
+        try {
+            while (!signal?.aborted) {
+                const batch = await this.fileDiscovery.findReadyAggregation(this.getPipelineConfiguration(), claimedFiles, true);
+                if (!batch) {
+                    break;
+                }
+
+                this.getClaimedFiles(batch).forEach(file => claimedFiles.add(file.path));
+                this.executionState.addActiveFile(batch.file.path);
+
+                const settled = await this.processClaimedFile(results.length + 1, batch, { signal }, this.jobStore);
+                this.executionState.removeActiveFile(batch.file.path);
+
+                const result = this.getSettledResult(settled);
+                await this.recordResult(result, this.jobStore);
+                logger.info(`Aggregating step ${batch.stepId}: ${this.getClaimedFiles(batch).length} files → ${result.status}`);
+                results.push(result);
+            }
+        } finally {
+            this.executionState.endProcessing();
+        }
+
+        return results;
+    }
+
+    /**
+     * Record a result in the job store, then write the error notes and quarantine the inputs of a failure
+     */
+    private async recordResult(result: ProcessingResult, jobStore?: JobStore, runId?: string): Promise<void> {
+        if (!jobStore) {
+            return;
+        }
+
+        await jobStore.recordResult(result, runId);
+        await this.failedFiles?.handleResult(result);
+    }
+
+    /**
+     * Input files claimed with a discovery result: the batch of aggregating steps, otherwise the file
+     */
+    private getClaimedFiles(fileToProcess: FileDiscoveryResult): FileInfo[] {
+        return fileToProcess.files || [fileToProcess.file];
+    }
+
+    /**
+     * Processing result of a settled file, with errors turned into a FAILED result
+     */
+    private getSettledResult(settled: SettledFile): ProcessingResult {
+        if (settled.result) {
+            return settled.result;
+        }
+
+        return {
+            inputFile: this.createFileInfo(settled.fileToProcess.file),
+            status: ProcessingStatus.FAILED,
+            outputFiles: [],
+            startTime: new Date(),
+            endTime: new Date(),
+            stepId: settled.fileToProcess.stepId,
+            ...(settled.fileToProcess.files && { inputFiles: settled.fileToProcess.files }),
+            error: settled.error instanceof Error ? settled.error.message : String(settled.error)
+        };
+    }
+
+    /**
+     * Execute the step of a claimed file, capturing errors so the batch can settle files in any order
+     */
+    private async processClaimedFile(
+        iteration: number,
+        fileToProcess: FileDiscoveryResult,
+        stepOptions: StepExecutionOptions,
+        jobStore?: JobStore,
+        runId?: string
+    ): Promise<SettledFile> {
+        try {
+            for (const file of this.getClaimedFiles(fileToProcess)) {
+                await jobStore?.markProcessing(fileToProcess.stepId, file, runId);
+            }
+
+            const result = fileToProcess.files
+                ? await this.stepChain.executeAggregate(fileToProcess.stepId, fileToProcess.files, stepOptions)
+                : await this.stepChain.executeStep(fileToProcess.stepId, fileToProcess.file, stepOptions);
+            return { iteration, fileToProcess, result };
+        } catch (error) {
+            return { iteration, fileToProcess, error };
+        }
+    }
+
+    async executeStep(stepId: string, fileInfo: FileInfo, options: StepExecutionOptions = {}): Promise<ProcessingResult> {
         // StepChain now handles configuration resolution internally
-        return await this.stepChain.executeStep(stepId, fileInfo);
+        return await this.stepChain.executeStep(stepId, fileInfo, options);
+    }
+
+    /**
+     * Run a file through its step and every following step; results are not recorded
+     */
+    async executeChain(stepId: string, fileInfo: FileInfo, options: StepExecutionOptions = {}): Promise<ChainResultNode> {
+        return await this.stepChain.executeChain(stepId, fileInfo, options);
     }
 
     getExecutionStatus() {
@@ -5,21 +5,35 @@
 import { App, TFile } from 'obsidian';
 import { normalizeDirectoryPath } from '../path-operations/normalize-directory-path';
 import { buildOutputPath } from '../path-operations/build-output-path';
-import { buildArchivePath } from '../path-operations/build-archive-path';
-import { extractDirectoryPath } from '../path-operations/extract-directory-path';
-import { extractFilename } from '../path-operations/extract-filename';
+import { resolveOutputCollision } from '../path-operations/resolve-collision';
 import { FilenameResolver } from '../FilenameResolver';
 import { FileOperations } from '../file-operations';
+import { PromptBuilder } from '../prompt-builder';
 import { WhisperClient } from '../../api';
+import { WHISPER_LIMITS, TranscriptionOptions, TranscriptionResult } from '../../api/whisper-types';
+import { splitAudioIntoChunks, getTranscriptTail, stitchTranscripts, appendChunkSegments } from '../../api/whisper-chunking';
+import { formatTimestampedTranscript, formatSubtitles } from '../../api/whisper-transcript';
+import { getRateLimiter } from '../../api/rate-limiter';
+import { resolveOutputDirectories } from '../path-operations/resolve-output-directories';
+import { RoutingRuleMatcher } from '../routing-rules';
+import { StepCommit, withCommitLock } from '../step-commit';
 import {
     FileInfo,
     ProcessingResult,
     ProcessingStatus,
+    ProcessingUsage,
+    UsageListener,
     ResolvedPipelineStep,
     ProcessingContext,
+    DryRunMode,
+    DryRunOutput,
+    DryRunPreview,
+    ContentPipelineSettings,
     FileMetadata,
+    FileCollision,
     isRoutingAwareOutput,
-    RoutingAwareOutput
+    RoutingAwareOutput,
+    RoutingRuleMatch
 } from '../../types';
 import { ContentPipelineError } from '../../errors';
 import { createLogger } from '../../logger';
@@ -29,123 +43,89 @@ const logger = createLogger('WhisperStep');
 export class WhisperStepProcessor {
     private app: App;
     private fileOps: FileOperations;
+    private promptBuilder: PromptBuilder;
+    private routingRules: RoutingRuleMatcher;
 
-    constructor(app: App) {
+    constructor(app: App, settings?: ContentPipelineSettings) {
         this.app = app;
         this.fileOps = new FileOperations(app);
+        this.promptBuilder = new PromptBuilder(app, settings);
+        this.routingRules = new RoutingRuleMatcher(app);
     }
 
+    /**
+     * @param signal - Cancels the transcription; once it has completed the file is archived and written in full
+     * @param onUsage - Receives the usage of every transcription request, also when the step fails afterwards
+     */
     async executeWhisperStep(
         stepId: string,
         fileInfo: FileInfo,
-        resolvedStep: ResolvedPipelineStep
+        resolvedStep: ResolvedPipelineStep,
+        signal?: AbortSignal,
+        onUsage?: UsageListener
     ): Promise<ProcessingResult> {
         const startTime = new Date();
 
         try {
             logger.info(`Starting Whisper transcription: ${fileInfo.name} with ${resolvedStep.modelConfig.model}`);
 
-            // Read audio file
-            const audioBuffer = await this.readAudioFile(fileInfo.path);
-
-            // Create Whisper client and transcribe using resolved model config
-            const whisperClient = new WhisperClient({
-                apiKey: resolvedStep.modelConfig.apiKey,
-                baseUrl: resolvedStep.modelConfig.baseUrl,
-                organization: resolvedStep.modelConfig.organization
+            // Step prompt files carry vocabulary and spelling hints for Whisper
+            const prompt = await this.promptBuilder.buildTranscriptionPrompt(resolvedStep);
+            const transcription = await this.transcribe(fileInfo, resolvedStep, prompt, signal, onUsage);
+
+            // Content conditions of routing rules are tested against the transcript
+            const ruleMatch = await this.routingRules.match(fileInfo, resolvedStep.routingRules, transcription.text);
+
+            // Last point to stop before the vault is changed
+            signal?.throwIfAborted();
+
+            // Outputs link to the archive path the recording will be moved to once they are written
+            const collisions: FileCollision[] = [];
+            const { plan, archiveResult, outputOperations } = await withCommitLock(async () => {
+                const plannedArchivePath = await this.fileOps.getArchivePath(fileInfo.path, resolvedStep.archive, resolvedStep.onCollision);
+                const plan = this.planOutputs(transcription, fileInfo, stepId, resolvedStep, plannedArchivePath, ruleMatch, collisions);
+
+                const { archiveResults: [archiveResult], outputOperations } = await new StepCommit(this.app).commit(
+                    plan.outputs,
+                    [{ path: fileInfo.path, archivePath: plannedArchivePath }],
+                    resolvedStep.archive,
+                    resolvedStep.onCollision
+                );
+                return { plan, archiveResult, outputOperations };
             });
-
-            const transcriptionResult = await whisperClient.transcribeAudio(
-                audioBuffer,
-                fileInfo.name,
-                { responseFormat: 'text' }
-            );
-
-            // Archive original file first and capture archive path
-            const archivePath = await this.archiveFile(fileInfo.path, resolvedStep.archive, fileInfo);
-
-            // Create processing context for simplified output resolution
-            const context: ProcessingContext = {
-                filename: FilenameResolver.getBasename(fileInfo.path),
-                timestamp: new Date().toISOString(),
-                date: new Date().toISOString().split('T')[0],
-                archivePath,
-                stepId,
-                inputPath: fileInfo.path,
-                outputPath: '' // Will be resolved using path operations
-            };
-
-            // Determine next step and routing for Whisper step
-            let nextStep: string | undefined;
-            const usedDefaultFallback = false;
-
-            // For Whisper steps, determine routing based on routing-aware output configuration
-            const availableNextSteps = this.getAvailableNextSteps(resolvedStep);
-            if (availableNextSteps.length > 0) {
-                // For Whisper, typically take the first (or only) available next step
-                // Could be enhanced with content analysis in the future
-                nextStep = availableNextSteps[0];
-                logger.debug(`Whisper step routing to: ${nextStep}`);
+            const archivePath = archiveResult.archivePath;
+            if (archiveResult.collision) {
+                collisions.push(archiveResult.collision);
             }
 
-            // Resolve output directory using simplified logic
-            const outputDirectory = this.resolveOutputDirectory(resolvedStep, nextStep);
-
-            // Add routing decision to context
-            context.routingDecision = {
-                nextStep,
-                usedDefaultFallback,
-                resolvedOutputPath: outputDirectory,
-                availableOptions: availableNextSteps
-            };
-
-            // Format and save output with clean metadata
-            const outputContent = this.formatTranscriptionOutput(
-                transcriptionResult.text,
-                fileInfo,
-                stepId,
-                archivePath,
-                context
-            );
-
-            // Build output path using path operations
-            const effectiveFilename = FilenameResolver.resolveOutputFilename(
-                undefined, // Whisper doesn't get LLM filename suggestions
-                context.filename
-            );
-            const extension = FilenameResolver.getExtensionForStepType(stepId);
-            const outputPath = buildOutputPath(
-                outputDirectory,
-                effectiveFilename,
-                extension
-            );
-
-            await this.fileOps.writeFile(outputPath, outputContent, {
-                createDirectories: true,
-                overwrite: true
-            });
+            const outputFiles = plan.outputs.map(output => output.path);
+            const outputPath = outputFiles[0];
 
-            logger.info(`Whisper transcription completed with simplified output: ${fileInfo.name} → ${outputPath}, nextStep: ${nextStep || 'none'}`);
+            logger.info(`Whisper transcription completed with simplified output: ${fileInfo.name} → ${outputPath}, nextStep: ${plan.nextStep || 'none'}`);
 
             // Create routing decision metadata for result
             const routingDecision = {
-                availableOptions: availableNextSteps,
-                chosenOption: nextStep,
-                usedDefaultFallback,
+                availableOptions: plan.availableNextSteps,
+                chosenOption: plan.nextStep,
+                usedDefaultFallback: false,
                 resolvedOutputPath: outputPath,
-                routingConfig: this.getRoutingConfig(resolvedStep)
+                routingConfig: this.getRoutingConfig(resolvedStep),
+                ...(ruleMatch && { matchedRule: ruleMatch.index })
             };
 
             return {
                 inputFile: fileInfo,
                 status: ProcessingStatus.COMPLETED,
-                outputFiles: [outputPath],
+                outputFiles,
                 archivePath,
                 startTime,
                 endTime: new Date(),
                 stepId,
-                nextStep,
-                routingDecision
+                nextStep: plan.nextStep,
+                routingDecision,
+                usage: this.createUsage(resolvedStep, transcription),
+                outputOperations,
+                ...(collisions.length && { collisions })
             };
 
         } catch (error) {
@@ -154,6 +134,257 @@ export class WhisperStepProcessor {
         }
     }
 
+    /**
+     * Dry run of the step: assemble the transcription prompt and resolve the archive and output paths
+     *
+     * In 'api' mode the audio is transcribed as well and the planned output files are
+     * reported, but nothing is archived or written to the vault.
+     */
+    async previewWhisperStep(
+        stepId: string,
+        fileInfo: FileInfo,
+        resolvedStep: ResolvedPipelineStep,
+        mode: DryRunMode,
+        signal?: AbortSignal,
+        onUsage?: UsageListener
+    ): Promise<ProcessingResult> {
+        const startTime = new Date();
+        logger.info(`Starting Whisper dry run (${mode}): ${fileInfo.name} with ${resolvedStep.modelConfig.model}`);
+
+        const prompt = await this.promptBuilder.buildTranscriptionPrompt(resolvedStep);
+        const archivePath = await this.fileOps.getArchivePath(fileInfo.path, resolvedStep.archive, resolvedStep.onCollision);
+        const dryRun: DryRunPreview = {
+            mode,
+            modelConfigId: resolvedStep.modelConfigId,
+            model: resolvedStep.modelConfig.model,
+            prompt,
+            archivePath,
+            outputDirectories: resolveOutputDirectories(resolvedStep.routingAwareOutput || resolvedStep.output)
+        };
+
+        const result: ProcessingResult = {
+            inputFile: fileInfo,
+            status: ProcessingStatus.COMPLETED,
+            outputFiles: [],
+            startTime,
+            stepId,
+            dryRun
+        };
+
+        if (mode === 'api') {
+            const transcription = await this.transcribe(fileInfo, resolvedStep, prompt, signal, onUsage);
+            const ruleMatch = await this.routingRules.match(fileInfo, resolvedStep.routingRules, transcription.text);
+            const plan = this.planOutputs(transcription, fileInfo, stepId, resolvedStep, archivePath, ruleMatch);
+            dryRun.plannedOutputs = plan.outputs;
+            if (ruleMatch) {
+                dryRun.matchedRule = ruleMatch;
+            }
+            result.nextStep = plan.nextStep;
+            result.usage = this.createUsage(resolvedStep, transcription);
+        }
+
+        result.endTime = new Date();
+        return result;
+    }
+
+    /**
+     * Read the audio file and transcribe it with the resolved model config
+     */
+    private async transcribe(
+        fileInfo: FileInfo,
+        resolvedStep: ResolvedPipelineStep,
+        prompt: string,
+        signal?: AbortSignal,
+        onUsage?: UsageListener
+    ): Promise<Pick<TranscriptionResult, 'text' | 'segments' | 'audioDuration'>> {
+        // Read audio file
+        const audioBuffer = await this.readAudioFile(fileInfo.path);
+
+        // Create Whisper client and transcribe using resolved model config
+        const whisperClient = new WhisperClient({
+            apiKey: resolvedStep.modelConfig.apiKey,
+            baseUrl: resolvedStep.modelConfig.baseUrl,
+            organization: resolvedStep.modelConfig.organization,
+            rateLimiter: getRateLimiter(resolvedStep.modelConfigId || resolvedStep.modelConfig.model, resolvedStep.modelConfig.rateLimit),
+            signal,
+            // Long recordings can need more than the default timeout to upload
+            ...(resolvedStep.options?.timeout !== undefined && { timeout: resolvedStep.options.timeout })
+        });
+
+        // verbose_json reports segment timing and the audio duration used for the usage ledger
+        const options: TranscriptionOptions = {
+            responseFormat: 'verbose_json',
+            language: resolvedStep.language,
+            temperature: resolvedStep.temperature,
+            prompt: prompt || undefined
+        };
+
+        const reportUsage = (audioDuration?: number) => onUsage?.(this.createUsage(resolvedStep, { audioDuration }));
+
+        // Recordings above the upload limit are transcribed in overlapping chunks
+        if (audioBuffer.byteLength > WHISPER_LIMITS.maxFileSize) {
+            return await this.transcribeInChunks(whisperClient, audioBuffer, fileInfo, options, reportUsage);
+        }
+
+        const transcription = await whisperClient.transcribeAudio(audioBuffer, fileInfo.name, options);
+        reportUsage(transcription.audioDuration);
+        return transcription;
+    }
+
+    /**
+     * Resolve the transcript and subtitle files for a transcription
+     */
+    private planOutputs(
+        transcription: Pick<TranscriptionResult, 'text' | 'segments'>,
+        fileInfo: FileInfo,
+        stepId: string,
+        resolvedStep: ResolvedPipelineStep,
+        archivePath: string,
+        ruleMatch?: RoutingRuleMatch,
+        collisions?: FileCollision[]
+    ): { outputs: DryRunOutput[]; nextStep?: string; availableNextSteps: string[] } {
+        // Timestamps link to the recording at its archive path
+        const transcriptionText = resolvedStep.transcriptFormat === 'timestamped' && transcription.segments?.length
+            ? formatTimestampedTranscript(transcription.segments, archivePath)
+            : transcription.text;
+
+        // Create processing context for simplified output resolution
+        const context: ProcessingContext = {
+            filename: FilenameResolver.getBasename(fileInfo.path),
+            timestamp: new Date().toISOString(),
+            date: new Date().toISOString().split('T')[0],
+            archivePath,
+            stepId,
+            modelConfigId: resolvedStep.modelConfigId,
+            model: resolvedStep.modelConfig.model,
+            inputPath: fileInfo.path,
+            outputPath: '', // Will be resolved using path operations
+            ...(resolvedStep.requiresApproval && { reviewStatus: 'pending-review' })
+        };
+
+        // Determine next step and routing for Whisper step
+        let nextStep: string | undefined;
+
+        // For Whisper steps, determine routing based on routing-aware output configuration
+        const availableNextSteps = this.getAvailableNextSteps(resolvedStep);
+        if (ruleMatch) {
+            nextStep = ruleMatch.rule.nextStep;
+            logger.debug(`Whisper step routing to ${nextStep} by routing rule ${ruleMatch.index}`);
+        } else if (availableNextSteps.length > 0) {
+            // Without a matching routing rule, take the first (or only) available next step
+            nextStep = availableNextSteps[0];
+            logger.debug(`Whisper step routing to: ${nextStep}`);
+        }
+
+        // Build output path using path operations
+        const effectiveFilename = FilenameResolver.resolveOutputFilename(
+            undefined, // Whisper doesn't get LLM filename suggestions
+            context.filename
+        );
+        const extension = FilenameResolver.getExtensionForStepType(stepId);
+
+        // A broadcast key writes one linked copy of the transcript per target
+        const targets = (nextStep && resolvedStep.broadcast?.[nextStep]) || [nextStep];
+        const outputDirectories = targets.map(target => this.resolveOutputDirectory(resolvedStep, target));
+        const resolvePath = (path: string) =>
+            resolveOutputCollision(path, resolvedStep.onCollision || 'suffix', other => this.fileExists(other), collisions);
+        const transcriptPaths = outputDirectories.map(directory => resolvePath(buildOutputPath(directory, effectiveFilename, extension)));
+
+        const outputs: DryRunOutput[] = [];
+        targets.forEach((target, index) => {
+            // Add routing decision to context
+            const targetContext: ProcessingContext = {
+                ...context,
+                routingDecision: {
+                    nextStep: target,
+                    usedDefaultFallback: false,
+                    resolvedOutputPath: outputDirectories[index],
+                    availableOptions: availableNextSteps
+                }
+            };
+
+            outputs.push({
+                path: transcriptPaths[index],
+                ...(target && { nextStep: target }),
+                // Format output with clean metadata
+                content: this.formatTranscriptionOutput(
+                    transcriptionText,
+                    fileInfo,
+                    stepId,
+                    archivePath,
+                    targetContext,
+                    transcriptPaths.filter((_, other) => other !== index)
+                )
+            });
+
+            // Optional subtitle sidecar next to the transcript
+            if (resolvedStep.subtitles && transcription.segments?.length) {
+                outputs.push({
+                    path: resolvePath(buildOutputPath(outputDirectories[index], effectiveFilename, resolvedStep.subtitles)),
+                    content: formatSubtitles(transcription.segments, resolvedStep.subtitles)
+                });
+            }
+        });
+
+        return { outputs, nextStep: targets[0], availableNextSteps };
+    }
+
+    private createUsage(
+        resolvedStep: ResolvedPipelineStep,
+        transcription: Pick<TranscriptionResult, 'audioDuration'>
+    ): ProcessingUsage {
+        return {
+            modelConfig: resolvedStep.modelConfigId || resolvedStep.modelConfig.model,
+            model: resolvedStep.modelConfig.model,
+            promptTokens: 0,
+            completionTokens: 0,
+            audioSeconds: transcription.audioDuration || 0
+        };
+    }
+
+    /**
+     * Split oversized audio into chunks and transcribe them sequentially
+     *
+     * Each chunk receives the tail of the previous transcript after the step prompt
+     * so sentences and spelling carry over the chunk boundary.
+     *
+     * @param reportUsage - Called with the billed seconds of each chunk as soon as it is transcribed
+     */
+    private async transcribeInChunks(
+        whisperClient: WhisperClient,
+        audioBuffer: ArrayBuffer,
+        fileInfo: FileInfo,
+        options: TranscriptionOptions,
+        reportUsage: (audioDuration: number) => void
+    ): Promise<Pick<TranscriptionResult, 'text' | 'segments' | 'audioDuration'>> {
+        const chunks = await splitAudioIntoChunks(audioBuffer, fileInfo.name);
+        logger.info(`Audio exceeds ${WHISPER_LIMITS.maxFileSize} bytes, transcribing in ${chunks.length} chunks: ${fileInfo.name}`);
+
+        const parts: string[] = [];
+        let segments: TranscriptionResult['segments'];
+        let audioDuration = 0;
+        for (const chunk of chunks) {
+            const previousPart = parts[parts.length - 1];
+            const prompt = [options.prompt, previousPart && getTranscriptTail(previousPart)].filter(Boolean).join('\n\n');
+            const result = await whisperClient.transcribeAudio(chunk.data, chunk.filename, {
+                ...options,
+                prompt: prompt || undefined
+            });
+
+            logger.debug(`Transcribed chunk ${chunk.index + 1}/${chunks.length}: ${chunk.start}s-${chunk.end}s`);
+            parts.push(result.text);
+            // Every chunk is billed in full, including the overlap
+            const chunkDuration = result.audioDuration ?? chunk.end - chunk.start;
+            reportUsage(chunkDuration);
+            audioDuration += chunkDuration;
+            if (result.segments) {
+                segments = appendChunkSegments(segments || [], result.segments, chunk.start);
+            }
+        }
+
+        return { text: stitchTranscripts(parts), segments, audioDuration };
+    }
+
     /**
      * Get available next steps from routing-aware output only
      */
@@ -245,7 +476,8 @@ export class WhisperStepProcessor {
         fileInfo: FileInfo,
         stepId: string,
         archivePath: string,
-        context: ProcessingContext
+        context: ProcessingContext,
+        copies: string[] = []
     ): string {
         const timestamp = new Date().toISOString();
 
@@ -254,7 +486,11 @@ export class WhisperStepProcessor {
             source: archivePath,
             processed: timestamp,
             step: stepId,
-            nextStep: context.routingDecision?.nextStep
+            nextStep: context.routingDecision?.nextStep,
+            model: context.model,
+            modelConfig: context.modelConfigId,
+            copies,
+            status: context.reviewStatus
         };
 
         // Build clean frontmatter
@@ -265,68 +501,25 @@ export class WhisperStepProcessor {
         if (metadata.nextStep) {
             frontmatterLines.push(`nextStep: "${metadata.nextStep}"`);
         }
+        if (metadata.model) {
+            frontmatterLines.push(`model: "${metadata.model}"`);
+        }
+        if (metadata.modelConfig) {
+            frontmatterLines.push(`modelConfig: "${metadata.modelConfig}"`);
+        }
+        if (metadata.copies?.length) {
+            frontmatterLines.push('copies:');
+            metadata.copies.forEach(copy => frontmatterLines.push(`  - "[[${copy}]]"`));
+        }
+        if (metadata.status) {
+            frontmatterLines.push(`status: "${metadata.status}"`);
+        }
         frontmatterLines.push('---');
         frontmatterLines.push('');
 
         return frontmatterLines.join('\n') + text;
     }
 
-    private async archiveFile(sourcePath: string, archivePattern: string, fileInfo: FileInfo): Promise<string> {
-        try {
-            // Archive pattern should be step-based directory: inbox/archive/{stepId}/
-            const archiveDirectory = normalizeDirectoryPath(archivePattern);
-            const archivePath = buildArchivePath(archiveDirectory, fileInfo.name);
-
-            // Ensure archive directory exists
-            const archiveDir = extractDirectoryPath(archivePath);
-            if (archiveDir) {
-                await this.fileOps.ensureDirectory(archiveDir);
-            }
-
-            // Generate unique archive path to handle conflicts
-            const finalArchivePath = await this.generateUniqueFilename(archivePath);
-
-            // Move file to archive
-            const sourceFile = this.app.vault.getAbstractFileByPath(sourcePath);
-            if (sourceFile) {
-                await this.app.vault.rename(sourceFile, finalArchivePath);
-                logger.debug(`File archived: ${sourcePath} → ${finalArchivePath}`);
-                return finalArchivePath;
-            } else {
-                logger.warn(`Source file not found for archiving: ${sourcePath}`);
-                return sourcePath; // Return original path if source not found
-            }
-
-        } catch (error) {
-            const errorMsg = `Failed to archive file: ${sourcePath}. ${error instanceof Error ? error.message : String(error)}`;
-            logger.error(errorMsg);
-            
-            // Archiving failure should cause the entire processing step to fail
-            // This prevents the file from remaining in the input directory and causing infinite loops
-            throw new Error(`Whisper processing failed due to archiving error: ${errorMsg}`);
-        }
-    }
-
-    /**
-     * Generate a unique filename to avoid conflicts
-     */
-    private async generateUniqueFilename(basePath: string): Promise<string> {
-        let counter = 0;
-        let testPath = basePath;
-
-        while (this.fileExists(testPath)) {
-            counter++;
-            const dir = extractDirectoryPath(basePath);
-            const filename = extractFilename(basePath);
-            const basename = FilenameResolver.getBasename(filename);
-            const extension = filename.includes('.') ? '.' + filename.split('.').pop() : '';
-            const uniqueName = `${basename}-${counter}${extension}`;
-            testPath = dir ? `${dir}${uniqueName}` : uniqueName;
-        }
-
-        return testPath;
-    }
-
     /**
      * Check if a file exists
      */
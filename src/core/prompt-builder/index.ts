@@ -4,3 +4,4 @@
  * Provides simple prompt building for structured output (replaces YAML processor).
  */
 export { PromptBuilder } from './prompt-builder';
+export type { PromptParts } from './prompt-builder';
@@ -13,6 +13,16 @@ import { createLogger } from '../../logger';
 
 const logger = createLogger('PromptBuilder');
 
+/**
+ * Prompt split into system instructions and user-facing content
+ */
+export interface PromptParts {
+    /** Step prompt files wrapped in <system_instructions> (empty if none) */
+    systemPrompt: string;
+    /** Context, input content, routing instructions and processing directive */
+    userPrompt: string;
+}
+
 export class PromptBuilder {
     private fileOps: FileOperations;
     private settings?: ContentPipelineSettings;
@@ -24,49 +34,87 @@ export class PromptBuilder {
     }
 
     async buildPrompt(
-        fileInfo: FileInfo,
+        fileInfo: FileInfo | FileInfo[],
         resolvedStep: ResolvedPipelineStep,
         context: ProcessingContext,
         availableNextSteps?: string[]
     ): Promise<string> {
-        try {
-            const sections: string[] = [];
+        const { systemPrompt, userPrompt } = await this.buildPromptParts(fileInfo, resolvedStep, context, availableNextSteps);
+        return [systemPrompt, userPrompt].filter(Boolean).join('\n\n');
+    }
 
+    /**
+     * Build the prompt split into system instructions and user content
+     *
+     * Used by implementations that accept a dedicated system prompt (e.g. Claude).
+     * Aggregating steps pass all files of the batch, each in its own <input_content> block.
+     */
+    async buildPromptParts(
+        fileInfo: FileInfo | FileInfo[],
+        resolvedStep: ResolvedPipelineStep,
+        context: ProcessingContext,
+        availableNextSteps?: string[]
+    ): Promise<PromptParts> {
+        try {
             // 1. System instructions from explicit prompts
+            let systemPrompt = '';
             if (resolvedStep.prompts?.length) {
-                const systemInstructions = await this.buildSystemInstructions(resolvedStep.prompts);
-                sections.push(systemInstructions);
+                systemPrompt = await this.buildSystemInstructions(resolvedStep.prompts);
             }
 
+            const sections: string[] = [];
+
             // 2. Reference context from explicit context files
             if (resolvedStep.context?.length) {
                 const referenceContext = await this.buildReferenceContext(resolvedStep.context);
                 sections.push(referenceContext);
             }
 
-            // 3. Input content (the actual file to process)
-            const inputContent = await this.buildInputContent(fileInfo);
+            // 3. Input content (the actual file or files to process)
+            const inputContent = Array.isArray(fileInfo)
+                ? await this.buildAggregatedInputContent(fileInfo)
+                : await this.buildInputContent(fileInfo);
             sections.push(inputContent);
 
             // 4. Routing instructions if needed
             if (availableNextSteps?.length) {
-                const routingInstructions = this.buildRoutingInstructions(availableNextSteps);
+                const routingInstructions = this.buildRoutingInstructions(availableNextSteps, resolvedStep.broadcast);
                 sections.push(routingInstructions);
             }
 
             // 5. Explicit processing directive
-            sections.push(this.buildProcessingDirective());
+            sections.push(Array.isArray(fileInfo) ? this.buildAggregateDirective() : this.buildProcessingDirective());
 
-            const prompt = sections.join('\n\n');
-            logger.debug(`Prompt built: ${resolvedStep.prompts?.length || 0} prompts, ${resolvedStep.context?.length || 0} context files, ${prompt.length} chars`);
+            const userPrompt = sections.join('\n\n');
+            logger.debug(`Prompt built: ${resolvedStep.prompts?.length || 0} prompts, ${resolvedStep.context?.length || 0} context files, ${Array.isArray(fileInfo) ? fileInfo.length : 1} input files, ${systemPrompt.length + userPrompt.length} chars`);
 
-            return prompt;
+            return { systemPrompt, userPrompt };
 
         } catch (error) {
             throw new ContentPipelineError(`Failed to build prompt: ${error instanceof Error ? error.message : String(error)}`, error instanceof Error ? error : undefined);
         }
     }
 
+    /**
+     * Build the Whisper prompt from the step prompt files
+     *
+     * Whisper treats the prompt as preceding transcript, so the files are joined as
+     * plain text without instruction tags. Returns an empty string if none are configured.
+     */
+    async buildTranscriptionPrompt(resolvedStep: ResolvedPipelineStep): Promise<string> {
+        if (!resolvedStep.prompts?.length) {
+            return '';
+        }
+
+        const parts: string[] = [];
+        for (const promptFile of resolvedStep.prompts) {
+            const content = await this.readFileContent(promptFile);
+            parts.push(FileUtils.stripFrontmatter(content).trim());
+        }
+
+        return parts.filter(Boolean).join('\n\n');
+    }
+
     private async buildSystemInstructions(promptFiles: string[]): Promise<string> {
         const instructions: string[] = [];
 
@@ -112,10 +160,23 @@ export class PromptBuilder {
         return `<input_content>\n${cleanContent}\n</input_content>`;
     }
 
+    private async buildAggregatedInputContent(files: FileInfo[]): Promise<string> {
+        const blocks: string[] = [];
+        for (const file of files) {
+            const content = FileUtils.stripFrontmatter(await this.readFileContent(file.path));
+            blocks.push(`<input_content filename="${file.name}">\n${content}\n</input_content>`);
+        }
+        return blocks.join('\n\n');
+    }
+
     private buildProcessingDirective(): string {
         return 'IMPORTANT: Generate output ONLY for the content in the <input_content> section. Do not create separate outputs for system instructions or reference context.';
     }
 
+    private buildAggregateDirective(): string {
+        return 'IMPORTANT: Generate output ONLY for the content in the <input_content> sections. Treat them together as one input and combine them as the instructions ask; do not create separate outputs for system instructions or reference context.';
+    }
+
     private async readFileContent(filePath: string): Promise<string> {
         try {
             // First, try to read from vault
@@ -136,7 +197,12 @@ export class PromptBuilder {
         }
     }
 
-    private buildRoutingInstructions(availableNextSteps: string[]): string {
+    private buildRoutingInstructions(availableNextSteps: string[], broadcast: Record<string, string[]> = {}): string {
+        // Describe the broadcast keys among the routing options
+        const broadcastOptions = Object.entries(broadcast)
+            .filter(([key]) => availableNextSteps.includes(key))
+            .map(([key, targets]) => `- ${key}: sends the section to all of ${targets.join(', ')}`);
+
         return [
             '<routing_instructions>',
             'Choose specific filenames based on actual content, not generic categories.',
@@ -148,6 +214,7 @@ export class PromptBuilder {
             'Use the nextStep field to route content to the most appropriate processing step.',
             '',
             `Available routing options: ${availableNextSteps.join(', ')}`,
+            ...(broadcastOptions.length ? ['', 'Use these options when the content belongs to several steps at once:', ...broadcastOptions] : []),
             '</routing_instructions>'
         ].join('\n');
     }
@@ -0,0 +1,8 @@
+/**
+ * Review Module
+ *
+ * Holds the outputs of steps that require approval until they are approved, rejected or re-routed.
+ */
+export { ReviewGate } from './review-gate';
+export { getReviewStatus, isHeldForReview } from './review-status';
+export type { HeldOutput } from './review-gate';
@@ -0,0 +1,148 @@
+/**
+ * Review of Held Outputs
+ *
+ * Outputs of steps with `requiresApproval` are written with the frontmatter
+ * `status: "pending-review"`, and batch runs, watch mode and chains leave
+ * them alone. A held output is approved (the status is removed, so its next
+ * step picks it up), rejected (the status becomes "rejected" and it is never
+ * processed) or re-routed: it is moved to the output folder of another next
+ * step of the step that produced it and approved there. Every decision is
+ * recorded in the job store.
+ */
+
+import { App, TFile } from 'obsidian';
+import { JobStore } from '../job-store';
+import { FileOperations } from '../file-operations';
+import { readFrontmatterValue, updateFrontmatter } from '../write-modes';
+import { getReviewStatus } from './review-status';
+import { resolveOutputDirectories } from '../path-operations/resolve-output-directories';
+import { resolveCollision } from '../path-operations/resolve-collision';
+import { getValidatedPipelineConfiguration } from '../../validation';
+import { ContentPipelineSettings, ReviewDecision, ReviewStatus } from '../../types';
+import { ContentPipelineError } from '../../errors';
+import { createLogger } from '../../logger';
+
+const logger = createLogger('ReviewGate');
+
+/**
+ * Review state of a note, read from its frontmatter
+ */
+export interface HeldOutput {
+    file: TFile;
+    status: ReviewStatus;
+    /** Step that produced the note */
+    stepId: string;
+    /** Next step the producing step routed the note to */
+    nextStep?: string;
+}
+
+export class ReviewGate {
+    private app: App;
+    private settings: ContentPipelineSettings;
+    private jobStore: JobStore;
+    private fileOps: FileOperations;
+
+    constructor(app: App, settings: ContentPipelineSettings, jobStore: JobStore) {
+        this.app = app;
+        this.settings = settings;
+        this.jobStore = jobStore;
+        this.fileOps = new FileOperations(app);
+    }
+
+    /**
+     * Review state of a note, or null if it is not a held pipeline output
+     */
+    async getHeldOutput(file: TFile): Promise<HeldOutput | null> {
+        const content = await this.app.vault.read(file);
+        const status = getReviewStatus(content);
+        const stepId = readFrontmatterValue(content, 'step');
+        if (!status || !stepId) {
+            return null;
+        }
+
+        const nextStep = readFrontmatterValue(content, 'nextStep');
+        return { file, status, stepId, ...(nextStep && { nextStep }) };
+    }
+
+    /**
+     * Next steps a held output can be re-routed to: the other routing keys of the step that produced it
+     */
+    getRerouteOptions(held: HeldOutput): string[] {
+        return Object.keys(this.getOutputDirectories(held.stepId))
+            .filter(routingKey => routingKey !== 'default' && routingKey !== held.nextStep);
+    }
+
+    /**
+     * Release a held output to its next step
+     */
+    async approve(file: TFile): Promise<void> {
+        const held = await this.requirePendingReview(file);
+        await this.app.vault.modify(file, updateFrontmatter(await this.app.vault.read(file), { status: undefined }));
+        await this.record(file.path, held, 'approved');
+    }
+
+    /**
+     * Keep a held output where it is, but never process it
+     */
+    async reject(file: TFile): Promise<void> {
+        const held = await this.requirePendingReview(file);
+        await this.app.vault.modify(file, updateFrontmatter(await this.app.vault.read(file), { status: 'rejected' }));
+        await this.record(file.path, held, 'rejected');
+    }
+
+    /**
+     * Move a held output to the output folder of another next step and release it there
+     *
+     * @returns Path the output was moved to
+     */
+    async reroute(file: TFile, nextStep: string): Promise<string> {
+        const held = await this.requirePendingReview(file);
+        if (!this.getRerouteOptions(held).includes(nextStep)) {
+            throw new ContentPipelineError(`Step ${held.stepId} cannot route to ${nextStep}`);
+        }
+
+        const originalPath = file.path;
+        const directory = this.getOutputDirectories(held.stepId)[nextStep];
+        const targetPath = resolveCollision(`${directory}${file.name}`, 'suffix', path => this.fileOps.fileExists(path));
+
+        await this.app.vault.modify(file, updateFrontmatter(await this.app.vault.read(file), { nextStep, status: undefined }));
+        await this.fileOps.ensureDirectoryForFile(targetPath);
+        await this.app.vault.rename(file, targetPath);
+
+        await this.record(originalPath, held, 'rerouted', { reroutedTo: nextStep, reroutedPath: targetPath });
+        logger.info(`Re-routed ${originalPath} from ${held.nextStep || 'default'} to ${nextStep}: ${targetPath}`);
+        return targetPath;
+    }
+
+    private async requirePendingReview(file: TFile): Promise<HeldOutput> {
+        const held = await this.getHeldOutput(file);
+        if (!held || held.status !== 'pending-review') {
+            throw new ContentPipelineError(`${file.name} is not waiting for review`);
+        }
+        return held;
+    }
+
+    /**
+     * Output directories of a step by routing key
+     */
+    private getOutputDirectories(stepId: string): Record<string, string> {
+        const step = getValidatedPipelineConfiguration(this.settings)[stepId];
+        const output = step?.output || step?.routingAwareOutput;
+        return output ? resolveOutputDirectories(output) : {};
+    }
+
+    /**
+     * @param path - Path of the output when the decision was made
+     */
+    private async record(path: string, held: HeldOutput, decision: ReviewDecision['decision'], changes: Partial<ReviewDecision> = {}): Promise<void> {
+        await this.jobStore.recordReview({
+            path,
+            stepId: held.stepId,
+            decision,
+            ...(held.nextStep && { nextStep: held.nextStep }),
+            ...changes,
+            decidedAt: new Date().toISOString()
+        });
+        logger.info(`Review decision on ${path}: ${decision}`);
+    }
+}
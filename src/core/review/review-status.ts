@@ -0,0 +1,23 @@
+/**
+ * Review state of notes, read from their frontmatter
+ */
+
+import { readFrontmatterValue } from '../write-modes';
+import { ReviewStatus } from '../../types';
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending-review', 'rejected'];
+
+/**
+ * Review state of a note, undefined if it is not held
+ */
+export function getReviewStatus(content: string): ReviewStatus | undefined {
+    const status = readFrontmatterValue(content, 'status');
+    return REVIEW_STATUSES.find(candidate => candidate === status);
+}
+
+/**
+ * Whether a note waits for review or was rejected; such notes are not processed
+ */
+export function isHeldForReview(content: string): boolean {
+    return getReviewStatus(content) !== undefined;
+}
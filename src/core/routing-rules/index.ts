@@ -0,0 +1,7 @@
+/**
+ * Routing Rules Module
+ *
+ * Deterministic routing of input files without an LLM decision.
+ */
+export { RoutingRuleMatcher, findMatchingRule, matchesConditions } from './routing-rules';
+export type { RoutingRuleInput } from './routing-rules';
@@ -0,0 +1,158 @@
+/**
+ * Routing Rules
+ *
+ * Declarative routing of input files on their frontmatter, tags, content,
+ * extension, size or folder. Rules are evaluated in order before the model is
+ * asked for a next step; the first rule whose conditions all hold decides the
+ * routing-aware output key, so files that are easy to classify do not need an
+ * LLM call to choose a folder.
+ */
+
+import { App, TFile } from 'obsidian';
+import { normalizeDirectoryPath } from '../path-operations/normalize-directory-path';
+import { FileInfo, RoutingConditions, RoutingRule, RoutingRuleMatch } from '../../types';
+import { createLogger } from '../../logger';
+
+const logger = createLogger('RoutingRules');
+
+// Files whose content can be tested without a transcript
+const TEXT_EXTENSIONS = ['.md', '.txt'];
+
+/**
+ * Facts about an input file the rule conditions are tested against
+ */
+export interface RoutingRuleInput {
+    /** Vault path of the input file */
+    path: string;
+    /** File extension (including dot) */
+    extension: string;
+    /** File size in bytes */
+    size: number;
+    /** Text content, or the transcript of audio files */
+    content?: string;
+    /** Parsed frontmatter */
+    frontmatter?: Record<string, unknown>;
+    /** Frontmatter and inline tags, without "#" */
+    tags: string[];
+}
+
+/**
+ * First rule whose conditions all hold for the input
+ */
+export function findMatchingRule(rules: RoutingRule[] | undefined, input: RoutingRuleInput): RoutingRuleMatch | undefined {
+    const index = (rules || []).findIndex(rule => matchesConditions(rule.when, input));
+    return index === -1 ? undefined : { index, rule: rules![index] };
+}
+
+/**
+ * Check every condition given; conditions that are not set always hold
+ */
+export function matchesConditions(when: RoutingConditions, input: RoutingRuleInput): boolean {
+    if (when.extension !== undefined) {
+        const extensions = (Array.isArray(when.extension) ? when.extension : [when.extension]).map(normalizeExtension);
+        if (!extensions.includes(normalizeExtension(input.extension))) return false;
+    }
+
+    if (when.minSize !== undefined && input.size < when.minSize) return false;
+    if (when.maxSize !== undefined && input.size > when.maxSize) return false;
+
+    if (when.folder !== undefined && !input.path.startsWith(normalizeDirectoryPath(when.folder))) return false;
+
+    if (when.frontmatter) {
+        const frontmatter = input.frontmatter || {};
+        const matches = Object.entries(when.frontmatter).every(([key, expected]) => {
+            const actual = frontmatter[key];
+            return Array.isArray(actual)
+                ? actual.some(value => String(value) === String(expected))
+                : actual !== undefined && actual !== null && String(actual) === String(expected);
+        });
+        if (!matches) return false;
+    }
+
+    if (when.tags) {
+        const tags = input.tags.map(normalizeTag);
+        if (!when.tags.some(tag => tags.includes(normalizeTag(tag)))) return false;
+    }
+
+    if (when.content !== undefined && !new RegExp(when.content, 'i').test(input.content || '')) return false;
+
+    return true;
+}
+
+function normalizeExtension(extension: string): string {
+    const lower = extension.toLowerCase();
+    return lower.startsWith('.') ? lower : `.${lower}`;
+}
+
+function normalizeTag(tag: string): string {
+    return tag.replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Frontmatter tags may be a list or a comma or space separated string
+ */
+function toList(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.map(String);
+    }
+    return typeof value === 'string' ? value.split(/[,\s]+/).filter(Boolean) : [];
+}
+
+/**
+ * Collects the rule input of vault files and finds the matching rule
+ */
+export class RoutingRuleMatcher {
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * @param content - Content to test instead of the file's own, e.g. the transcript of an audio file
+     */
+    async match(fileInfo: FileInfo, rules: RoutingRule[] | undefined, content?: string): Promise<RoutingRuleMatch | undefined> {
+        if (!rules?.length) {
+            return undefined;
+        }
+
+        const input = await this.createInput(fileInfo, rules, content);
+        const match = findMatchingRule(rules, input);
+        if (match) {
+            logger.debug(`Routing rule ${match.index} matched ${fileInfo.path}: ${match.rule.nextStep}`);
+        }
+        return match;
+    }
+
+    private async createInput(fileInfo: FileInfo, rules: RoutingRule[], content?: string): Promise<RoutingRuleInput> {
+        const input: RoutingRuleInput = {
+            path: fileInfo.path,
+            extension: fileInfo.extension,
+            size: fileInfo.size,
+            content,
+            tags: []
+        };
+
+        const file = this.app.vault.getAbstractFileByPath(fileInfo.path);
+        if (!(file instanceof TFile)) {
+            return input;
+        }
+
+        const cache = this.app.metadataCache.getFileCache(file);
+        if (cache?.frontmatter) {
+            input.frontmatter = cache.frontmatter;
+            input.tags.push(...toList(cache.frontmatter.tags ?? cache.frontmatter.tag));
+        }
+        if (cache?.tags) {
+            input.tags.push(...cache.tags.map(tag => tag.tag));
+        }
+
+        // Only read the file when a rule looks at its content
+        const needsContent = rules.some(rule => rule.when.content !== undefined);
+        if (input.content === undefined && needsContent && TEXT_EXTENSIONS.includes(fileInfo.extension.toLowerCase())) {
+            input.content = await this.app.vault.read(file);
+        }
+
+        return input;
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * Run Undo Module
+ *
+ * Reverses batch runs: restores archived inputs and removes generated outputs.
+ */
+export { RunUndo } from './run-undo';
+export type { UndoResult } from './run-undo';
@@ -0,0 +1,194 @@
+/**
+ * Undo of Batch Runs
+ *
+ * Reverses the completed results of a run from its history entries: archived
+ * inputs are moved back to their input paths, created outputs are moved to
+ * the trash and files merged into by a write mode get their previous content
+ * back. Results are undone newest first, so an output that a later step of
+ * the same run archived as its input is restored before it is removed.
+ *
+ * Every change is checked before anything is touched; if an output was edited
+ * since the run, its previous content was not kept, or a path is taken, the
+ * run is not undone at all.
+ */
+
+import { App, TFile } from 'obsidian';
+import { JobStore } from '../job-store';
+import { FileOperations } from '../file-operations';
+import { hashContent } from '../step-commit';
+import { PipelineRun, ProcessingStatus, RunHistoryEntry } from '../../types';
+import { createLogger } from '../../logger';
+
+const logger = createLogger('RunUndo');
+
+/**
+ * Outcome of undoing a run
+ */
+export interface UndoResult {
+    undone: boolean;
+    /** Why the run was not undone, one reason per file */
+    conflicts: string[];
+    /** Input files moved back to their input paths */
+    restoredInputs: string[];
+    /** Output files moved to the trash or restored to their previous content */
+    revertedOutputs: string[];
+}
+
+export class RunUndo {
+    private app: App;
+    private jobStore: JobStore;
+    private fileOps: FileOperations;
+
+    constructor(app: App, jobStore: JobStore) {
+        this.app = app;
+        this.jobStore = jobStore;
+        this.fileOps = new FileOperations(app);
+    }
+
+    /**
+     * Finished runs that changed the vault and were not undone, newest first
+     */
+    getUndoableRuns(): PipelineRun[] {
+        return this.jobStore.getRuns().filter(run =>
+            run.finishedAt && !run.undoneAt && this.getEntries(run.id).length > 0
+        );
+    }
+
+    /**
+     * Check that every change of the run can be reversed, then reverse them
+     */
+    async undoRun(runId: string): Promise<UndoResult> {
+        const entries = this.getEntries(runId);
+        const result: UndoResult = { undone: false, conflicts: [], restoredInputs: [], revertedOutputs: [] };
+
+        result.conflicts = await this.findConflicts(entries);
+        if (result.conflicts.length > 0) {
+            logger.warn(`Run ${runId} not undone`, { conflicts: result.conflicts });
+            return result;
+        }
+
+        for (const entry of entries) {
+            for (const operation of [...(entry.outputOperations || [])].reverse()) {
+                const file = this.app.vault.getAbstractFileByPath(operation.path);
+                if (operation.previousContent !== undefined) {
+                    await this.fileOps.writeFile(operation.path, operation.previousContent, { overwrite: true });
+                } else if (file instanceof TFile) {
+                    await this.app.fileManager.trashFile(file);
+                }
+                result.revertedOutputs.push(operation.path);
+            }
+
+            if (entry.archivePath) {
+                const archived = this.app.vault.getAbstractFileByPath(entry.archivePath);
+                if (archived) {
+                    await this.fileOps.ensureDirectoryForFile(entry.inputPath);
+                    await this.app.vault.rename(archived, entry.inputPath);
+                    result.restoredInputs.push(entry.inputPath);
+                }
+            }
+        }
+
+        await this.jobStore.markRunUndone(runId, result.restoredInputs);
+        result.undone = true;
+        logger.info(`Run ${runId} undone: ${result.restoredInputs.length} input(s) restored, ${result.revertedOutputs.length} output(s) reverted`);
+        return result;
+    }
+
+    /**
+     * Completed results of a run that changed the vault, newest first
+     */
+    private getEntries(runId: string): RunHistoryEntry[] {
+        return this.jobStore.getHistory({ runId, status: ProcessingStatus.COMPLETED })
+            .filter(entry => entry.archivePath || entry.outputOperations?.length);
+    }
+
+    /**
+     * Simulate the undo and collect every change that cannot be reversed
+     */
+    private async findConflicts(entries: RunHistoryEntry[]): Promise<string[]> {
+        const vault = new SimulatedVault(this.fileOps);
+        const conflicts: string[] = [];
+
+        for (const entry of entries) {
+            for (const operation of [...(entry.outputOperations || [])].reverse()) {
+                const hash = await vault.hash(operation.path);
+                if (hash === null) {
+                    conflicts.push(`${operation.path} was moved or deleted`);
+                } else if (hash !== operation.hash) {
+                    conflicts.push(`${operation.path} was edited`);
+                } else if (operation.previousHash && operation.previousContent === undefined) {
+                    conflicts.push(`${operation.path} cannot be restored, its previous content was not kept`);
+                }
+                vault.write(operation.path, operation.previousContent);
+            }
+
+            if (entry.archivePath) {
+                if (!vault.exists(entry.archivePath)) {
+                    conflicts.push(`${entry.archivePath} is no longer in the archive`);
+                } else if (vault.exists(entry.inputPath)) {
+                    conflicts.push(`${entry.inputPath} already exists`);
+                }
+                vault.move(entry.archivePath, entry.inputPath);
+            }
+        }
+
+        return conflicts;
+    }
+}
+
+/**
+ * Vault as it would be after the changes undone so far, without touching the real vault
+ *
+ * Moved files keep pointing at their real path, so archived recordings are only read
+ * if an undone output needs their content.
+ */
+class SimulatedVault {
+    private fileOps: FileOperations;
+    /** Content hash by path, null once removed */
+    private hashes = new Map<string, string | null>();
+    /** Real vault path whose content a path now holds */
+    private moved = new Map<string, string>();
+
+    constructor(fileOps: FileOperations) {
+        this.fileOps = fileOps;
+    }
+
+    exists(path: string): boolean {
+        if (this.moved.has(path)) {
+            return true;
+        }
+        return this.hashes.has(path) ? this.hashes.get(path) !== null : this.fileOps.fileExists(path);
+    }
+
+    async hash(path: string): Promise<string | null> {
+        const realPath = this.moved.get(path);
+        if (realPath) {
+            return hashContent(await this.fileOps.readFile(realPath));
+        }
+        if (!this.hashes.has(path)) {
+            this.hashes.set(path, this.fileOps.fileExists(path) ? hashContent(await this.fileOps.readFile(path)) : null);
+        }
+        return this.hashes.get(path) ?? null;
+    }
+
+    /**
+     * @param content - New content, or undefined to remove the file
+     */
+    write(path: string, content?: string): void {
+        this.moved.delete(path);
+        this.hashes.set(path, content !== undefined ? hashContent(content) : null);
+    }
+
+    move(fromPath: string, toPath: string): void {
+        const realPath = this.moved.get(fromPath);
+        if (realPath || !this.hashes.has(fromPath)) {
+            this.moved.set(toPath, realPath || fromPath);
+            this.hashes.delete(toPath);
+        } else {
+            this.moved.delete(toPath);
+            this.hashes.set(toPath, this.hashes.get(fromPath) ?? null);
+        }
+        this.moved.delete(fromPath);
+        this.hashes.set(fromPath, null);
+    }
+}
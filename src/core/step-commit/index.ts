@@ -0,0 +1,7 @@
+/**
+ * Step Commit Module
+ *
+ * Writes, verifies and archives the results of a step all or nothing.
+ */
+export { StepCommit, hashContent, withCommitLock } from './step-commit';
+export type { StagedOutput, CommitInput, CommitResult } from './step-commit';
@@ -0,0 +1,216 @@
+/**
+ * Transactional Step Commit
+ *
+ * Changes the vault for a processed step in one order: write the staged
+ * outputs, read them back to verify them, then archive the inputs. If any
+ * part fails, the outputs written so far are removed (or restored to their
+ * previous content) and archived inputs are moved back, so an input is never
+ * archived without its outputs.
+ */
+
+import { App } from 'obsidian';
+import { FileOperations } from '../file-operations';
+import { ArchiveResult } from '../file-operations/types';
+import { CollisionPolicy, OutputOperation } from '../../types';
+import { ContentPipelineError } from '../../errors';
+import { createLogger } from '../../logger';
+
+const logger = createLogger('StepCommit');
+
+/** Settles once the commits that were started so far have finished */
+let commitQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Output file with its final content, ready to be written
+ */
+export interface StagedOutput {
+    path: string;
+    content: string;
+}
+
+/**
+ * Input file with the archive path its outputs link to
+ */
+export interface CommitInput {
+    path: string;
+    archivePath: string;
+}
+
+export interface CommitResult {
+    /** Archive results in the order of the inputs */
+    archiveResults: ArchiveResult[];
+    /** Written outputs with their previous content, to undo the step later */
+    outputOperations: OutputOperation[];
+}
+
+/**
+ * Hash of file content for detecting changes, not for security
+ */
+export function hashContent(content: string): string {
+    // 32-bit FNV-1a
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < content.length; index++) {
+        hash ^= content.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Run a task once the tasks passed before it have finished
+ *
+ * Steps resolve their archive and output paths, stage the content merged into
+ * existing files and commit within the task, so files processed concurrently
+ * never claim the same path or merge into an outdated copy of a shared file.
+ */
+export function withCommitLock<T>(task: () => Promise<T>): Promise<T> {
+    const result = commitQueue.then(task);
+    commitQueue = result.catch(() => undefined);
+    return result;
+}
+
+export class StepCommit {
+    private app: App;
+    private fileOps: FileOperations;
+    private written: Array<{ path: string; previousContent?: string }> = [];
+    private archived: Array<{ originalPath: string; archivePath: string }> = [];
+
+    constructor(app: App) {
+        this.app = app;
+        this.fileOps = new FileOperations(app);
+    }
+
+    /**
+     * Write and verify the outputs, then archive the inputs to their planned paths
+     *
+     * @throws ContentPipelineError once everything has been rolled back; the message
+     *         names the outputs that could not be rolled back, if any
+     */
+    async commit(
+        outputs: StagedOutput[],
+        inputs: CommitInput[],
+        archiveDirectory: string,
+        onCollision?: CollisionPolicy
+    ): Promise<CommitResult> {
+        try {
+            await this.writeOutputs(outputs);
+            await this.verifyOutputs(outputs);
+            const archiveResults = await this.archiveInputs(inputs, archiveDirectory, onCollision);
+
+            return {
+                archiveResults,
+                outputOperations: outputs.map((output, index) => ({
+                    path: output.path,
+                    hash: hashContent(output.content),
+                    ...(this.written[index].previousContent !== undefined && {
+                        previousHash: hashContent(this.written[index].previousContent!),
+                        previousContent: this.written[index].previousContent
+                    })
+                }))
+            };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const leftovers = await this.rollback();
+            logger.error(`Step commit failed, rolled back ${this.written.length - leftovers.length} of ${this.written.length} output(s): ${message}`);
+
+            throw new ContentPipelineError(leftovers.length > 0
+                ? `${message}. Could not roll back: ${leftovers.join(', ')}`
+                : `${message}. No outputs were kept and the input was not archived`,
+                error instanceof Error ? error : undefined);
+        }
+    }
+
+    private async writeOutputs(outputs: StagedOutput[]): Promise<void> {
+        for (const [index, output] of outputs.entries()) {
+            const previousContent = this.fileOps.fileExists(output.path)
+                ? await this.fileOps.readFile(output.path)
+                : undefined;
+
+            // Recorded before writing, since a failed write may still have created or changed the file
+            this.written.push({ path: output.path, previousContent });
+
+            let error: string | undefined;
+            try {
+                const result = await this.fileOps.writeFile(output.path, output.content, {
+                    createDirectories: true,
+                    overwrite: true
+                });
+                error = result.success ? undefined : result.error || 'Unknown error';
+            } catch (writeError) {
+                error = writeError instanceof Error ? writeError.message : String(writeError);
+            }
+
+            if (error !== undefined) {
+                throw new Error(`Wrote ${index} of ${outputs.length} output(s), failed to write ${output.path}: ${error}`);
+            }
+            logger.debug(`Output written: ${output.path}`);
+        }
+    }
+
+    private async verifyOutputs(outputs: StagedOutput[]): Promise<void> {
+        for (const output of outputs) {
+            const content = this.fileOps.fileExists(output.path) ? await this.fileOps.readFile(output.path) : undefined;
+            if (content !== output.content) {
+                throw new Error(`Output could not be verified: ${output.path} ${content === undefined ? 'is missing' : 'has different content'}`);
+            }
+        }
+    }
+
+    private async archiveInputs(inputs: CommitInput[], archiveDirectory: string, onCollision?: CollisionPolicy): Promise<ArchiveResult[]> {
+        const results: ArchiveResult[] = [];
+
+        for (const input of inputs) {
+            const archiveResult = await this.fileOps.archiveFile(input.path, archiveDirectory, onCollision);
+            if (!archiveResult.success) {
+                throw new Error(`Processing failed due to archiving error: Failed to archive file: ${input.path}. ${archiveResult.error || 'Unknown error'}`);
+            }
+            this.archived.push({ originalPath: input.path, archivePath: archiveResult.archivePath });
+
+            // Outputs link to the planned path; another file may have taken it in the meantime
+            if (archiveResult.archivePath !== input.archivePath) {
+                throw new Error(`Archive path changed while the outputs were written: expected ${input.archivePath}, got ${archiveResult.archivePath}`);
+            }
+            results.push(archiveResult);
+        }
+
+        return results;
+    }
+
+    /**
+     * Move archived inputs back and undo the written outputs, newest first
+     *
+     * @returns Paths that could not be rolled back
+     */
+    private async rollback(): Promise<string[]> {
+        const leftovers: string[] = [];
+
+        for (const { originalPath, archivePath } of [...this.archived].reverse()) {
+            try {
+                const file = this.app.vault.getAbstractFileByPath(archivePath);
+                if (file) {
+                    await this.app.vault.rename(file, originalPath);
+                    logger.debug(`Archived file restored: ${archivePath} → ${originalPath}`);
+                }
+            } catch (error) {
+                logger.error(`Failed to restore archived file: ${archivePath}`, error);
+                leftovers.push(archivePath);
+            }
+        }
+
+        for (const { path, previousContent } of [...this.written].reverse()) {
+            try {
+                const restored = previousContent !== undefined
+                    ? (await this.fileOps.writeFile(path, previousContent, { overwrite: true })).success
+                    : !this.fileOps.fileExists(path) || await this.fileOps.deleteFile(path);
+                if (!restored) {
+                    leftovers.push(path);
+                }
+            } catch (error) {
+                logger.error(`Failed to roll back output: ${path}`, error);
+                leftovers.push(path);
+            }
+        }
+
+        return leftovers;
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * Usage Ledger Module
+ *
+ * Tracks API usage and estimated cost of processed files.
+ */
+export { UsageLedger, calculateUsageCost, sumUsage } from './usage-ledger';
+export type { UsageGrouping, UsageTotals } from './usage-ledger';
@@ -0,0 +1,189 @@
+/**
+ * Usage Ledger for API Cost Tracking
+ *
+ * Records the token and audio usage of processed files in the pipeline state
+ * and aggregates it per day, step or model config. Costs are estimated with the
+ * price table of the model config at the time the file is processed. Usage
+ * billed by attempts that failed is recorded too, without counting a file.
+ */
+
+import {
+    ContentPipelineSettings,
+    ModelPricing,
+    PipelineState,
+    ProcessingResult,
+    ProcessingUsage,
+    UsageLedgerEntry
+} from '../../types';
+import { createLogger } from '../../logger';
+
+const logger = createLogger('UsageLedger');
+
+/**
+ * Maximum number of entries kept; the oldest entries are dropped first
+ */
+const MAX_LEDGER_ENTRIES = 5000;
+
+export type UsageGrouping = 'day' | 'step' | 'model';
+
+/**
+ * Aggregated usage for one day, step or model config
+ */
+export interface UsageTotals {
+    /** Day (YYYY-MM-DD), step ID or model config ID */
+    key: string;
+    /** Number of processed files */
+    files: number;
+    promptTokens: number;
+    completionTokens: number;
+    audioSeconds: number;
+    /** Estimated cost in USD of the priced entries */
+    cost: number;
+    /** Whether some entries had no pricing and are missing from the cost */
+    hasUnpricedUsage: boolean;
+}
+
+/**
+ * Estimate the cost of usage in USD, or undefined if no pricing is configured
+ */
+export function calculateUsageCost(usage: ProcessingUsage, pricing?: ModelPricing): number | undefined {
+    if (!pricing) {
+        return undefined;
+    }
+
+    return (usage.promptTokens / 1000000) * (pricing.inputPerMillionTokens || 0) +
+        (usage.completionTokens / 1000000) * (pricing.outputPerMillionTokens || 0) +
+        (usage.audioSeconds / 60) * (pricing.perAudioMinute || 0);
+}
+
+/**
+ * Add up the usage of several requests to one model config, or undefined if there were none
+ */
+export function sumUsage(usages: ProcessingUsage[]): ProcessingUsage | undefined {
+    return usages.length === 0 ? undefined : usages.reduce((total, usage) => ({
+        ...total,
+        promptTokens: total.promptTokens + usage.promptTokens,
+        completionTokens: total.completionTokens + usage.completionTokens,
+        audioSeconds: total.audioSeconds + usage.audioSeconds
+    }));
+}
+
+export class UsageLedger {
+    private settings: ContentPipelineSettings;
+    private state: PipelineState;
+
+    /**
+     * @param settings - Model configs whose pricing estimates the cost of new entries
+     * @param state - Holds the ledger entries
+     */
+    constructor(settings: ContentPipelineSettings, state: PipelineState) {
+        this.settings = settings;
+        this.state = state;
+    }
+
+    /**
+     * Record the usage of a processing result, including the usage of its failed attempts
+     *
+     * Returns the new entries, none if the result reported no usage.
+     */
+    record(result: ProcessingResult): UsageLedgerEntry[] {
+        const recorded = [
+            ...(result.failedUsage || []).map(usage => this.createEntry(result, usage, true)),
+            ...(result.usage ? [this.createEntry(result, result.usage, false)] : [])
+        ];
+        if (recorded.length === 0) {
+            return recorded;
+        }
+
+        const entries = this.getEntries();
+        entries.push(...recorded);
+        if (entries.length > MAX_LEDGER_ENTRIES) {
+            entries.splice(0, entries.length - MAX_LEDGER_ENTRIES);
+        }
+        this.state.usageLedger = entries;
+
+        for (const entry of recorded) {
+            logger.debug(`Usage recorded for ${entry.inputFile}`, {
+                stepId: entry.stepId,
+                modelConfig: entry.modelConfig,
+                promptTokens: entry.promptTokens,
+                completionTokens: entry.completionTokens,
+                audioSeconds: entry.audioSeconds,
+                cost: entry.cost,
+                failed: entry.failed
+            });
+        }
+
+        return recorded;
+    }
+
+    getEntries(): UsageLedgerEntry[] {
+        return this.state.usageLedger || [];
+    }
+
+    /**
+     * Aggregate usage per day (newest first), step or model config (most expensive first)
+     */
+    summarize(grouping: UsageGrouping): UsageTotals[] {
+        const totals = new Map<string, UsageTotals>();
+
+        for (const entry of this.getEntries()) {
+            const key = this.getGroupKey(entry, grouping);
+            const current = totals.get(key) || {
+                key,
+                files: 0,
+                promptTokens: 0,
+                completionTokens: 0,
+                audioSeconds: 0,
+                cost: 0,
+                hasUnpricedUsage: false
+            };
+
+            if (!entry.failed) {
+                current.files++;
+            }
+            current.promptTokens += entry.promptTokens;
+            current.completionTokens += entry.completionTokens;
+            current.audioSeconds += entry.audioSeconds;
+            if (entry.cost === undefined) {
+                current.hasUnpricedUsage = true;
+            } else {
+                current.cost += entry.cost;
+            }
+
+            totals.set(key, current);
+        }
+
+        const result = Array.from(totals.values());
+        return grouping === 'day'
+            ? result.sort((a, b) => b.key.localeCompare(a.key))
+            : result.sort((a, b) => b.cost - a.cost || a.key.localeCompare(b.key));
+    }
+
+    clear(): void {
+        this.state.usageLedger = [];
+    }
+
+    private createEntry(result: ProcessingResult, usage: ProcessingUsage, failed: boolean): UsageLedgerEntry {
+        const pricing = this.settings.parsedModelsConfig?.[usage.modelConfig]?.pricing;
+        return {
+            ...usage,
+            timestamp: (result.endTime || new Date()).toISOString(),
+            stepId: result.stepId,
+            inputFile: result.inputFile.path,
+            cost: calculateUsageCost(usage, pricing),
+            ...(failed && { failed })
+        };
+    }
+
+    private getGroupKey(entry: UsageLedgerEntry, grouping: UsageGrouping): string {
+        switch (grouping) {
+            case 'day':
+                return entry.timestamp.split('T')[0];
+            case 'step':
+                return entry.stepId;
+            case 'model':
+                return entry.modelConfig;
+        }
+    }
+}
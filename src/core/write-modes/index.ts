@@ -0,0 +1,6 @@
+/**
+ * Write Modes Module
+ *
+ * Append, prepend and update-section writes into existing output files.
+ */
+export { mergeOutput, readFrontmatterValue, updateFrontmatter } from './merge-output';
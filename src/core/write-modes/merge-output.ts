@@ -0,0 +1,166 @@
+/**
+ * Output Write Modes
+ *
+ * Merges new output into an existing file instead of replacing it, so a step
+ * can keep a living document such as a running task list up to date. The
+ * frontmatter of both is merged: keys written by the pipeline are updated in
+ * place, all other keys of the existing file are kept. Single frontmatter
+ * values are read and set the same way.
+ */
+
+import { OutputWriteConfig } from '../../types';
+
+interface SplitContent {
+    /** Frontmatter lines without the --- delimiters */
+    frontmatter: string[];
+    body: string;
+}
+
+/**
+ * Content of the target file after writing the new output into it
+ *
+ * @param existing - Current content of the target file
+ * @param output - New output including its frontmatter
+ */
+export function mergeOutput(existing: string, output: string, write: OutputWriteConfig): string {
+    if (write.mode === 'create') {
+        return output;
+    }
+
+    const current = splitFrontmatter(existing);
+    const update = splitFrontmatter(output);
+    const frontmatter = mergeFrontmatter(current.frontmatter, update.frontmatter);
+    const body = mergeBody(current.body, update.body.trim(), write);
+
+    return frontmatter.length > 0
+        ? ['---', ...frontmatter, '---', '', body].join('\n')
+        : body;
+}
+
+/**
+ * Value of a top-level frontmatter key without its quotes, undefined if the key is missing or a list
+ */
+export function readFrontmatterValue(content: string, key: string): string | undefined {
+    const line = groupByKey(splitFrontmatter(content).frontmatter).get(key)?.[0];
+    const value = line?.slice(line.indexOf(':') + 1).trim();
+    return value ? value.replace(/^(["'])(.*)\1$/, '$2') : undefined;
+}
+
+/**
+ * Set top-level frontmatter keys to quoted values; undefined removes the key
+ */
+export function updateFrontmatter(content: string, fields: Record<string, string | undefined>): string {
+    const current = splitFrontmatter(content);
+    const blocks = groupByKey(current.frontmatter);
+    for (const [key, value] of Object.entries(fields)) {
+        if (value === undefined) {
+            blocks.delete(key);
+        } else {
+            blocks.set(key, [`${key}: "${value}"`]);
+        }
+    }
+
+    const frontmatter = [...blocks.values()].flat();
+    if (current.frontmatter.length === 0) {
+        return frontmatter.length > 0 ? ['---', ...frontmatter, '---', content].join('\n') : content;
+    }
+
+    // The split trims the content; keep its trailing newline
+    const body = content.endsWith('\n') ? `${current.body}\n` : current.body;
+    return frontmatter.length > 0 ? ['---', ...frontmatter, '---', body].join('\n') : body;
+}
+
+function mergeBody(existing: string, output: string, write: OutputWriteConfig): string {
+    const current = existing.trim();
+    if (!current) {
+        return write.mode === 'replace-under-heading' ? `${write.heading}\n\n${output}` : output;
+    }
+
+    switch (write.mode) {
+        case 'append':
+            return `${current}\n\n${output}`;
+        case 'prepend':
+            return `${output}\n\n${current}`;
+        case 'replace-under-heading':
+            return replaceUnderHeading(current, output, write.heading || '');
+        default:
+            return output;
+    }
+}
+
+/**
+ * Replace everything between the heading and the next heading of the same or a higher level
+ *
+ * A missing heading is added at the end of the file.
+ */
+function replaceUnderHeading(existing: string, output: string, heading: string): string {
+    const lines = existing.split('\n');
+    const start = lines.findIndex(line => line.trim() === heading.trim());
+    if (start === -1) {
+        return `${existing}\n\n${heading}\n\n${output}`;
+    }
+
+    const level = getHeadingLevel(heading);
+    const next = lines.findIndex((line, index) => {
+        const lineLevel = getHeadingLevel(line);
+        return index > start && lineLevel > 0 && lineLevel <= level;
+    });
+    const before = lines.slice(0, start + 1).join('\n');
+    const after = next === -1 ? '' : lines.slice(next).join('\n');
+
+    return [before, output, after].filter(Boolean).join('\n\n');
+}
+
+function getHeadingLevel(line: string): number {
+    const match = /^(#{1,6})\s/.exec(line.trim());
+    return match ? match[1].length : 0;
+}
+
+function splitFrontmatter(content: string): SplitContent {
+    const lines = content.trim().split('\n');
+    if (lines[0]?.trim() !== '---') {
+        return { frontmatter: [], body: content };
+    }
+
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end === -1) {
+        return { frontmatter: [], body: content };
+    }
+
+    return { frontmatter: lines.slice(1, end), body: lines.slice(end + 1).join('\n') };
+}
+
+/**
+ * Merge top-level frontmatter keys; a key's block includes its indented list items
+ */
+function mergeFrontmatter(existing: string[], update: string[]): string[] {
+    const updates = groupByKey(update);
+    const merged: string[] = [];
+
+    for (const [key, block] of groupByKey(existing)) {
+        merged.push(...(updates.get(key) || block));
+        updates.delete(key);
+    }
+    for (const block of updates.values()) {
+        merged.push(...block);
+    }
+
+    return merged;
+}
+
+function groupByKey(lines: string[]): Map<string, string[]> {
+    const blocks = new Map<string, string[]>();
+    let current: string[] | undefined;
+
+    for (const line of lines) {
+        const key = /^([^\s#:][^:]*):/.exec(line)?.[1];
+        if (key !== undefined) {
+            current = [line];
+            blocks.set(key.trim(), current);
+        } else if (current) {
+            current.push(line);
+        }
+    }
+
+    return blocks;
+}
@@ -1,6 +1,6 @@
-import { Plugin, Notice, TFile, Menu, MenuItem } from 'obsidian';
+import { Plugin, Notice, TFile, Menu, MenuItem, normalizePath } from 'obsidian';
 import { DEFAULT_SETTINGS, SettingsTab } from './settings';
-import { ContentPipelineSettings, PipelineConfiguration, ModelsConfig } from './types';
+import { ContentPipelineSettings, PipelineConfiguration, PipelineState, ModelsConfig } from './types';
 import { createLogger, getBuildLogLevel } from './logger';
 import {
     parseAndStoreConfigurations,
@@ -9,16 +9,22 @@ import {
     getValidatedModelsConfiguration,
     getSettingsValidationErrors
 } from './validation';
-import { CommandHandler } from './commands';
+import { CommandHandler, RunControl } from './commands';
 import { FileDiscovery } from './core/file-operations';
+import { FileWatcher } from './core/file-watcher';
+import { JobStore } from './core/job-store';
 
 /**
  * Main plugin class for Content Pipeline
  */
 export default class ContentPipelinePlugin extends Plugin {
     settings!: ContentPipelineSettings; // Definite assignment assertion since we load in onload
+    state: PipelineState = {};
     private logger = createLogger('Main');
     private commandHandler!: CommandHandler;
+    private runControl = new RunControl();
+    private jobStore!: JobStore;
+    private fileWatcher!: FileWatcher;
 
     /**
      * Called when the plugin is loaded
@@ -28,9 +34,10 @@ export default class ContentPipelinePlugin extends Plugin {
 
         // Load settings
         await this.loadSettings();
+        this.jobStore = new JobStore(this.state, () => this.saveState());
 
         // Initialize command handler
-        this.commandHandler = new CommandHandler(this.app, this.settings);
+        this.commandHandler = this.createCommandHandler();
 
         // Log initialization info
         this.logger.info('Plugin initialization started');
@@ -53,6 +60,12 @@ export default class ContentPipelinePlugin extends Plugin {
         // Register file menu integration
         this.registerFileMenuIntegration();
 
+        // Status bar control to cancel a run in progress
+        this.registerRunStatusBarItem();
+
+        // Watch mode for steps with "watch": true
+        this.registerFileWatcher();
+
         // Register commands
         this.addCommand({
             id: 'process-next-file',
@@ -66,6 +79,73 @@ export default class ContentPipelinePlugin extends Plugin {
             callback: () => this.commandHandler.processAllFiles()
         });
 
+        this.addCommand({
+            id: 'process-aggregating-steps',
+            name: 'Process Aggregating Steps Now',
+            callback: () => this.commandHandler.processAggregateSteps()
+        });
+
+        this.addCommand({
+            id: 'process-file-through-pipeline',
+            name: 'Process Current File Through Entire Pipeline',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file) return false;
+                if (!checking) this.commandHandler.processFileThroughPipeline(file);
+                return true;
+            }
+        });
+
+        this.addReviewCommand('approve-note', 'Approve Current Note', file => this.commandHandler.approveNote(file));
+        this.addReviewCommand('reject-note', 'Reject Current Note', file => this.commandHandler.rejectNote(file));
+        this.addReviewCommand('reroute-note', 'Re-route Current Note to…', file => this.commandHandler.rerouteNote(file));
+
+        this.addCommand({
+            id: 'retry-failed-files',
+            name: 'Retry Failed Files',
+            callback: () => this.commandHandler.retryFailedFiles()
+        });
+
+        this.addCommand({
+            id: 'undo-last-run',
+            name: 'Undo Last Run',
+            callback: () => this.commandHandler.undoLastRun()
+        });
+
+        this.addCommand({
+            id: 'undo-run',
+            name: 'Undo Run…',
+            callback: () => this.commandHandler.pickRunToUndo()
+        });
+
+        this.addCommand({
+            id: 'toggle-watch-mode',
+            name: 'Pause/Resume Watch Mode',
+            callback: () => this.toggleWatchMode()
+        });
+
+        this.addCommand({
+            id: 'cancel-pipeline-run',
+            name: 'Cancel Pipeline Run',
+            checkCallback: (checking: boolean) => {
+                if (!this.runControl.isRunning()) return false;
+                if (!checking) this.commandHandler.cancelRun();
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'dry-run-next-file',
+            name: 'Dry Run Next File',
+            callback: () => this.commandHandler.dryRunNextFile('preview')
+        });
+
+        this.addCommand({
+            id: 'dry-run-next-file-with-api',
+            name: 'Dry Run Next File with API Call',
+            callback: () => this.commandHandler.dryRunNextFile('api')
+        });
+
         // Register settings tab
         this.addSettingTab(new SettingsTab(this.app, this));
 
@@ -77,6 +157,68 @@ export default class ContentPipelinePlugin extends Plugin {
      */
     onunload() {
         this.logger.info('Content Pipeline Plugin unloaded');
+        this.jobStore?.flush();
+    }
+
+    /**
+     * Queue files that appear in the input folders of watched steps
+     *
+     * Vault events are registered once the layout is ready, because Obsidian
+     * reports every existing file as created while it loads the vault.
+     */
+    private registerFileWatcher(): void {
+        this.fileWatcher = new FileWatcher(this.app, this.settings, (file, stepId) =>
+            this.commandHandler.processWatchedFile(file, stepId)
+        );
+        this.register(() => this.fileWatcher.stop());
+
+        this.app.workspace.onLayoutReady(() => {
+            this.registerEvent(this.app.vault.on('create', file => this.fileWatcher.handleFileEvent(file)));
+            this.registerEvent(this.app.vault.on('rename', file => this.fileWatcher.handleFileEvent(file)));
+        });
+    }
+
+    /**
+     * Add a command that acts on the active note held for review
+     */
+    private addReviewCommand(id: string, name: string, action: (file: TFile) => Promise<void>): void {
+        this.addCommand({
+            id,
+            name,
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'md') return false;
+                if (!checking) action(file);
+                return true;
+            }
+        });
+    }
+
+    /**
+     * Pause or resume watch mode for all watched steps
+     */
+    async toggleWatchMode(): Promise<void> {
+        this.settings.watchPaused = !this.settings.watchPaused;
+        await this.saveSettings();
+        new Notice(this.settings.watchPaused ? '⏸ Watch mode paused' : '▶️ Watch mode resumed', 3000);
+    }
+
+    /**
+     * Show a cancel control in the status bar while a pipeline run is in progress
+     */
+    private registerRunStatusBarItem(): void {
+        const statusBarItem = this.addStatusBarItem();
+        statusBarItem.addClass('mod-clickable');
+        statusBarItem.setAttribute('aria-label', 'Cancel pipeline run');
+        statusBarItem.hide();
+
+        this.registerDomEvent(statusBarItem, 'click', () => this.commandHandler.cancelRun());
+
+        const removeListener = this.runControl.onChange(running => {
+            statusBarItem.setText(this.runControl.isCancelling() ? '⏹ Cancelling...' : '⏹ Cancel pipeline run');
+            statusBarItem.toggle(running);
+        });
+        this.register(removeListener);
     }
 
     /**
@@ -119,6 +261,15 @@ export default class ContentPipelinePlugin extends Plugin {
                         await this.commandHandler.processSpecificFile(file);
                     });
             });
+
+            menu.addItem((item: MenuItem) => {
+                item
+                    .setTitle('Process file through entire pipeline')
+                    .setIcon('workflow')
+                    .onClick(async () => {
+                        await this.commandHandler.processFileThroughPipeline(file);
+                    });
+            });
         } catch (_error) {
             this.logger.warn('Error checking if file can be processed for menu:', _error);
         }
@@ -145,8 +296,10 @@ export default class ContentPipelinePlugin extends Plugin {
      */
     async loadSettings() {
         try {
-            const loadedData = await this.loadData();
+            // Versions before the separate state file kept the usage ledger and job records in the settings
+            const { usageLedger, jobStore, ...loadedData } = await this.loadData() || {};
             this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
+            await this.loadState({ usageLedger, jobStore });
 
             // Update last saved timestamp and version
             this.settings.lastSaved = new Date().toISOString();
@@ -164,6 +317,37 @@ export default class ContentPipelinePlugin extends Plugin {
         }
     }
 
+    /**
+     * Load the pipeline state, or move the one found in the settings of an earlier version into its own file
+     */
+    private async loadState(legacyState: PipelineState): Promise<void> {
+        const path = this.getStatePath();
+        try {
+            if (await this.app.vault.adapter.exists(path)) {
+                this.state = JSON.parse(await this.app.vault.adapter.read(path));
+            } else if (legacyState.usageLedger || legacyState.jobStore) {
+                this.state = legacyState;
+                await this.saveState();
+            }
+        } catch (error) {
+            this.logger.error(`Failed to load pipeline state from ${path}:`, error);
+            // Keep migrated records in memory so the next save still writes them
+            this.state = legacyState;
+        }
+    }
+
+    /**
+     * Save the usage ledger and job records to their own file, apart from the settings
+     */
+    async saveState(): Promise<void> {
+        await this.app.vault.adapter.write(this.getStatePath(), JSON.stringify(this.state));
+    }
+
+    private getStatePath(): string {
+        const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+        return normalizePath(`${pluginDir}/state.json`);
+    }
+
     /**
      * Get configuration status for display
      */
@@ -199,7 +383,7 @@ export default class ContentPipelinePlugin extends Plugin {
             parseAndStoreConfigurations(this.settings);
 
             // Update command handler with new settings
-            this.commandHandler = new CommandHandler(this.app, this.settings);
+            this.commandHandler = this.createCommandHandler();
 
             await this.saveData(this.settings);
             this.logger.info('Settings saved successfully');
@@ -209,6 +393,16 @@ export default class ContentPipelinePlugin extends Plugin {
         }
     }
 
+    /**
+     * Create the command handler; it persists the pipeline state itself after recording usage
+     *
+     * The run control and job store outlive the handler, so runs started before a settings change
+     * can still be cancelled and are not mistaken for interrupted runs.
+     */
+    private createCommandHandler(): CommandHandler {
+        return new CommandHandler(this.app, this.settings, this.state, () => this.saveState(), this.runControl, this.jobStore);
+    }
+
     /**
      * Get parsed pipeline configuration (type-safe)
      */
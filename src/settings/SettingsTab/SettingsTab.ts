@@ -6,6 +6,8 @@ import { OpenAIApiKeySection } from '../OpenAIApiKeySection';
 import { PipelineConfigSection } from '../PipelineConfigSection';
 import { ImportExportManager, ImportExportCallbacks } from '../ImportExportManager';
 import { FolderSetupSection } from '../folder-setup-section';
+import { UsageSection } from '../usage-section';
+import { ProcessingSection } from '../processing-section';
 import { PromptsManager } from './PromptsManager';
 import { parseAndValidateFromJson } from '../../validation';
 import { ConfigValidationResult } from '../../types';
@@ -27,6 +29,8 @@ export class SettingsTab extends PluginSettingTab {
     private modelsSection: ModelsConfigSection;
     private pipelineSection: PipelineConfigSection;
     private folderSection: FolderSetupSection;
+    private usageSection: UsageSection;
+    private processingSection: ProcessingSection;
     private importExportManager: ImportExportManager;
 
     constructor(app: App, plugin: ContentPipelinePlugin) {
@@ -52,6 +56,8 @@ export class SettingsTab extends PluginSettingTab {
             () => this.importPipelineConfig()
         );
         this.folderSection = new FolderSetupSection(plugin, this.fileOps);
+        this.usageSection = new UsageSection(plugin);
+        this.processingSection = new ProcessingSection(plugin);
         this.importExportManager = new ImportExportManager(importExportCallbacks);
 
         // Set up cross-component notifications
@@ -105,6 +111,12 @@ export class SettingsTab extends PluginSettingTab {
         // Initialize with config-defined prompts if available
         this.promptsManager.setConfigDefinedPrompts(this.plugin.settings.configDefinedPrompts);
         this.promptsManager.render(containerEl);
+
+        // Batch processing options
+        this.processingSection.render(containerEl);
+
+        // API usage and cost ledger
+        this.usageSection.render(containerEl);
     }
 
     /**
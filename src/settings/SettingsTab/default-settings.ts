@@ -9,6 +9,10 @@ export const DEFAULT_SETTINGS: ContentPipelineSettings = {
     pipelineConfig: '{}',  // Empty configuration - user must load one
     configDefinedPrompts: undefined,
     debugMode: false,
+    concurrency: 1,
+    watchPaused: false,
+    maxFailures: 3,
+    quarantineFolder: 'inbox/quarantine/',
     version: '1.0.0',
     lastSaved: undefined
 };
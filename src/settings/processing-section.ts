@@ -0,0 +1,76 @@
+import { Setting } from 'obsidian';
+import ContentPipelinePlugin from '../main';
+
+const MAX_CONCURRENCY = 8;
+const MAX_FAILURES = 10;
+
+/**
+ * Batch processing options
+ */
+export class ProcessingSection {
+    private plugin: ContentPipelinePlugin;
+
+    constructor(plugin: ContentPipelinePlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Render the processing section
+     */
+    render(containerEl: HTMLElement): void {
+        new Setting(containerEl).setName('Batch processing').setHeading();
+
+        new Setting(containerEl)
+            .setName('Concurrent files')
+            .setDesc('Number of files "Process all files" sends to the API at the same time. Use model config rate limits to stay within your API tier.')
+            .addSlider(slider => {
+                slider
+                    .setLimits(1, MAX_CONCURRENCY, 1)
+                    .setValue(this.plugin.settings.concurrency || 1)
+                    .setDynamicTooltip()
+                    .onChange(async value => {
+                        this.plugin.settings.concurrency = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Quarantine after failures')
+            .setDesc('Failed attempts in a row after which an input file is moved to the quarantine folder. 0 keeps failed files in their input folder.')
+            .addSlider(slider => {
+                slider
+                    .setLimits(0, MAX_FAILURES, 1)
+                    .setValue(this.plugin.settings.maxFailures ?? 3)
+                    .setDynamicTooltip()
+                    .onChange(async value => {
+                        this.plugin.settings.maxFailures = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Quarantine folder')
+            .setDesc('Holds quarantined input files and an error note for every failed file.')
+            .addText(text => {
+                text
+                    .setPlaceholder('inbox/quarantine/')
+                    .setValue(this.plugin.settings.quarantineFolder || '')
+                    .onChange(async value => {
+                        this.plugin.settings.quarantineFolder = value.trim() || undefined;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('Pause watch mode')
+            .setDesc('Steps with "watch": true process new files in their input folder automatically. Pause to leave new files for "Process all files".')
+            .addToggle(toggle => {
+                toggle
+                    .setValue(this.plugin.settings.watchPaused === true)
+                    .onChange(async value => {
+                        this.plugin.settings.watchPaused = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+    }
+}
@@ -0,0 +1,108 @@
+import { Notice, Setting } from 'obsidian';
+import ContentPipelinePlugin from '../main';
+import { UsageLedger, UsageGrouping, UsageTotals } from '../core/usage-ledger';
+
+const GROUPING_LABELS: Record<UsageGrouping, string> = {
+    day: 'Day',
+    step: 'Step',
+    model: 'Model config'
+};
+
+/**
+ * Shows API usage and estimated cost from the usage ledger, grouped per day, step or model config
+ */
+export class UsageSection {
+    private plugin: ContentPipelinePlugin;
+    private grouping: UsageGrouping = 'day';
+    private sectionEl: HTMLElement | null = null;
+
+    constructor(plugin: ContentPipelinePlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Render the usage section
+     */
+    render(containerEl: HTMLElement): void {
+        this.sectionEl = containerEl.createEl('div', { cls: 'content-pipeline-usage-section' });
+        this.renderContent();
+    }
+
+    /**
+     * Re-render the section content (e.g. after changing the grouping)
+     */
+    private renderContent(): void {
+        if (!this.sectionEl) return;
+        this.sectionEl.empty();
+
+        const ledger = new UsageLedger(this.plugin.settings, this.plugin.state);
+        const entries = ledger.getEntries();
+
+        new Setting(this.sectionEl).setName('API usage').setHeading();
+
+        if (entries.length === 0) {
+            new Setting(this.sectionEl)
+                .setName('')
+                .setDesc('No usage recorded yet. Usage is recorded for every billed API request, including failed ones; add "pricing" to a model config to estimate costs.');
+            return;
+        }
+
+        const totalCost = entries.reduce((sum, entry) => sum + (entry.cost || 0), 0);
+
+        new Setting(this.sectionEl)
+            .setName('Group by')
+            .setDesc(`${entries.length} usage record(s) since ${entries[0].timestamp.split('T')[0]}, estimated total: ${this.formatCost(totalCost)}`)
+            .addDropdown(dropdown => {
+                Object.entries(GROUPING_LABELS).forEach(([value, label]) => dropdown.addOption(value, label));
+                dropdown
+                    .setValue(this.grouping)
+                    .onChange(value => {
+                        this.grouping = value as UsageGrouping;
+                        this.renderContent();
+                    });
+            })
+            .addButton(button => {
+                button
+                    .setButtonText('Clear usage')
+                    .setWarning()
+                    .onClick(async () => {
+                        ledger.clear();
+                        await this.plugin.saveState();
+                        new Notice('Usage ledger cleared', 3000);
+                        this.renderContent();
+                    });
+            });
+
+        const totals = ledger.summarize(this.grouping);
+        this.renderTable(this.sectionEl, totals);
+
+        if (totals.some(row => row.hasUnpricedUsage)) {
+            this.sectionEl.createEl('div', {
+                cls: 'content-pipeline-section-description',
+                text: '* Includes usage of model configs without "pricing", which is not part of the cost.'
+            });
+        }
+    }
+
+    private renderTable(containerEl: HTMLElement, totals: UsageTotals[]): void {
+        const table = containerEl.createEl('table', { cls: 'content-pipeline-usage-table' });
+        const header = table.createEl('tr');
+        [GROUPING_LABELS[this.grouping], 'Files', 'Prompt tokens', 'Completion tokens', 'Audio', 'Cost'].forEach(label => {
+            header.createEl('th', { text: label });
+        });
+
+        for (const row of totals) {
+            const tr = table.createEl('tr');
+            tr.createEl('td', { text: row.key });
+            tr.createEl('td', { text: row.files.toString() });
+            tr.createEl('td', { text: row.promptTokens.toLocaleString() });
+            tr.createEl('td', { text: row.completionTokens.toLocaleString() });
+            tr.createEl('td', { text: row.audioSeconds > 0 ? `${(row.audioSeconds / 60).toFixed(1)} min` : '' });
+            tr.createEl('td', { text: `${this.formatCost(row.cost)}${row.hasUnpricedUsage ? '*' : ''}` });
+        }
+    }
+
+    private formatCost(cost: number): string {
+        return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+    }
+}
@@ -11,9 +11,62 @@
 
 /**
  * Supported model implementation types for automatic client mapping
- * Currently supporting OpenAI implementations only
  */
-export type ModelImplementation = 'whisper' | 'chatgpt';
+export type ModelImplementation = 'whisper' | 'chatgpt' | 'claude';
+
+/**
+ * How an OpenAI-compatible backend is asked for the `sections` response structure
+ * - json_schema: strict `response_format` JSON schema (OpenAI)
+ * - json_object: plain JSON mode, schema described in the prompt (Ollama, LM Studio)
+ * - prompt: no `response_format` at all, schema described in the prompt (llama.cpp)
+ */
+export type StructuredOutputMode = 'json_schema' | 'json_object' | 'prompt';
+
+/**
+ * Prices used to estimate API cost (in USD)
+ */
+export interface ModelPricing {
+    /** Price per million prompt tokens */
+    inputPerMillionTokens?: number;
+    /** Price per million completion tokens */
+    outputPerMillionTokens?: number;
+    /** Price per minute of transcribed audio */
+    perAudioMinute?: number;
+}
+
+/**
+ * Request budgets shared by all requests using a model config
+ */
+export interface RateLimitConfig {
+    /** Maximum requests started per minute */
+    requestsPerMinute?: number;
+    /** Maximum tokens per minute (prompt estimate plus maxTokens, as counted by OpenAI) */
+    tokensPerMinute?: number;
+    /** Maximum requests in flight at the same time */
+    maxConcurrent?: number;
+}
+
+/**
+ * Generation parameters for chat requests
+ *
+ * Set on a model config as defaults and on a pipeline step to override them.
+ */
+export interface GenerationOptions {
+    /** Sampling temperature (0-2) */
+    temperature?: number;
+    /** Maximum number of completion tokens */
+    maxTokens?: number;
+    /** Nucleus sampling probability (0-1) */
+    topP?: number;
+    /** Stop sequence(s) */
+    stop?: string | string[];
+    /** Frequency penalty (-2 to 2, OpenAI-compatible APIs only) */
+    frequencyPenalty?: number;
+    /** Presence penalty (-2 to 2, OpenAI-compatible APIs only) */
+    presencePenalty?: number;
+    /** Request timeout in milliseconds */
+    timeout?: number;
+}
 
 /**
  * Configuration for a single model (API credentials and implementation details)
@@ -29,6 +82,14 @@ export interface ModelConfig {
     model: string;
     /** Organization ID (optional) */
     organization?: string;
+    /** Structured output capability of the backend (defaults to json_schema) */
+    structuredOutput?: StructuredOutputMode;
+    /** Price table for the usage ledger (optional) */
+    pricing?: ModelPricing;
+    /** Default generation parameters for steps using this model */
+    options?: GenerationOptions;
+    /** Request budgets for this model config (optional) */
+    rateLimit?: RateLimitConfig;
 }
 
 /**
@@ -69,14 +130,138 @@ export interface OutputRoutingValidationResult {
 // PIPELINE CONFIGURATION TYPES
 // =============================================================================
 
+/**
+ * Transcript layout produced by Whisper steps
+ * - text: plain transcript
+ * - timestamped: paragraphs prefixed with [mm:ss] links to the archived audio
+ */
+export type TranscriptFormat = 'text' | 'timestamped';
+
+/**
+ * Subtitle sidecar format written next to Whisper transcripts
+ */
+export type SubtitleFormat = 'srt' | 'vtt';
+
+/**
+ * Conditions of a routing rule; every condition given must hold
+ */
+export interface RoutingConditions {
+    /** Frontmatter values; list properties match if they contain the value */
+    frontmatter?: Record<string, string | number | boolean>;
+    /** Tags (without "#"); the file must have at least one of them */
+    tags?: string[];
+    /** Regular expression tested against the content (case-insensitive) */
+    content?: string;
+    /** File extension or extensions, e.g. "md" or [".m4a", ".mp3"] */
+    extension?: string | string[];
+    /** Minimum file size in bytes */
+    minSize?: number;
+    /** Maximum file size in bytes */
+    maxSize?: number;
+    /** Folder the input file must be in (subfolders included) */
+    folder?: string;
+}
+
+/**
+ * Deterministic routing decision made before, or instead of, the model
+ */
+export interface RoutingRule {
+    /** Conditions; a rule without conditions matches every file */
+    when: RoutingConditions;
+    /** Routing-aware output key or broadcast key matching files are sent to */
+    nextStep: string;
+    /** Write the input content to the output without calling the model (chat steps only) */
+    skipModel?: boolean;
+}
+
+/**
+ * Routing rule that matched an input file
+ */
+export interface RoutingRuleMatch {
+    /** Position of the rule in the step's routing rules */
+    index: number;
+    rule: RoutingRule;
+}
+
+/**
+ * What happens when an output or archive file already exists: 'suffix' adds -1, -2, ...,
+ * 'timestamp' adds the processing time, 'fail' fails the file before anything is archived
+ * or written and 'overwrite' replaces the existing file
+ */
+export type CollisionPolicy = 'suffix' | 'timestamp' | 'fail' | 'overwrite';
+
+/**
+ * A file that already existed at an output or archive path
+ */
+export interface FileCollision {
+    /** Whether an output file or the archived input collided */
+    kind: 'output' | 'archive';
+    /** Path that already existed */
+    path: string;
+    /** Path written instead (the same path if it was overwritten) */
+    resolvedPath: string;
+    policy: CollisionPolicy;
+}
+
+/**
+ * How an output is written: 'create' replaces the file, the other modes merge into an existing file
+ */
+export type OutputWriteMode = 'create' | 'append' | 'prepend' | 'replace-under-heading';
+
+/**
+ * Write mode of one output of a step
+ */
+export interface OutputWriteConfig {
+    mode: OutputWriteMode;
+    /** Vault path of the file to write into (defaults to the section's file in the output folder) */
+    file?: string;
+    /** Heading whose section is replaced, including its hashes, e.g. "## Open Tasks" */
+    heading?: string;
+}
+
+/**
+ * When an aggregating step sends its collected input files to the model
+ *
+ * The batch is ready once either trigger holds; without triggers it is only
+ * sent by the "Process aggregating steps now" command.
+ */
+export interface AggregateTrigger {
+    /** Send the batch once this many files are waiting */
+    minFiles?: number;
+    /** Send the batch once the oldest waiting file is this many minutes old */
+    windowMinutes?: number;
+    /** Most files sent in one request (defaults to 50) */
+    maxFiles?: number;
+}
+
+/**
+ * Which files of its input folder a step takes; every filter that is set must hold
+ */
+export interface InputFilter {
+    /** Globs relative to the input folder, the file must match one of them; globs without "/" match the file name */
+    include?: string[];
+    /** Globs of files to leave alone, in the same form as include */
+    exclude?: string[];
+    /** Allowed extensions, e.g. ["md"] or [".m4a", ".mp3"] */
+    extensions?: string[];
+    /** Minimum file size in bytes */
+    minSize?: number;
+    /** Maximum file size in bytes */
+    maxSize?: number;
+    /** Frontmatter predicates: "key = value", "key != value", "key" (set) or "!key" (not set) */
+    frontmatter?: string[];
+}
+
 /**
  * Configuration for a single pipeline step with routing-aware output support
  */
 export interface PipelineStep {
-    /** Reference to ModelConfig ID */
-    modelConfig: string;
+    /** Reference to ModelConfig ID, or an ordered failover chain of IDs */
+    modelConfig: string | string[];
     /** Pattern for input directory */
     input: string;
+    /** Which files of the input folder the step takes (all processable files if unset) */
+    inputFilter?: InputFilter;
     /** Pattern for output file path (string) or routing-aware output mapping */
     output: string | RoutingAwareOutput;
     /** Original routing-aware output configuration (if applicable) */
@@ -89,6 +274,30 @@ export interface PipelineStep {
     context?: string[];
     /** Description of what this step does */
     description?: string;
+    /** Generation parameters, merged over the model config defaults */
+    options?: GenerationOptions;
+    /** Transcript layout for Whisper steps (defaults to text) */
+    transcriptFormat?: TranscriptFormat;
+    /** Subtitle sidecar written next to Whisper transcripts */
+    subtitles?: SubtitleFormat;
+    /** Spoken language for Whisper steps (ISO-639-1, e.g. "en") */
+    language?: string;
+    /** Sampling temperature for Whisper steps (0-1) */
+    temperature?: number;
+    /** Process files as soon as they appear in the input folder (watch mode) */
+    watch?: boolean;
+    /** Routing rules evaluated in order before the model is asked for a next step */
+    routingRules?: RoutingRule[];
+    /** Routing keys that send a section to several output keys at once, e.g. { "todo-and-idea": ["todos", "ideas"] } */
+    broadcast?: Record<string, string[]>;
+    /** Collect input files and process them together in one request */
+    aggregate?: AggregateTrigger;
+    /** Write modes by output routing key; "default" also covers string outputs */
+    write?: Record<string, OutputWriteConfig>;
+    /** What happens when an output or archive file already exists (defaults to suffix) */
+    onCollision?: CollisionPolicy;
+    /** Hold the outputs for review: they are not processed further until approved */
+    requiresApproval?: boolean;
 }
 
 /**
@@ -133,6 +342,8 @@ export function extractPipelineSteps(config: unknown): PipelineConfiguration {
 export interface ResolvedPipelineStep {
     /** Step ID */
     stepId: string;
+    /** ID of the resolved model configuration */
+    modelConfigId?: string;
     /** Resolved model configuration */
     modelConfig: ModelConfig;
     /** Input pattern */
@@ -151,6 +362,28 @@ export interface ResolvedPipelineStep {
     context?: string[];
     /** Description */
     description?: string;
+    /** Step generation parameters merged over the model config defaults */
+    options?: GenerationOptions;
+    /** Transcript layout for Whisper steps */
+    transcriptFormat?: TranscriptFormat;
+    /** Subtitle sidecar format for Whisper steps */
+    subtitles?: SubtitleFormat;
+    /** Spoken language for Whisper steps */
+    language?: string;
+    /** Sampling temperature for Whisper steps */
+    temperature?: number;
+    /** Routing rules evaluated before the model is asked for a next step */
+    routingRules?: RoutingRule[];
+    /** Routing keys that send a section to several output keys at once */
+    broadcast?: Record<string, string[]>;
+    /** Trigger of aggregating steps */
+    aggregate?: AggregateTrigger;
+    /** Write modes by output routing key */
+    write?: Record<string, OutputWriteConfig>;
+    /** What happens when an output or archive file already exists */
+    onCollision?: CollisionPolicy;
+    /** Hold the outputs for review */
+    requiresApproval?: boolean;
 }
 
 /**
@@ -189,8 +422,18 @@ export interface ProcessingContext {
     date: string;
     /** Path to archived source file */
     archivePath: string;
+    /** Paths to all archived source files of an aggregating step */
+    sources?: string[];
+    /** Collisions resolved while writing the outputs, collected across sections */
+    collisions?: FileCollision[];
+    /** Review state written to the outputs of steps that require approval */
+    reviewStatus?: ReviewStatus;
     /** Step ID that is processing this file */
     stepId: string;
+    /** Model config ID producing the output */
+    modelConfigId?: string;
+    /** Model name producing the output */
+    model?: string;
     /** Complete input file path */
     inputPath: string;
     /** Generated output file path */
@@ -220,6 +463,16 @@ export interface FileMetadata {
     step: string;
     /** Chosen next step for processing (if applicable) */
     nextStep?: string;
+    /** Model name that produced the file */
+    model?: string;
+    /** Model config ID that produced the file */
+    modelConfig?: string;
+    /** Other copies of the same content sent to further next steps */
+    copies?: string[];
+    /** Archived source files of an aggregating step */
+    sources?: string[];
+    /** Review state of outputs of steps that require approval */
+    status?: ReviewStatus;
     /** Pipeline identifier (for future multi-pipeline support) */
     pipeline?: string;
     /** Template version (for future template evolution) */
@@ -258,7 +511,82 @@ export enum ProcessingStatus {
     PROCESSING = 'processing',
     COMPLETED = 'completed',
     FAILED = 'failed',
-    SKIPPED = 'skipped'
+    SKIPPED = 'skipped',
+    CANCELLED = 'cancelled'
+}
+
+/**
+ * API usage reported for a single processing step
+ */
+export interface ProcessingUsage {
+    /** Model config ID used for the step */
+    modelConfig: string;
+    /** Model name sent to the API */
+    model: string;
+    /** Prompt (input) tokens */
+    promptTokens: number;
+    /** Completion (output) tokens */
+    completionTokens: number;
+    /** Seconds of transcribed audio (Whisper steps) */
+    audioSeconds: number;
+}
+
+/**
+ * Receives the usage of every API request of a step as soon as the API reports it
+ */
+export type UsageListener = (usage: ProcessingUsage) => void;
+
+/**
+ * Dry run mode: 'preview' makes no API calls, 'api' sends the request but writes nothing
+ */
+export type DryRunMode = 'preview' | 'api';
+
+/**
+ * Options for executing a single step
+ */
+export interface StepExecutionOptions {
+    /** Report what the step would do instead of processing the file */
+    dryRun?: DryRunMode;
+    /** Cancels the step; an aborted file is neither archived nor written */
+    signal?: AbortSignal;
+}
+
+/**
+ * Output file a dry run would have written
+ */
+export interface DryRunOutput {
+    /** Output file path */
+    path: string;
+    /** Next step chosen for the output (if any) */
+    nextStep?: string;
+    /** Complete file content including frontmatter */
+    content: string;
+    /** Write mode, if the content would be merged into an existing file */
+    writeMode?: OutputWriteMode;
+}
+
+/**
+ * What a step would do with a file, reported by dry runs
+ */
+export interface DryRunPreview {
+    /** Dry run mode that produced the preview */
+    mode: DryRunMode;
+    /** Model config ID of the step */
+    modelConfigId?: string;
+    /** Model name that would be sent to the API */
+    model: string;
+    /** Assembled prompt (user prompt for Claude, transcription prompt for Whisper) */
+    prompt: string;
+    /** System prompt (Claude only) */
+    systemPrompt?: string;
+    /** Path the input file would be archived to */
+    archivePath: string;
+    /** Candidate output directories by routing key */
+    outputDirectories: Record<string, string>;
+    /** Files the response would be written to ('api' mode only) */
+    plannedOutputs?: DryRunOutput[];
+    /** Routing rule that decided the next step */
+    matchedRule?: RoutingRuleMatch;
 }
 
 /**
@@ -273,8 +601,16 @@ export interface ProcessingResult {
     outputFiles: string[];
     /** Archive location of input file */
     archivePath?: string;
+    /** All input files of an aggregating step (inputFile is the first of them) */
+    inputFiles?: FileInfo[];
+    /** Archive locations of all input files of an aggregating step, in the same order */
+    archivePaths?: string[];
     /** Error message if processing failed */
     error?: string;
+    /** Output and archive paths that already existed */
+    collisions?: FileCollision[];
+    /** Changes made to output files in write order, to undo the step */
+    outputOperations?: OutputOperation[];
     /** Processing start time */
     startTime: Date;
     /** Processing end time */
@@ -295,7 +631,156 @@ export interface ProcessingResult {
         resolvedOutputPath: string;
         /** Original routing configuration */
         routingConfig?: RoutingAwareOutput;
+        /** Index of the routing rule that chose the next step */
+        matchedRule?: number;
     };
+    /** API usage of the step (if reported by the API) */
+    usage?: ProcessingUsage;
+    /** Model config whose attempt failed last (failed and cancelled results only) */
+    failedModelConfig?: string;
+    /** Billed API usage of attempts that produced no result, per model config: failed models of the failover chain, or every attempt of a failed step */
+    failedUsage?: ProcessingUsage[];
+    /** Preview of the step (dry runs only; nothing was archived or written) */
+    dryRun?: DryRunPreview;
+}
+
+/**
+ * Result of one step of a file run through the whole pipeline
+ */
+export interface ChainResultNode {
+    result: ProcessingResult;
+    /** Results of the outputs that were processed by their next step */
+    children: ChainResultNode[];
+    /** Outputs no further step processes */
+    finalOutputs: string[];
+    /** Outputs left for a later run: held for review, waiting for an aggregating step, or not processed because the chain was cancelled or too long */
+    waitingOutputs: string[];
+}
+
+/**
+ * Change a step made to an output file
+ */
+export interface OutputOperation {
+    path: string;
+    /** Hash of the content the step wrote, to detect later edits */
+    hash: string;
+    /** Hash of the content before the step wrote the file; missing if the step created it */
+    previousHash?: string;
+    /** Content before the step wrote the file; only kept for recent results of notes up to a size limit */
+    previousContent?: string;
+}
+
+/**
+ * Persisted usage record for one processed file
+ */
+export interface UsageLedgerEntry extends ProcessingUsage {
+    /** Time the step completed (ISO format) */
+    timestamp: string;
+    /** Step that processed the file */
+    stepId: string;
+    /** Input file path */
+    inputFile: string;
+    /** Estimated cost in USD (undefined if the model config has no pricing) */
+    cost?: number;
+    /** Billed for an attempt that produced no result; not counted as a processed file */
+    failed?: boolean;
+}
+
+/**
+ * Persisted processing state of one input file
+ */
+export interface PipelineJob {
+    /** Input file path (unique per job) */
+    inputPath: string;
+    /** Step processing the file */
+    stepId: string;
+    /** Current status; PROCESSING after a restart means the run was interrupted */
+    status: ProcessingStatus;
+    /** Number of processing attempts */
+    attempts: number;
+    /** Number of attempts that failed in a row since the last success or retry */
+    failures?: number;
+    /** Error message of the last failed attempt */
+    error?: string;
+    /** Output files of the last completed attempt */
+    outputFiles: string[];
+    /** Archive location of the input file */
+    archivePath?: string;
+    /** Batch run that last processed the file */
+    runId?: string;
+    /** Location of the input file after it was moved to the quarantine folder */
+    quarantinePath?: string;
+    /** Time of the last status change (ISO format) */
+    updatedAt: string;
+}
+
+/**
+ * Batch run of "Process all files" or "Process next file"
+ */
+export interface PipelineRun {
+    id: string;
+    /** Start time (ISO format) */
+    startedAt: string;
+    /** End time (ISO format), missing while running or after an interrupted run */
+    finishedAt?: string;
+    /** Time the run was undone (ISO format) */
+    undoneAt?: string;
+}
+
+/**
+ * Processing result persisted in the run history
+ */
+export interface RunHistoryEntry {
+    /** Batch run of the result, missing for individually processed files */
+    runId?: string;
+    inputPath: string;
+    stepId: string;
+    status: ProcessingStatus;
+    outputFiles: string[];
+    archivePath?: string;
+    nextStep?: string;
+    error?: string;
+    /** Changes made to output files; results of aggregating steps keep them on the entry of their first input */
+    outputOperations?: OutputOperation[];
+    /** Start time (ISO format) */
+    startTime: string;
+    /** End time (ISO format) */
+    endTime?: string;
+}
+
+/**
+ * Job store persisted in the pipeline state
+ */
+export interface JobStoreData {
+    jobs: Record<string, PipelineJob>;
+    runs: PipelineRun[];
+    history: RunHistoryEntry[];
+    /** Review decisions on held outputs, missing in data from older versions */
+    reviews?: ReviewDecision[];
+}
+
+/**
+ * Review state written to the frontmatter of held outputs
+ */
+export type ReviewStatus = 'pending-review' | 'rejected';
+
+/**
+ * Decision on an output held for review, kept for tuning prompts and routing
+ */
+export interface ReviewDecision {
+    /** Output path at the time of the decision */
+    path: string;
+    /** Step that produced the output */
+    stepId: string;
+    decision: 'approved' | 'rejected' | 'rerouted';
+    /** Next step the output was routed to by the step */
+    nextStep?: string;
+    /** Next step chosen instead (re-routed outputs only) */
+    reroutedTo?: string;
+    /** Path the re-routed output was moved to */
+    reroutedPath?: string;
+    /** Time of the decision (ISO format) */
+    decidedAt: string;
 }
 
 // =============================================================================
@@ -386,6 +871,27 @@ export interface ContentPipelineSettings {
     version: string;
     /** Last time settings were saved */
     lastSaved?: string;
+    /** Number of files processed at the same time by "Process all files" */
+    concurrency?: number;
+    /** Stop watch mode from processing new files in watched steps */
+    watchPaused?: boolean;
+    /** Failed attempts in a row after which an input file is quarantined (0 never quarantines) */
+    maxFailures?: number;
+    /** Folder for quarantined input files and the error notes of failed files */
+    quarantineFolder?: string;
+}
+
+/**
+ * Processing records of the plugin, saved apart from the settings
+ *
+ * Job records, run history and usage grow with every processed file, so they are
+ * kept out of the settings that are saved on every settings change.
+ */
+export interface PipelineState {
+    /** API usage records of billed requests */
+    usageLedger?: UsageLedgerEntry[];
+    /** Processing state of input files and run history */
+    jobStore?: JobStoreData;
 }
 
 // =============================================================================
@@ -394,10 +900,9 @@ export interface ContentPipelineSettings {
 
 /**
  * Type guard for validating model implementations
- * Currently supporting OpenAI implementations only
  */
 export function isValidModelImplementation(value: unknown): value is ModelImplementation {
-    return ['whisper', 'chatgpt'].includes(value as string);
+    return ['whisper', 'chatgpt', 'claude'].includes(value as string);
 }
 
 /**
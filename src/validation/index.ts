@@ -15,6 +15,8 @@ export {
     isValidConfig,
     getConfigErrors,
     resolveStep,
+    resolveStepChain,
+    getModelConfigChain,
 
     // Configuration management functions
     parseAndStoreConfigurations,
@@ -24,6 +26,7 @@ export {
     getValidatedModelsConfiguration,
     getSafePipelineConfiguration,
     resolveStepFromSettings,
+    resolveStepChainFromSettings,
     isConfigurationReady,
     getConfigurationStatus,
     getSettingsValidationErrors,
@@ -36,6 +39,9 @@ export {
     pathWithGlobsSchema,
     filePatternSchema,
     modelConfigSchema,
+    modelPricingSchema,
+    generationOptionsSchema,
+    rateLimitSchema,
     modelsConfigSchema,
     stepIdSchema,
     pipelineStepSchema,
@@ -43,6 +49,9 @@ export {
     chatRequestSchema,
     tokenValidationSchema,
     audioFileSchema,
+    structuredOutputModeSchema,
+    processedSectionSchema,
+    structuredResponseSchema,
     fileInfoSchema,
     executionModelConfigSchema,
     resolvedStepSchema,
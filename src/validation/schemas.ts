@@ -10,7 +10,7 @@
  */
 
 import * as v from 'valibot';
-import { ModelsConfig, PipelineConfiguration, isRoutingAwareOutput } from '../types';
+import { ModelsConfig, PipelineConfiguration, PipelineStep, isRoutingAwareOutput } from '../types';
 import { CHAT_LIMITS } from '../api/chat-types';
 import { WHISPER_LIMITS } from '../api/whisper-types';
 
@@ -74,14 +74,60 @@ export const stepIdSchema = v.pipe(
     v.regex(CONFIG.patterns.stepId, 'Step ID must start with a letter and contain only letters, numbers, and hyphens')
 );
 
-export const modelImplementationSchema = v.picklist(['whisper', 'chatgpt'], 'Model implementation must be one of: whisper, chatgpt');
+export const modelImplementationSchema = v.picklist(['whisper', 'chatgpt', 'claude'], 'Model implementation must be one of: whisper, chatgpt, claude');
+
+export const structuredOutputModeSchema = v.picklist(['json_schema', 'json_object', 'prompt'], 'Structured output must be one of: json_schema, json_object, prompt');
+
+const priceSchema = v.optional(v.pipe(v.number('Price must be a number'), v.minValue(0, 'Price cannot be negative')));
+
+export const modelPricingSchema = v.object({
+    inputPerMillionTokens: priceSchema,
+    outputPerMillionTokens: priceSchema,
+    perAudioMinute: priceSchema
+});
+
+const rangeSchema = (name: string, min: number, max: number) => v.optional(v.pipe(
+    v.number(`${name} must be a number`),
+    v.minValue(min, `${name} must be between ${min} and ${max}`),
+    v.maxValue(max, `${name} must be between ${min} and ${max}`)
+));
+
+// Strict so that misspelled parameters (e.g. max_tokens) are reported instead of ignored
+export const generationOptionsSchema = v.strictObject({
+    temperature: rangeSchema('Temperature', 0, 2),
+    maxTokens: v.optional(v.pipe(v.number('Max tokens must be a number'), v.integer('Max tokens must be an integer'), v.minValue(1, 'Max tokens must be at least 1'))),
+    topP: rangeSchema('Top P', 0, 1),
+    stop: v.optional(v.union([
+        v.string(),
+        v.pipe(v.array(v.string()), v.maxLength(4, 'At most 4 stop sequences are allowed'))
+    ], 'Stop must be a string or an array of strings')),
+    frequencyPenalty: rangeSchema('Frequency penalty', -2, 2),
+    presencePenalty: rangeSchema('Presence penalty', -2, 2),
+    timeout: v.optional(v.pipe(v.number('Timeout must be a number'), v.integer('Timeout must be an integer'), v.minValue(1000, 'Timeout must be at least 1000 ms')))
+}, 'Unknown generation option');
+
+const positiveIntegerSchema = (name: string) => v.optional(v.pipe(
+    v.number(`${name} must be a number`),
+    v.integer(`${name} must be an integer`),
+    v.minValue(1, `${name} must be at least 1`)
+));
+
+export const rateLimitSchema = v.strictObject({
+    requestsPerMinute: positiveIntegerSchema('Requests per minute'),
+    tokensPerMinute: positiveIntegerSchema('Tokens per minute'),
+    maxConcurrent: positiveIntegerSchema('Max concurrent requests')
+}, 'Unknown rate limit option');
 
 export const modelConfigSchema = v.object({
     baseUrl: v.pipe(v.string('Base URL must be a string'), v.trim(), v.nonEmpty('Base URL cannot be empty'), v.url('Base URL must be a valid URL')),
     apiKey: apiKeySchema,
     implementation: modelImplementationSchema,
     model: v.pipe(v.string('Model must be a string'), v.trim(), v.nonEmpty('Model cannot be empty')),
-    organization: v.optional(v.string())
+    organization: v.optional(v.string()),
+    structuredOutput: v.optional(structuredOutputModeSchema),
+    pricing: v.optional(modelPricingSchema),
+    options: v.optional(generationOptionsSchema),
+    rateLimit: v.optional(rateLimitSchema)
 });
 
 export const modelsConfigSchema = v.pipe(
@@ -93,14 +139,104 @@ export const modelsConfigSchema = v.pipe(
     }, 'Models configuration validation failed')
 );
 
+const modelConfigIdSchema = v.pipe(v.string('Model config must be a string'), v.trim(), v.nonEmpty('Model config cannot be empty'));
+
+const isValidRegex = (pattern: string): boolean => {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const byteSizeSchema = (name: string) => v.optional(v.pipe(
+    v.number(`${name} must be a number`),
+    v.minValue(0, `${name} cannot be negative`)
+));
+
+// Strict so that misspelled conditions are reported instead of matching every file
+export const routingConditionsSchema = v.strictObject({
+    frontmatter: v.optional(v.record(v.string(), v.union([v.string(), v.number(), v.boolean()], 'Frontmatter values must be strings, numbers or booleans'))),
+    tags: v.optional(v.pipe(v.array(v.string('Tags must be strings')), v.nonEmpty('Tags cannot be empty'))),
+    content: v.optional(v.pipe(v.string('Content must be a string'), v.check(isValidRegex, 'Content must be a valid regular expression'))),
+    extension: v.optional(v.union([v.string(), v.array(v.string())], 'Extension must be a string or a list of strings')),
+    minSize: byteSizeSchema('Min size'),
+    maxSize: byteSizeSchema('Max size'),
+    folder: v.optional(pathSchema)
+}, 'Unknown routing rule condition');
+
+export const routingRuleSchema = v.strictObject({
+    when: routingConditionsSchema,
+    nextStep: v.pipe(v.string('Routing rule nextStep must be a string'), v.trim(), v.nonEmpty('Routing rule nextStep cannot be empty')),
+    skipModel: v.optional(v.boolean('Skip model must be true or false'))
+}, 'Unknown routing rule option');
+
+export const aggregateTriggerSchema = v.strictObject({
+    minFiles: positiveIntegerSchema('Min files'),
+    windowMinutes: v.optional(v.pipe(v.number('Window minutes must be a number'), v.minValue(0, 'Window minutes cannot be negative'))),
+    maxFiles: positiveIntegerSchema('Max files')
+}, 'Unknown aggregate option');
+
+// Strict so that misspelled filters are reported instead of taking every file
+export const inputFilterSchema = v.pipe(
+    v.strictObject({
+        include: v.optional(v.array(pathWithGlobsSchema, 'Include must be a list of globs')),
+        exclude: v.optional(v.array(pathWithGlobsSchema, 'Exclude must be a list of globs')),
+        extensions: v.optional(v.pipe(
+            v.array(v.pipe(v.string('Extensions must be strings'), v.regex(/^\.?[a-zA-Z0-9]+$/, 'Extensions must look like "md" or ".m4a"')), 'Extensions must be a list'),
+            v.nonEmpty('Extensions cannot be empty')
+        )),
+        minSize: byteSizeSchema('Min size'),
+        maxSize: byteSizeSchema('Max size'),
+        frontmatter: v.optional(v.array(
+            v.pipe(
+                v.string('Frontmatter predicates must be strings'),
+                v.trim(),
+                v.regex(/^(?:!\s*[^\s=!]+|[^\s=!]+(?:\s*!?=\s*\S.*)?)$/, 'Frontmatter predicates must look like "key = value", "key != value", "key" or "!key"')
+            ),
+            'Frontmatter predicates must be a list'
+        ))
+    }, 'Unknown input filter option'),
+    v.check(filter => filter.minSize === undefined || filter.maxSize === undefined || filter.minSize <= filter.maxSize, 'Input filter min size cannot be larger than max size')
+);
+
+export const outputWriteSchema = v.pipe(
+    v.strictObject({
+        mode: v.picklist(['create', 'append', 'prepend', 'replace-under-heading'], 'Write mode must be one of: create, append, prepend, replace-under-heading'),
+        file: v.optional(pathSchema),
+        heading: v.optional(v.pipe(v.string('Heading must be a string'), v.regex(/^#{1,6}\s+\S/, 'Heading must be a markdown heading, e.g. "## Tasks"')))
+    }, 'Unknown write option'),
+    v.check(write => write.mode !== 'replace-under-heading' || write.heading !== undefined, 'Write mode replace-under-heading needs a heading')
+);
+
 export const pipelineStepSchema = v.object({
-    modelConfig: v.pipe(v.string('Model config must be a string'), v.trim(), v.nonEmpty('Model config cannot be empty')),
+    modelConfig: v.union(
+        [modelConfigIdSchema, v.pipe(v.array(modelConfigIdSchema), v.nonEmpty('Model config chain cannot be empty'))],
+        'Model config must be a string or a list of strings'
+    ),
     input: v.optional(filePatternSchema),
+    inputFilter: v.optional(inputFilterSchema),
     output: v.optional(v.union([v.string(), v.record(v.string(), v.string())])),
     archive: v.optional(filePatternSchema),
     prompts: v.optional(v.array(v.string())),
     context: v.optional(v.array(v.string())),
-    routingAwareOutput: v.optional(v.record(v.string(), v.string()))
+    routingAwareOutput: v.optional(v.record(v.string(), v.string())),
+    options: v.optional(generationOptionsSchema),
+    transcriptFormat: v.optional(v.picklist(['text', 'timestamped'], 'Transcript format must be one of: text, timestamped')),
+    subtitles: v.optional(v.picklist(['srt', 'vtt'], 'Subtitles must be one of: srt, vtt')),
+    language: v.optional(v.pipe(v.string('Language must be a string'), v.regex(/^[a-z]{2}$/, 'Language must be an ISO-639-1 code (e.g. en, de)'))),
+    temperature: v.optional(v.pipe(v.number('Temperature must be a number'), v.minValue(0, 'Temperature must be between 0 and 1'), v.maxValue(1, 'Temperature must be between 0 and 1'))),
+    watch: v.optional(v.boolean('Watch must be true or false')),
+    routingRules: v.optional(v.array(routingRuleSchema, 'Routing rules must be a list')),
+    broadcast: v.optional(v.record(
+        v.string(),
+        v.pipe(v.array(v.string('Broadcast targets must be strings'), 'Broadcast targets must be a list'), v.minLength(2, 'A broadcast key needs at least two targets'))
+    )),
+    aggregate: v.optional(aggregateTriggerSchema),
+    write: v.optional(v.record(v.string(), outputWriteSchema)),
+    onCollision: v.optional(v.picklist(['suffix', 'timestamp', 'fail', 'overwrite'], 'On collision must be one of: suffix, timestamp, fail, overwrite')),
+    requiresApproval: v.optional(v.boolean('Requires approval must be true or false'))
 });
 
 export const pipelineConfigSchema = v.pipe(
@@ -154,6 +290,19 @@ export const audioFileSchema = v.object({
     )
 });
 
+export const processedSectionSchema = v.object({
+    filename: v.string('Section filename must be a string'),
+    content: v.string('Section content must be a string'),
+    nextStep: v.optional(v.string('Section nextStep must be a string'))
+});
+
+export const structuredResponseSchema = v.object({
+    sections: v.pipe(
+        v.array(processedSectionSchema, 'Sections must be an array'),
+        v.minLength(1, 'Sections must contain at least one entry')
+    )
+});
+
 export const fileInfoSchema = v.object({
     path: v.pipe(v.string('File path must be a string'), v.trim(), v.nonEmpty('File path cannot be empty')),
     name: v.pipe(v.string('File name must be a string'), v.trim(), v.nonEmpty('File name cannot be empty'))
@@ -189,9 +338,63 @@ export const modelsConfigJsonSchema = v.pipe(v.string('Models configuration must
 const crossRefValidator = v.custom<{ models: ModelsConfig; pipeline: PipelineConfiguration }>((input) => {
     const config = input as { models: ModelsConfig; pipeline: PipelineConfiguration };
     const modelConfigIds = Object.keys(config.models);
-    return Object.values(config.pipeline).every(step => modelConfigIds.includes(step.modelConfig));
+    return Object.values(config.pipeline).every(step =>
+        getModelConfigChain(step).every(id => modelConfigIds.includes(id))
+    );
 }, 'Step references non-existent model config');
 
+const getOutputRoutingKeys = (step: PipelineStep): string[] =>
+    typeof step.output === 'object' && step.output !== null ? Object.keys(step.output).filter(key => key !== 'default') : [];
+
+// Broadcast keys fan out to routing keys of the step output and must not shadow them
+const broadcastValidator = v.custom<{ models: ModelsConfig; pipeline: PipelineConfiguration }>((input) => {
+    const config = input as { models: ModelsConfig; pipeline: PipelineConfiguration };
+    return Object.values(config.pipeline).every(step => {
+        const routingKeys = getOutputRoutingKeys(step);
+        return Object.entries(step.broadcast || {}).every(([key, targets]) =>
+            key !== 'default' && !routingKeys.includes(key) && targets.every(target => routingKeys.includes(target))
+        );
+    });
+}, 'Broadcast keys must be new keys whose targets are routing keys of the step output');
+
+// Rules route through the same keys the model chooses from
+const routingRulesValidator = v.custom<{ models: ModelsConfig; pipeline: PipelineConfiguration }>((input) => {
+    const config = input as { models: ModelsConfig; pipeline: PipelineConfiguration };
+    return Object.values(config.pipeline).every(step => {
+        const routingKeys = [...getOutputRoutingKeys(step), ...Object.keys(step.broadcast || {})];
+        return (step.routingRules || []).every(rule => routingKeys.includes(rule.nextStep));
+    });
+}, 'Routing rule nextStep must be a routing or broadcast key of the step output');
+
+// Write modes apply to the outputs the step can route to
+const writeValidator = v.custom<{ models: ModelsConfig; pipeline: PipelineConfiguration }>((input) => {
+    const config = input as { models: ModelsConfig; pipeline: PipelineConfiguration };
+    return Object.values(config.pipeline).every(step => {
+        const outputKeys = [...getOutputRoutingKeys(step), 'default'];
+        return Object.keys(step.write || {}).every(key => outputKeys.includes(key));
+    });
+}, 'Write mode keys must be "default" or routing keys of the step output');
+
+// Batches are text prompts collected by discovery, so single-file features do not apply to them
+const aggregateValidator = v.custom<{ models: ModelsConfig; pipeline: PipelineConfiguration }>((input) => {
+    const config = input as { models: ModelsConfig; pipeline: PipelineConfiguration };
+    return Object.values(config.pipeline).every(step =>
+        !step.aggregate || (
+            !step.watch && !step.routingRules?.length &&
+            getModelConfigChain(step).every(id => config.models[id]?.implementation !== 'whisper')
+        )
+    );
+}, 'Aggregating steps must use chat models and cannot use watch mode or routing rules');
+
+// Whisper steps consume audio and chat steps consume text, so a chain cannot fall through between them
+const modelChainValidator = v.custom<{ models: ModelsConfig; pipeline: PipelineConfiguration }>((input) => {
+    const config = input as { models: ModelsConfig; pipeline: PipelineConfiguration };
+    return Object.values(config.pipeline).every(step => {
+        const isWhisper = getModelConfigChain(step).map(id => config.models[id]?.implementation === 'whisper');
+        return isWhisper.every(value => value === isWhisper[0]);
+    });
+}, 'Model config chain cannot mix Whisper and chat models');
+
 const circularDependencyValidator = v.custom<{ models: ModelsConfig; pipeline: PipelineConfiguration }>((input) => {
     const config = input as { models: ModelsConfig; pipeline: PipelineConfiguration };
     const stepIds = Object.keys(config.pipeline);
@@ -254,6 +457,11 @@ const topologyValidator = v.custom<{ models: ModelsConfig; pipeline: PipelineCon
 export const configSchema = v.pipe(
     v.object({ models: modelsConfigSchema, pipeline: pipelineConfigSchema }),
     crossRefValidator,
+    modelChainValidator,
+    broadcastValidator,
+    routingRulesValidator,
+    aggregateValidator,
+    writeValidator,
     circularDependencyValidator,
     topologyValidator
 );
@@ -434,6 +642,10 @@ export function getSafePipelineConfiguration(settings: import('../types').Conten
 }
 
 export function resolveStepFromSettings(stepId: string, settings: import('../types').ContentPipelineSettings): import('../types').ResolvedPipelineStep {
+    return resolveStepChainFromSettings(stepId, settings)[0];
+}
+
+export function resolveStepChainFromSettings(stepId: string, settings: import('../types').ContentPipelineSettings): import('../types').ResolvedPipelineStep[] {
     if (!settings.modelsConfig || !settings.pipelineConfig) {
         throw new Error(`Configuration not available for step "${stepId}" - both models and pipeline configurations are required`);
     }
@@ -446,7 +658,7 @@ export function resolveStepFromSettings(stepId: string, settings: import('../typ
     }
 
     try {
-        return resolveStep(stepId, settings.parsedPipelineConfig!, settings.parsedModelsConfig!);
+        return resolveStepChain(stepId, settings.parsedPipelineConfig!, settings.parsedModelsConfig!);
     } catch (error) {
         throw new Error(`Failed to resolve step "${stepId}" configuration: ${error instanceof Error ? error.message : String(error)}`);
     }
@@ -492,11 +704,29 @@ export function getSettingsValidationErrors(settings: import('../types').Content
     return getConfigErrors(settings.parsedModelsConfig, settings.parsedPipelineConfig);
 }
 
+/**
+ * Model config IDs of a step in failover order
+ */
+export function getModelConfigChain(step: Pick<PipelineStep, 'modelConfig'>): string[] {
+    return Array.isArray(step.modelConfig) ? step.modelConfig : [step.modelConfig];
+}
+
 export function resolveStep(
     stepId: string,
     pipelineConfig: PipelineConfiguration,
     modelsConfig: ModelsConfig
 ): import('../types').ResolvedPipelineStep {
+    return resolveStepChain(stepId, pipelineConfig, modelsConfig)[0];
+}
+
+/**
+ * Resolve a step once per model config of its failover chain, in order
+ */
+export function resolveStepChain(
+    stepId: string,
+    pipelineConfig: PipelineConfiguration,
+    modelsConfig: ModelsConfig
+): import('../types').ResolvedPipelineStep[] {
     validateConfig(modelsConfig, pipelineConfig);
 
     const step = pipelineConfig[stepId];
@@ -504,21 +734,35 @@ export function resolveStep(
         throw new Error(`Pipeline step not found: ${stepId}`);
     }
 
-    const modelConfig = modelsConfig[step.modelConfig];
-    if (!modelConfig) {
-        throw new Error(`Model config not found: ${step.modelConfig} for step ${stepId}`);
-    }
+    return getModelConfigChain(step).map(modelConfigId => {
+        const modelConfig = modelsConfig[modelConfigId];
+        if (!modelConfig) {
+            throw new Error(`Model config not found: ${modelConfigId} for step ${stepId}`);
+        }
 
-    return {
-        stepId,
-        modelConfig,
-        input: step.input,
-        output: typeof step.output === 'string' ? step.output : JSON.stringify(step.output),
-        resolvedOutputPath: typeof step.output === 'string' ? step.output : undefined,
-        routingAwareOutput: typeof step.output === 'object' ? step.output : undefined,
-        archive: step.archive,
-        prompts: step.prompts || [],
-        context: step.context || [],
-        description: step.description
-    };
+        return {
+            stepId,
+            modelConfigId,
+            modelConfig,
+            input: step.input,
+            output: typeof step.output === 'string' ? step.output : JSON.stringify(step.output),
+            resolvedOutputPath: typeof step.output === 'string' ? step.output : undefined,
+            routingAwareOutput: typeof step.output === 'object' ? step.output : undefined,
+            archive: step.archive,
+            prompts: step.prompts || [],
+            context: step.context || [],
+            description: step.description,
+            options: modelConfig.options || step.options ? { ...modelConfig.options, ...step.options } : undefined,
+            transcriptFormat: step.transcriptFormat,
+            subtitles: step.subtitles,
+            language: step.language,
+            temperature: step.temperature,
+            routingRules: step.routingRules,
+            broadcast: step.broadcast,
+            aggregate: step.aggregate,
+            write: step.write,
+            onCollision: step.onCollision,
+            requiresApproval: step.requiresApproval
+        };
+    });
 }
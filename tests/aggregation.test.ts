@@ -0,0 +1,159 @@
+/**
+ * Aggregating Step Tests
+ *
+ * Covers batch triggers, one request for all collected inputs and archiving
+ * the inputs of a batch together or not at all.
+ */
+
+import { FileDiscovery } from '../src/core/file-operations';
+import { StepExecutor } from '../src/core/pipeline-executor/StepChain/StepExecutor';
+import { getConfigErrors } from '../src/validation';
+import { AggregateTrigger, ContentPipelineSettings, PipelineStep, ProcessingStatus } from '../src/types';
+import { mockApp, mockVault, resetMocks } from './file-operations/setup';
+import {
+    createMockCompletion,
+    createMockModelsConfig,
+    createMockPipelineConfig,
+    createMockPipelineStep,
+    createMockSettings,
+    mockVaultFiles,
+    useMockFetch,
+    cleanup
+} from './setup';
+
+const HOUR = 60 * 60 * 1000;
+
+const createConfig = (aggregate: AggregateTrigger, overrides: Partial<PipelineStep> = {}) => createMockPipelineConfig({
+    'weekly-review': createMockPipelineStep({
+        modelConfig: 'openai-gpt',
+        input: 'inbox/journal/',
+        output: 'Reviews/',
+        archive: 'inbox/archive/weekly-review/',
+        prompts: [],
+        aggregate,
+        ...overrides
+    })
+});
+
+describe('Aggregating Steps', () => {
+    let files: Map<string, string>;
+    // Hours since each file was last modified
+    let ages: Map<string, number>;
+
+    const addFile = (path: string, content: string, ageHours = 0) => {
+        files.set(path, content);
+        ages.set(path, ageHours);
+    };
+
+    beforeEach(() => {
+        resetMocks();
+        files = new Map();
+        ages = new Map();
+        mockVaultFiles(files, path => ({
+            size: files.get(path)!.length,
+            mtime: Date.now() - (ages.get(path) || 0) * HOUR,
+            ctime: 0
+        }));
+    });
+
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe('triggers', () => {
+        const discovery = () => new FileDiscovery(mockApp as any);
+
+        it('should wait until enough files are collected or the oldest has waited long enough', async () => {
+            addFile('inbox/journal/monday.md', 'Ran 5k', 2);
+            addFile('inbox/journal/tuesday.md', 'Read a book', 1);
+            const config = createConfig({ minFiles: 3, windowMinutes: 180 });
+
+            expect(await discovery().findReadyAggregation(config, new Set())).toBeNull();
+            expect((await discovery().findReadyAggregation(config, new Set(), true))?.files?.map(file => file.name)).toEqual(['monday.md', 'tuesday.md']);
+
+            addFile('inbox/journal/sunday.md', 'Cooked dinner', 4);
+            const batch = await discovery().findReadyAggregation(config, new Set());
+            expect(batch?.stepId).toBe('weekly-review');
+            expect(batch?.file.name).toBe('sunday.md');
+            expect(batch?.files?.map(file => file.name)).toEqual(['sunday.md', 'monday.md', 'tuesday.md']);
+        });
+
+        it('should send at most maxFiles files and hide the step from single file discovery', async () => {
+            addFile('inbox/journal/a.md', 'A', 3);
+            addFile('inbox/journal/b.md', 'B', 2);
+            addFile('inbox/journal/c.md', 'C', 1);
+            const config = createConfig({ minFiles: 2, maxFiles: 2 });
+
+            expect(await discovery().findNextAvailableFile(config, new Set())).toBeNull();
+            expect((await discovery().findReadyAggregation(config, new Set()))?.files?.map(file => file.name)).toEqual(['a.md', 'b.md']);
+            expect((await discovery().findReadyAggregation(config, new Set(['inbox/journal/a.md', 'inbox/journal/b.md'])))).toBeNull();
+        });
+    });
+
+    describe('execution', () => {
+        const settings = (): ContentPipelineSettings => createMockSettings(createConfig({ minFiles: 2 }));
+        const mockFetch = useMockFetch();
+
+        beforeEach(() => {
+            mockFetch.mockResolvedValue(createMockCompletion(
+                [{ filename: 'week-12', content: 'A week of running and reading.' }],
+                { prompt_tokens: 120, completion_tokens: 10, total_tokens: 130 }
+            ));
+
+            addFile('inbox/journal/monday.md', '---\nmood: good\n---\nRan 5k', 2);
+            addFile('inbox/journal/tuesday.md', 'Read a book', 1);
+        });
+
+        const getBatch = async () => (await new FileDiscovery(mockApp as any).findReadyAggregation(settings().parsedPipelineConfig!, new Set()))!.files!;
+
+        it('should send all inputs in one request and archive them together', async () => {
+            const batch = await getBatch();
+
+            const result = await new StepExecutor(mockApp as any, settings()).executeAggregate('weekly-review', batch);
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            const prompt = JSON.parse(mockFetch.mock.calls[0][1].body).messages[0].content;
+            expect(prompt).toContain('<input_content filename="monday.md">\nRan 5k\n</input_content>\n\n<input_content filename="tuesday.md">\nRead a book\n</input_content>');
+            expect(prompt).not.toContain('mood: good');
+
+            expect(result.status).toBe(ProcessingStatus.COMPLETED);
+            expect(result.inputFiles?.map(file => file.name)).toEqual(['monday.md', 'tuesday.md']);
+            expect(result.archivePaths).toEqual(['inbox/archive/weekly-review/monday.md', 'inbox/archive/weekly-review/tuesday.md']);
+            expect(result.outputFiles).toEqual(['Reviews/week-12.md']);
+            expect(result.usage?.promptTokens).toBe(120);
+
+            expect(files.has('inbox/journal/monday.md')).toBe(false);
+            expect(files.get('Reviews/week-12.md')).toContain(
+                'sources:\n  - "[[inbox/archive/weekly-review/monday.md]]"\n  - "[[inbox/archive/weekly-review/tuesday.md]]"'
+            );
+        });
+
+        it('should move archived inputs back and remove the outputs if one of them cannot be archived', async () => {
+            const batch = await getBatch();
+            const rename = mockVault.rename.getMockImplementation()!;
+            mockVault.rename.mockImplementation(async (file: { path: string }, newPath: string) => {
+                if (file.path === 'inbox/journal/tuesday.md') throw new Error('File is locked');
+                return rename(file, newPath);
+            });
+
+            const result = await new StepExecutor(mockApp as any, settings()).executeAggregate('weekly-review', batch);
+
+            expect(result.status).toBe(ProcessingStatus.FAILED);
+            expect(result.error).toContain('File is locked');
+            expect(result.inputFiles).toHaveLength(2);
+            expect(files.has('inbox/journal/monday.md')).toBe(true);
+            expect(files.has('inbox/archive/weekly-review/monday.md')).toBe(false);
+            expect(files.has('Reviews/week-12.md')).toBe(false);
+        });
+    });
+
+    it('should only aggregate with chat models and without watch mode or routing rules', () => {
+        const errors = (overrides: Partial<PipelineStep>) => getConfigErrors(createMockModelsConfig(), createConfig({ minFiles: 5 }, overrides));
+        const message = 'Aggregating steps must use chat models and cannot use watch mode or routing rules';
+
+        expect(errors({})).toEqual([]);
+        expect(errors({ modelConfig: 'openai-whisper' })).toContain(message);
+        expect(errors({ watch: true })).toContain(message);
+        expect(errors({ aggregate: { minFiles: 0 } })).toContain('Min files must be at least 1');
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Broadcast Routing Tests
+ *
+ * Covers sections sent to several next steps at once through broadcast keys.
+ */
+
+import { StepExecutor } from '../src/core/pipeline-executor/StepChain/StepExecutor';
+import { getConfigErrors } from '../src/validation';
+import { FileInfo, PipelineStep, ProcessingStatus } from '../src/types';
+import { mockApp, mockVault, resetMocks } from './file-operations/setup';
+import {
+    createMockCompletion,
+    createMockFileInfo,
+    createMockModelsConfig,
+    createMockPipelineStep,
+    createMockNotesSettings,
+    mockVaultFiles,
+    useMockFetch,
+    cleanup
+} from './setup';
+
+const broadcastStep: Partial<PipelineStep> = {
+    output: { 'todos': 'inbox/todos/', 'ideas': 'inbox/ideas/', 'default': 'Notes/' },
+    broadcast: { 'todo-and-idea': ['todos', 'ideas'] }
+};
+
+const nextSteps = {
+    'todos': createMockPipelineStep({ modelConfig: 'openai-gpt', input: 'inbox/todos/', output: 'Todos/' }),
+    'ideas': createMockPipelineStep({ modelConfig: 'openai-gpt', input: 'inbox/ideas/', output: 'Ideas/' })
+};
+
+describe('Broadcast Routing', () => {
+    const fileInfo: FileInfo = createMockFileInfo({ name: 'memo.md', path: 'inbox/notes/memo.md', extension: '.md' });
+    const mockFetch = useMockFetch();
+
+    beforeEach(() => {
+        resetMocks();
+        mockVaultFiles(new Map([[fileInfo.path, 'Call the plumber. Maybe build a rain garden?']]));
+    });
+
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('should write a broadcast section to every target with links between the copies', async () => {
+        mockFetch.mockResolvedValueOnce(createMockCompletion([{ filename: 'plumber-and-garden', content: 'Call the plumber, plan a rain garden.', nextStep: 'todo-and-idea' }]));
+
+        const result = await new StepExecutor(mockApp as any, createMockNotesSettings(broadcastStep, nextSteps)).execute('process-notes', fileInfo);
+
+        const request = JSON.parse(mockFetch.mock.calls[0][1].body);
+        expect(request.response_format.json_schema.schema.properties.sections.items.properties.nextStep.enum).toEqual(['todos', 'ideas', 'todo-and-idea']);
+        expect(request.messages[0].content).toContain('- todo-and-idea: sends the section to all of todos, ideas');
+
+        expect(result.status).toBe(ProcessingStatus.COMPLETED);
+        expect(result.outputFiles).toEqual(['inbox/todos/plumber-and-garden.md', 'inbox/ideas/plumber-and-garden.md']);
+        expect(result.nextStep).toBe('todos');
+
+        const written = Object.fromEntries(mockVault.create.mock.calls.map(call => [call[0], call[1]]));
+        expect(written['inbox/todos/plumber-and-garden.md']).toContain('nextStep: "todos"\n');
+        expect(written['inbox/todos/plumber-and-garden.md']).toContain('copies:\n  - "[[inbox/ideas/plumber-and-garden.md]]"');
+        expect(written['inbox/ideas/plumber-and-garden.md']).toContain('nextStep: "ideas"\n');
+        expect(written['inbox/ideas/plumber-and-garden.md']).toContain('copies:\n  - "[[inbox/todos/plumber-and-garden.md]]"');
+    });
+
+    it('should link the copies to the paths they are written to after collisions', async () => {
+        mockVaultFiles(new Map([
+            [fileInfo.path, 'Call the plumber. Maybe build a rain garden?'],
+            ['inbox/ideas/plumber-and-garden.md', 'Older idea']
+        ]));
+        mockFetch.mockResolvedValueOnce(createMockCompletion([{ filename: 'plumber-and-garden', content: 'Call the plumber, plan a rain garden.', nextStep: 'todo-and-idea' }]));
+
+        const result = await new StepExecutor(mockApp as any, createMockNotesSettings(broadcastStep, nextSteps)).execute('process-notes', fileInfo);
+
+        expect(result.outputFiles).toEqual(['inbox/todos/plumber-and-garden.md', 'inbox/ideas/plumber-and-garden-1.md']);
+        const written = Object.fromEntries(mockVault.create.mock.calls.map(call => [call[0], call[1]]));
+        expect(written['inbox/todos/plumber-and-garden.md']).toContain('copies:\n  - "[[inbox/ideas/plumber-and-garden-1.md]]"');
+    });
+
+    it('should let routing rules send files to a broadcast key', async () => {
+        const settings = createMockNotesSettings({ ...broadcastStep, routingRules: [{ when: { content: 'plumber' }, nextStep: 'todo-and-idea', skipModel: true }] }, nextSteps);
+        const app = { ...mockApp, metadataCache: { getFileCache: jest.fn().mockReturnValue(null) } };
+
+        const result = await new StepExecutor(app as any, settings).execute('process-notes', fileInfo);
+
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(result.outputFiles).toEqual(['inbox/todos/memo.md', 'inbox/ideas/memo.md']);
+    });
+
+    it('should only broadcast to routing keys of the step output', () => {
+        const errors = (broadcast: Record<string, string[]>) =>
+            getConfigErrors(createMockModelsConfig(), createMockNotesSettings({ ...broadcastStep, broadcast }, nextSteps).parsedPipelineConfig!);
+        const message = 'Broadcast keys must be new keys whose targets are routing keys of the step output';
+
+        expect(errors({ 'todo-and-idea': ['todos', 'ideas'] })).toEqual([]);
+        expect(errors({ 'todo-and-idea': ['todos', 'default'] })).toContain(message);
+        expect(errors({ 'todos': ['todos', 'ideas'] })).toContain(message);
+        expect(errors({ 'todo-and-idea': ['todos'] })).toContain('A broadcast key needs at least two targets');
+    });
+});
@@ -0,0 +1,221 @@
+/**
+ * Run Cancellation Tests
+ *
+ * Covers cancelling batch runs, requests in flight and rate limiter waits.
+ */
+
+import { RunControl } from '../src/commands/run-control';
+import { StepExecutor } from '../src/core/pipeline-executor/StepChain/StepExecutor';
+import { PipelineExecutor } from '../src/core/pipeline-executor';
+import { RateLimiter } from '../src/api/rate-limiter';
+import { createRequestSignal } from '../src/api/abort-utils';
+import { ContentPipelineSettings, FileInfo, ProcessingResult, ProcessingStatus } from '../src/types';
+import { mockApp, mockVault, createMockTFile, resetMocks } from './file-operations/setup';
+import { createMockFileInfo, createMockModelsConfig, createMockPipelineConfig, createMockPipelineStep, cleanup } from './setup';
+
+const settings: ContentPipelineSettings = {
+    modelsConfig: '{}',
+    pipelineConfig: '{}',
+    parsedModelsConfig: createMockModelsConfig(),
+    parsedPipelineConfig: createMockPipelineConfig({
+        'test-step': createMockPipelineStep({
+            modelConfig: 'openai-gpt',
+            input: 'inbox/notes/',
+            output: 'inbox/results/',
+            archive: 'inbox/archive/test-step/',
+            prompts: []
+        })
+    }),
+    debugMode: false,
+    version: '1.0.0'
+};
+
+describe('Run Cancellation', () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe('run control', () => {
+        it('should cancel every run in progress and leave later runs alone', () => {
+            const runControl = new RunControl();
+            const listener = jest.fn();
+            runControl.onChange(listener);
+
+            const first = runControl.start();
+            const second = runControl.start();
+            expect(second).not.toBe(first);
+
+            expect(runControl.cancel()).toBe(true);
+            expect(first.aborted).toBe(true);
+            expect(second.aborted).toBe(true);
+            expect((first.reason as Error).message).toBe('Pipeline run cancelled');
+            expect(runControl.isCancelling()).toBe(true);
+
+            // A run started while the others are still stopping is not cancelled
+            const third = runControl.start();
+            expect(third.aborted).toBe(false);
+
+            runControl.finish(first);
+            runControl.finish(second);
+            expect(runControl.isRunning()).toBe(true);
+            expect(runControl.isCancelling()).toBe(false);
+            runControl.finish(third);
+            expect(runControl.isRunning()).toBe(false);
+
+            expect(runControl.cancel()).toBe(false);
+            expect(listener.mock.calls.map(call => call[0])).toEqual([true, true, true, true, true, true, false]);
+        });
+    });
+
+    describe('request signal', () => {
+        it('should abort with the run and stop listening once the request is done', () => {
+            const run = new AbortController();
+            const removeListener = jest.spyOn(run.signal, 'removeEventListener');
+
+            const request = createRequestSignal(60000, run.signal);
+            run.abort(new Error('Pipeline run cancelled'));
+            expect(request.signal.aborted).toBe(true);
+            expect((request.signal.reason as Error).message).toBe('Pipeline run cancelled');
+
+            request.cleanup();
+            expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+        });
+
+        it('should abort with a timeout error once the request takes too long', () => {
+            jest.useFakeTimers();
+            try {
+                const request = createRequestSignal(1000);
+                jest.advanceTimersByTime(1000);
+                expect((request.signal.reason as Error).name).toBe('TimeoutError');
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+    });
+
+    describe('step execution', () => {
+        const fileInfo: FileInfo = createMockFileInfo({ name: 'meeting.md', path: 'inbox/notes/meeting.md', extension: '.md' });
+        const originalFetch = global.fetch;
+        const mockFetch = jest.fn();
+
+        beforeEach(() => {
+            resetMocks();
+            global.fetch = mockFetch as unknown as typeof fetch;
+            mockVault.getAbstractFileByPath.mockImplementation((path: string) =>
+                path === fileInfo.path ? createMockTFile('meeting.md', path) : null
+            );
+            mockVault.read.mockResolvedValue('Discussed the Zephyr launch date.');
+
+            // The request only ends when it is aborted
+            mockFetch.mockReset();
+            mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+                init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+            }));
+        });
+
+        afterAll(() => {
+            global.fetch = originalFetch;
+        });
+
+        it('should cancel a request in flight without archiving or writing the file', async () => {
+            const controller = new AbortController();
+            const executor = new StepExecutor(mockApp as any, settings);
+
+            const pending = executor.execute('test-step', fileInfo, { signal: controller.signal });
+            await new Promise(resolve => setTimeout(resolve, 10));
+            controller.abort(new Error('Pipeline run cancelled'));
+            const result = await pending;
+
+            expect(result.status).toBe(ProcessingStatus.CANCELLED);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(mockVault.rename).not.toHaveBeenCalled();
+            expect(mockVault.create).not.toHaveBeenCalled();
+            expect(mockVault.modify).not.toHaveBeenCalled();
+        });
+
+        it('should cancel a request whose response body is still arriving', async () => {
+            // Headers arrive at once, the body only ends when the request is aborted
+            mockFetch.mockImplementation(async (_url: string, init: RequestInit) => ({
+                ok: true,
+                status: 200,
+                headers: new Headers(),
+                json: () => new Promise((_resolve, reject) => {
+                    init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+                })
+            }));
+            const controller = new AbortController();
+
+            const pending = new StepExecutor(mockApp as any, settings).execute('test-step', fileInfo, { signal: controller.signal });
+            await new Promise(resolve => setTimeout(resolve, 10));
+            controller.abort(new Error('Pipeline run cancelled'));
+
+            expect((await pending).status).toBe(ProcessingStatus.CANCELLED);
+            expect(mockVault.rename).not.toHaveBeenCalled();
+        });
+
+        it('should not fall through to the next model config of a cancelled file', async () => {
+            const chainSettings: ContentPipelineSettings = {
+                ...settings,
+                parsedPipelineConfig: createMockPipelineConfig({
+                    'test-step': createMockPipelineStep({ modelConfig: ['openai-gpt', 'test-model'], input: 'inbox/notes/', prompts: [] })
+                })
+            };
+            const controller = new AbortController();
+            controller.abort(new Error('Pipeline run cancelled'));
+
+            const result = await new StepExecutor(mockApp as any, chainSettings).execute('test-step', fileInfo, { signal: controller.signal });
+
+            expect(result.status).toBe(ProcessingStatus.CANCELLED);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('batch processing', () => {
+        it('should stop claiming files and cancel the files in progress', async () => {
+            const files = ['a.md', 'b.md', 'c.md'].map(name => createMockFileInfo({ name, path: `inbox/notes/${name}` }));
+            const controller = new AbortController();
+            const executor = new PipelineExecutor({} as any, settings);
+            const internals = executor as unknown as {
+                fileDiscovery: { findNextAvailableFile: jest.Mock };
+                stepChain: { executeStep: jest.Mock };
+            };
+
+            internals.fileDiscovery.findNextAvailableFile = jest.fn(async (_config, excludeFiles: Set<string>) => {
+                const file = files.find(candidate => !excludeFiles.has(candidate.path));
+                return file ? { file, stepId: 'test-step' } : null;
+            });
+            internals.stepChain.executeStep = jest.fn(async (stepId: string, file: FileInfo, options: { signal: AbortSignal }) => {
+                if (file.name === 'a.md') {
+                    controller.abort();
+                    return { inputFile: file, status: ProcessingStatus.COMPLETED, outputFiles: [], startTime: new Date(), stepId };
+                }
+                expect(options.signal.aborted).toBe(true);
+                return { inputFile: file, status: ProcessingStatus.CANCELLED, outputFiles: [], startTime: new Date(), stepId };
+            });
+
+            const results: ProcessingResult[] = [];
+            for await (const result of executor.processAllFilesIterator({ concurrency: 2, signal: controller.signal })) {
+                results.push(result);
+            }
+
+            expect(results.map(result => [result.inputFile.name, result.status])).toEqual([
+                ['a.md', ProcessingStatus.COMPLETED],
+                ['b.md', ProcessingStatus.CANCELLED]
+            ]);
+            expect(internals.fileDiscovery.findNextAvailableFile).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('rate limiter', () => {
+        it('should stop waiting for capacity when the run is cancelled', async () => {
+            const limiter = new RateLimiter({ maxConcurrent: 1 });
+            const controller = new AbortController();
+            await limiter.acquire();
+
+            const waiting = limiter.acquire(0, controller.signal);
+            controller.abort(new Error('Pipeline run cancelled'));
+
+            await expect(waiting).rejects.toThrow('Pipeline run cancelled');
+        });
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Chain Execution Tests
+ *
+ * Covers running a single file through every following step: each output is
+ * processed by the step whose input folder it was written to.
+ */
+
+import { StepChain, flattenChainResults, collectFinalOutputs } from '../src/core/pipeline-executor';
+import { ContentPipelineSettings, FileInfo, PipelineStep, ProcessingStatus } from '../src/types';
+import { mockApp, mockVault, resetMocks } from './file-operations/setup';
+import {
+    createMockCompletion,
+    createMockFileInfo,
+    createMockPipelineStep,
+    createMockNotesSettings,
+    mockVaultFiles,
+    useMockFetch,
+    cleanup
+} from './setup';
+
+const createSettings = (summarizeOverrides: Partial<PipelineStep> = {}): ContentPipelineSettings => createMockNotesSettings(
+    { output: 'inbox/summaries/' },
+    {
+        'summarize': createMockPipelineStep({
+            modelConfig: 'openai-gpt',
+            input: 'inbox/summaries/',
+            output: 'Notes/',
+            archive: 'inbox/archive/summarize/',
+            prompts: [],
+            ...summarizeOverrides
+        })
+    }
+);
+
+const createCompletion = (...filenames: string[]) => createMockCompletion(
+    filenames.map(filename => ({ filename, content: `About ${filename}` }))
+);
+
+describe('Chain Execution', () => {
+    const fileInfo: FileInfo = createMockFileInfo({ name: 'meeting.md', path: 'inbox/notes/meeting.md', extension: '.md', mimeType: 'text/markdown' });
+    const mockFetch = useMockFetch();
+    let files: Map<string, string>;
+
+    beforeEach(() => {
+        resetMocks();
+        mockFetch
+            .mockResolvedValueOnce(createCompletion('ideas', 'tasks'))
+            .mockResolvedValueOnce(createCompletion('ideas-summary'))
+            .mockResolvedValueOnce(createCompletion('tasks-summary'));
+        files = new Map([[fileInfo.path, 'Meeting notes']]);
+        mockVaultFiles(files);
+    });
+
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('should process every output with its next step', async () => {
+        const chain = await new StepChain(mockApp as any, createSettings()).executeChain('process-notes', fileInfo);
+
+        expect(chain.result.outputFiles).toEqual(['inbox/summaries/ideas.md', 'inbox/summaries/tasks.md']);
+        expect(chain.finalOutputs).toEqual([]);
+        expect(chain.children.map(child => [child.result.stepId, child.result.inputFile.path])).toEqual([
+            ['summarize', 'inbox/summaries/ideas.md'],
+            ['summarize', 'inbox/summaries/tasks.md']
+        ]);
+        expect(flattenChainResults(chain).map(result => result.status)).toEqual(Array(3).fill(ProcessingStatus.COMPLETED));
+        expect(collectFinalOutputs(chain)).toEqual(['Notes/ideas-summary.md', 'Notes/tasks-summary.md']);
+        expect(files.has('inbox/archive/summarize/ideas.md')).toBe(true);
+        expect(files.has('inbox/summaries/tasks.md')).toBe(false);
+    });
+
+    it('should continue with the other outputs when a branch fails', async () => {
+        const create = mockVault.create.getMockImplementation()!;
+        mockVault.create.mockImplementation(async (path: string, data: string) => {
+            if (path === 'Notes/ideas-summary.md') throw new Error('Disk full');
+            return create(path, data);
+        });
+
+        const chain = await new StepChain(mockApp as any, createSettings()).executeChain('process-notes', fileInfo);
+
+        expect(chain.children.map(child => child.result.status)).toEqual([ProcessingStatus.FAILED, ProcessingStatus.COMPLETED]);
+        expect(collectFinalOutputs(chain)).toEqual(['Notes/tasks-summary.md']);
+        expect(files.has('inbox/summaries/ideas.md')).toBe(true);
+    });
+
+    it('should leave outputs for an aggregating step waiting', async () => {
+        const chain = await new StepChain(mockApp as any, createSettings({
+            aggregate: { minFiles: 5 }
+        })).executeChain('process-notes', fileInfo);
+
+        expect(chain.children).toEqual([]);
+        expect(chain.waitingOutputs).toEqual(['inbox/summaries/ideas.md', 'inbox/summaries/tasks.md']);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+});
@@ -5,7 +5,7 @@
 
 import * as v from 'valibot';
 import { ChatClient } from '../src/api/chat-client';
-import { yamlToMessages, isSupportedChatModel } from '../src/api/chat-utils';
+import { yamlToMessages, isSupportedChatModel, parseSectionsResponse, extractJsonContent } from '../src/api/chat-utils';
 import { chatRequestSchema } from '../src/validation';
 import { DEFAULT_CHAT_CONFIG } from '../src/api/chat-types';
 import { createMockStepRouting } from './setup';
@@ -307,4 +307,108 @@ Use the 'nextStep' field to route content to the most appropriate next processin
             expect(routingInstructions).toContain('response frontmatter');
         });
     });
+    describe('Structured Output Modes', () => {
+        const originalFetch = global.fetch;
+        const mockFetch = jest.fn();
+
+        const completion = (content: string) => ({
+            ok: true,
+            status: 200,
+            json: async () => ({
+                model: 'llama3.1',
+                choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+                usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+            })
+        });
+
+        beforeEach(() => {
+            mockFetch.mockReset();
+            global.fetch = mockFetch as unknown as typeof fetch;
+        });
+
+        afterAll(() => {
+            global.fetch = originalFetch;
+        });
+
+        test('should send strict json_schema response format by default', async () => {
+            mockFetch.mockResolvedValueOnce(completion('{"sections":[{"filename":"a.md","content":"A"}]}'));
+
+            const client = new ChatClient({ apiKey: 'sk-test123456789012345678901234567890' });
+            await client.processStructuredRequest('prompt');
+
+            const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+            expect(body.response_format.type).toBe('json_schema');
+            expect(body.response_format.json_schema.strict).toBe(true);
+            expect(body.messages[0].content).toBe('prompt');
+        });
+
+        test('should use JSON mode and describe the schema in the prompt', async () => {
+            mockFetch.mockResolvedValueOnce(completion('{"sections":[{"filename":"a.md","content":"A","nextStep":"next"}]}'));
+
+            const client = new ChatClient({ apiKey: 'ollama-local-key', baseUrl: 'http://localhost:11434/v1', structuredOutput: 'json_object' });
+            const response = await client.processStructuredRequest('prompt', ['next']);
+
+            const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+            expect(body.response_format).toEqual({ type: 'json_object' });
+            expect(body.messages[0].content).toContain('<output_format>');
+            expect(response.sections[0].nextStep).toBe('next');
+        });
+
+        test('should omit response format in prompt-only mode', async () => {
+            mockFetch.mockResolvedValueOnce(completion('Here you go:\n```json\n{"sections":[{"filename":"a.md","content":"A"}]}\n```'));
+
+            const client = new ChatClient({ apiKey: 'llamacpp-local-key', structuredOutput: 'prompt' });
+            const response = await client.processStructuredRequest('prompt');
+
+            const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+            expect(body.response_format).toBeUndefined();
+            expect(response.sections).toHaveLength(1);
+        });
+
+        test('should re-ask the model once after malformed output', async () => {
+            mockFetch
+                .mockResolvedValueOnce(completion('{"sections": "not an array"}'))
+                .mockResolvedValueOnce(completion('{"sections":[{"filename":"a.md","content":"A"}]}'));
+
+            const client = new ChatClient({ apiKey: 'ollama-local-key', structuredOutput: 'json_object' });
+            const response = await client.processStructuredRequest('prompt');
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            const retryBody = JSON.parse(mockFetch.mock.calls[1][1].body);
+            expect(retryBody.messages).toHaveLength(3);
+            expect(retryBody.messages[1].role).toBe('assistant');
+            expect(retryBody.messages[2].content).toContain('previous response was invalid');
+            expect(response.sections[0].filename).toBe('a.md');
+            expect(response.usage).toEqual({ promptTokens: 20, completionTokens: 10 });
+        });
+
+        test('should fail when the corrected output is still malformed', async () => {
+            mockFetch.mockResolvedValue(completion('not json at all'));
+
+            const client = new ChatClient({ apiKey: 'ollama-local-key', structuredOutput: 'prompt' });
+            await expect(client.processStructuredRequest('prompt')).rejects.toThrow(/not valid JSON/);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        test('should keep code blocks inside section content', async () => {
+            const content = 'Run it:\n```bash\nnpm test\n```\nDone.';
+            const json = JSON.stringify({ sections: [{ filename: 'a.md', content }] });
+            mockFetch.mockResolvedValueOnce(completion(json));
+
+            const client = new ChatClient({ apiKey: 'sk-test123456789012345678901234567890' });
+            const response = await client.processStructuredRequest('prompt');
+
+            expect(response.sections[0].content).toBe(content);
+            expect(parseSectionsResponse(json)[0].content).toBe(content);
+            expect(parseSectionsResponse(`\`\`\`json\n${json}\n\`\`\``)[0].content).toBe(content);
+            expect(parseSectionsResponse(`Here you go:\n${json}`)[0].content).toBe(content);
+        });
+
+        test('should validate sections and routing options', () => {
+            expect(extractJsonContent('```json\n{"a":1}\n```')).toBe('{"a":1}');
+            expect(() => parseSectionsResponse('{"sections":[]}')).toThrow(/at least one/);
+            expect(() => parseSectionsResponse('{"sections":[{"filename":"a.md","content":"A","nextStep":"bogus"}]}', ['next']))
+                .toThrow(/invalid nextStep/);
+        });
+    });
 });
@@ -0,0 +1,130 @@
+/**
+ * Claude API Client Tests
+ *
+ * Verifies the Messages API request shape and tool-use response parsing.
+ */
+
+import { ClaudeClient } from '../src/api/claude-client';
+import { DEFAULT_CLAUDE_CONFIG } from '../src/api/claude-types';
+import { isValidModelImplementation } from '../src/types';
+import { modelImplementationSchema } from '../src/validation/schemas';
+import * as v from 'valibot';
+
+const mockFetch = jest.fn();
+
+function createToolUseResponse(input: Record<string, unknown>) {
+    return {
+        ok: true,
+        status: 200,
+        json: async () => ({
+            id: 'msg_test',
+            type: 'message',
+            role: 'assistant',
+            model: 'claude-sonnet-4-20250514',
+            content: [{ type: 'tool_use', id: 'toolu_test', name: 'save_sections', input }],
+            stop_reason: 'tool_use',
+            usage: { input_tokens: 120, output_tokens: 40 }
+        })
+    };
+}
+
+describe('Claude API Integration', () => {
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+        mockFetch.mockReset();
+        global.fetch = mockFetch as unknown as typeof fetch;
+    });
+
+    afterAll(() => {
+        global.fetch = originalFetch;
+    });
+
+    describe('ClaudeClient Construction', () => {
+        test('should throw error without API key', () => {
+            expect(() => new ClaudeClient({ apiKey: '' })).toThrow(/API key required/);
+        });
+
+        test('should accept claude as model implementation', () => {
+            expect(isValidModelImplementation('claude')).toBe(true);
+            expect(() => v.parse(modelImplementationSchema, 'claude')).not.toThrow();
+        });
+    });
+
+    describe('Structured Requests', () => {
+        test('should send prompts as system prompt and force the sections tool', async () => {
+            mockFetch.mockResolvedValueOnce(createToolUseResponse({
+                sections: [{ filename: 'Note.md', content: '# Note', nextStep: 'create-note' }]
+            }));
+
+            const client = new ClaudeClient({ apiKey: 'sk-ant-test1234567890' });
+            await client.processStructuredRequest('<input_content>\nhello\n</input_content>', ['create-note'], {
+                model: 'claude-sonnet-4-20250514',
+                system: '<system_instructions>\nBe brief\n</system_instructions>'
+            });
+
+            const [url, init] = mockFetch.mock.calls[0];
+            const body = JSON.parse(init.body);
+
+            expect(url).toBe(`${DEFAULT_CLAUDE_CONFIG.baseUrl}/messages`);
+            expect(init.headers['x-api-key']).toBe('sk-ant-test1234567890');
+            expect(init.headers['anthropic-version']).toBe(DEFAULT_CLAUDE_CONFIG.apiVersion);
+            expect(body.system).toContain('Be brief');
+            expect(body.messages).toEqual([{ role: 'user', content: '<input_content>\nhello\n</input_content>' }]);
+            expect(body.tool_choice).toEqual({ type: 'tool', name: 'save_sections' });
+            expect(body.tools[0].input_schema.properties.sections.items.properties.nextStep.enum).toEqual(['create-note']);
+        });
+
+        test('should return sections from the tool call', async () => {
+            mockFetch.mockResolvedValueOnce(createToolUseResponse({
+                sections: [
+                    { filename: 'Todo.md', content: '- [ ] Call John' },
+                    { filename: 'Idea.md', content: 'New app idea' }
+                ]
+            }));
+
+            const client = new ClaudeClient({ apiKey: 'sk-ant-test1234567890' });
+            const response = await client.processStructuredRequest('prompt');
+
+            expect(response.sections).toHaveLength(2);
+            expect(response.isMultiFile).toBe(true);
+            expect(response.sections[0].filename).toBe('Todo.md');
+        });
+
+        test('should fail when the response contains no tool call', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                status: 200,
+                json: async () => ({
+                    content: [{ type: 'text', text: 'Sorry' }],
+                    stop_reason: 'end_turn'
+                })
+            });
+
+            const client = new ClaudeClient({ apiKey: 'sk-ant-test1234567890' });
+            await expect(client.processStructuredRequest('prompt')).rejects.toThrow(/save_sections/);
+        });
+
+        test('should fail when the tool call does not match the sections schema', async () => {
+            mockFetch
+                .mockResolvedValueOnce(createToolUseResponse({ sections: [{ filename: 'Todo.md' }] }))
+                .mockResolvedValueOnce(createToolUseResponse({ sections: [{ filename: 'Todo.md', content: 'A', nextStep: 'bogus' }] }));
+
+            const client = new ClaudeClient({ apiKey: 'sk-ant-test1234567890' });
+            await expect(client.processStructuredRequest('prompt')).rejects.toThrow(/does not match the sections schema/);
+            await expect(client.processStructuredRequest('prompt', ['create-note'])).rejects.toThrow(/invalid nextStep/);
+        });
+
+        test('should not retry authentication errors', async () => {
+            mockFetch.mockResolvedValue({
+                ok: false,
+                status: 401,
+                text: async () => JSON.stringify({ type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } })
+            });
+
+            const client = new ClaudeClient({ apiKey: 'sk-ant-test1234567890' });
+            await expect(client.processStructuredRequest('prompt')).rejects.toThrow(/invalid x-api-key/);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+});
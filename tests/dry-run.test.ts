@@ -0,0 +1,114 @@
+/**
+ * Dry Run Tests
+ *
+ * Covers previewing a step without API calls and with an API call that writes nothing.
+ */
+
+import { StepExecutor } from '../src/core/pipeline-executor/StepChain/StepExecutor';
+import { PipelineExecutor } from '../src/core/pipeline-executor';
+import { ContentPipelineSettings, FileInfo, ProcessingStatus } from '../src/types';
+import { mockApp, mockVault, resetMocks } from './file-operations/setup';
+import {
+    createMockCompletion,
+    createMockFileInfo,
+    createMockPipelineConfig,
+    createMockPipelineStep,
+    createMockSettings,
+    mockVaultFiles,
+    useMockFetch,
+    cleanup
+} from './setup';
+
+const settings: ContentPipelineSettings = createMockSettings(
+    createMockPipelineConfig({
+        'test-step': createMockPipelineStep({
+            modelConfig: 'openai-gpt',
+            input: 'inbox/notes/',
+            output: 'inbox/results/',
+            archive: 'inbox/archive/test-step/',
+            prompts: ['Prompts/summarize.md']
+        })
+    })
+);
+
+describe('Dry Run', () => {
+    const fileInfo: FileInfo = createMockFileInfo({ name: 'meeting.md', path: 'inbox/notes/meeting.md', extension: '.md' });
+    const mockFetch = useMockFetch();
+    let executor: StepExecutor;
+
+    beforeEach(() => {
+        resetMocks();
+        mockVaultFiles(new Map([
+            ['inbox/notes/meeting.md', 'Discussed the Zephyr launch date.'],
+            ['Prompts/summarize.md', 'Summarize the note.']
+        ]));
+
+        executor = new StepExecutor(mockApp as any, settings);
+    });
+
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('should show the prompt, archive path and output directories without an API call', async () => {
+        const result = await executor.execute('test-step', fileInfo, { dryRun: 'preview' });
+
+        expect(result.status).toBe(ProcessingStatus.COMPLETED);
+        expect(result.outputFiles).toEqual([]);
+        expect(result.archivePath).toBeUndefined();
+        expect(result.dryRun).toMatchObject({
+            mode: 'preview',
+            modelConfigId: 'openai-gpt',
+            model: 'gpt-4',
+            archivePath: 'inbox/archive/test-step/meeting.md',
+            outputDirectories: { default: 'inbox/results/' }
+        });
+        expect(result.dryRun?.prompt).toContain('Summarize the note.');
+        expect(result.dryRun?.prompt).toContain('Discussed the Zephyr launch date.');
+        expect(result.dryRun?.plannedOutputs).toBeUndefined();
+
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(mockVault.rename).not.toHaveBeenCalled();
+        expect(mockVault.create).not.toHaveBeenCalled();
+        expect(mockVault.modify).not.toHaveBeenCalled();
+        expect(mockVault.createFolder).not.toHaveBeenCalled();
+    });
+
+    it('should report the planned outputs of a real API call without writing them', async () => {
+        mockFetch.mockResolvedValueOnce(createMockCompletion(
+            [{ filename: 'zephyr-summary', content: 'Launch moved.' }],
+            { prompt_tokens: 120, completion_tokens: 8, total_tokens: 128 }
+        ));
+
+        const result = await executor.execute('test-step', fileInfo, { dryRun: 'api' });
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(result.outputFiles).toEqual([]);
+        expect(result.usage).toMatchObject({ promptTokens: 120, completionTokens: 8 });
+        expect(result.dryRun?.plannedOutputs).toHaveLength(1);
+        expect(result.dryRun?.plannedOutputs?.[0].path).toBe('inbox/results/zephyr-summary.md');
+        expect(result.dryRun?.plannedOutputs?.[0].content).toContain('source: "[[inbox/archive/test-step/meeting.md]]"');
+        expect(result.dryRun?.plannedOutputs?.[0].content).toContain('Launch moved.');
+
+        expect(mockVault.rename).not.toHaveBeenCalled();
+        expect(mockVault.create).not.toHaveBeenCalled();
+        expect(mockVault.modify).not.toHaveBeenCalled();
+    });
+
+    it('should not record dry runs of a batch in the job store', async () => {
+        const jobStore = { startRun: jest.fn(), markProcessing: jest.fn(), recordResult: jest.fn(), finishRun: jest.fn() };
+        const pipelineExecutor = new PipelineExecutor(mockApp as any, settings, jobStore as any);
+        const internals = pipelineExecutor as unknown as {
+            fileDiscovery: { findNextAvailableFile: jest.Mock };
+            stepChain: { executeStep: jest.Mock };
+        };
+        internals.fileDiscovery.findNextAvailableFile = jest.fn().mockResolvedValueOnce({ file: fileInfo, stepId: 'test-step' }).mockResolvedValue(null);
+        internals.stepChain.executeStep = jest.fn().mockResolvedValue({ inputFile: fileInfo, status: ProcessingStatus.COMPLETED, outputFiles: [], startTime: new Date(), stepId: 'test-step' });
+
+        await pipelineExecutor.processNextFile({ dryRun: 'preview' });
+
+        expect(internals.stepChain.executeStep).toHaveBeenCalledWith('test-step', fileInfo, { dryRun: 'preview' });
+        expect(jobStore.startRun).not.toHaveBeenCalled();
+        expect(jobStore.recordResult).not.toHaveBeenCalled();
+    });
+});
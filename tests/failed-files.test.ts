@@ -0,0 +1,148 @@
+/**
+ * Failed File Handling Tests
+ *
+ * Covers error notes, quarantine after repeated failures and queueing
+ * failed files again.
+ */
+
+import { FailedFileHandler } from '../src/core/failed-files';
+import { JobStore } from '../src/core/job-store';
+import { ContentPipelineSettings, ProcessingResult, ProcessingStatus } from '../src/types';
+import { mockApp, resetMocks } from './file-operations/setup';
+import {
+    createMockFileInfo,
+    createMockPipelineConfig,
+    createMockPipelineStep,
+    createMockSettings,
+    mockVaultFiles,
+    cleanup
+} from './setup';
+
+const inputPath = 'inbox/audio/memo.m4a';
+const errorNotePath = 'inbox/quarantine/memo.m4a.ff337193.error.md';
+
+const createFailure = (error = 'Invalid file format'): ProcessingResult => ({
+    inputFile: createMockFileInfo({ name: 'memo.m4a', path: inputPath, extension: '.m4a' }),
+    status: ProcessingStatus.FAILED,
+    outputFiles: [],
+    startTime: new Date('2025-03-10T09:30:00.000Z'),
+    endTime: new Date('2025-03-10T09:31:00.000Z'),
+    stepId: 'transcribe',
+    error
+});
+
+describe('Failed File Handling', () => {
+    let files: Map<string, string>;
+    let settings: ContentPipelineSettings;
+    let jobStore: JobStore;
+    let handler: FailedFileHandler;
+
+    const fail = async (error?: string) => {
+        const result = createFailure(error);
+        await jobStore.markProcessing(result.stepId, result.inputFile);
+        await jobStore.recordResult(result);
+        await handler.handleResult(result);
+    };
+
+    beforeEach(() => {
+        resetMocks();
+        files = new Map([[inputPath, 'audio']]);
+        mockVaultFiles(files);
+
+        settings = createMockSettings(
+            createMockPipelineConfig({ 'transcribe': createMockPipelineStep({ modelConfig: 'openai-whisper' }) }),
+            { maxFailures: 2 }
+        );
+        jobStore = new JobStore({});
+        handler = new FailedFileHandler(mockApp as any, settings, jobStore);
+    });
+
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('should write an error note and leave the file in place on the first failure', async () => {
+        await fail();
+
+        const note = files.get(errorNotePath);
+        expect(note).toContain('source: "[[inbox/audio/memo.m4a]]"');
+        expect(note).toContain('step: "transcribe"\nmodel: "openai-whisper"\nfailed: 2025-03-10T09:31:00.000Z\nattempts: 1\nfailures: 1\nquarantined: false');
+        expect(note).toContain('# memo.m4a failed\n\nInvalid file format');
+        expect(files.has(inputPath)).toBe(true);
+    });
+
+    it('should name the model config that failed in the error note of a failover chain', async () => {
+        settings.parsedPipelineConfig!['transcribe'].modelConfig = ['openai-whisper', 'local-whisper'];
+        const result = { ...createFailure(), failedModelConfig: 'local-whisper' };
+        await jobStore.recordResult(result);
+        await handler.handleResult(result);
+        expect(files.get(errorNotePath)).toContain('model: "local-whisper"');
+
+        await handler.handleResult(createFailure());
+        expect(files.get(errorNotePath)).toContain('model: "openai-whisper → local-whisper"');
+    });
+
+    it('should write separate error notes for files with the same name', async () => {
+        const otherPath = 'inbox/calls/memo.m4a';
+        files.set(otherPath, 'call');
+        await fail();
+        const result = { ...createFailure('Call is too long'), inputFile: createMockFileInfo({ name: 'memo.m4a', path: otherPath, extension: '.m4a' }) };
+        await jobStore.markProcessing(result.stepId, result.inputFile);
+        await jobStore.recordResult(result);
+        await handler.handleResult(result);
+
+        expect(files.get(errorNotePath)).toContain('Invalid file format');
+        expect(files.get('inbox/quarantine/memo.m4a.19bb7962.error.md')).toContain('Call is too long');
+    });
+
+    it('should quarantine the file after too many failures in a row', async () => {
+        await fail();
+        await fail('Audio file is corrupt');
+
+        expect(files.has(inputPath)).toBe(false);
+        expect(files.get('inbox/quarantine/memo.m4a')).toBe('audio');
+        expect(jobStore.getJob(inputPath)).toMatchObject({ attempts: 2, failures: 2, quarantinePath: 'inbox/quarantine/memo.m4a' });
+
+        const note = files.get(errorNotePath);
+        expect(note).toContain('source: "[[inbox/quarantine/memo.m4a]]"');
+        expect(note).toContain('quarantined: true');
+        expect(note).toContain('Audio file is corrupt');
+    });
+
+    it('should reset the failures once the file is processed', async () => {
+        await fail();
+        const result: ProcessingResult = { ...createFailure(), status: ProcessingStatus.COMPLETED, error: undefined };
+        await jobStore.recordResult(result);
+        await handler.handleResult(result);
+        await fail();
+
+        expect(jobStore.getJob(inputPath)).toMatchObject({ attempts: 3, failures: 1 });
+        expect(files.has(inputPath)).toBe(true);
+    });
+
+    it('should move quarantined files back when they are retried', async () => {
+        await fail();
+        await fail();
+        expect(handler.getFailedJobs().map(job => job.inputPath)).toEqual([inputPath]);
+
+        expect(await handler.retry([inputPath])).toEqual([inputPath]);
+
+        expect(files.get(inputPath)).toBe('audio');
+        expect(files.has('inbox/quarantine/memo.m4a')).toBe(false);
+        expect(files.has(errorNotePath)).toBe(false);
+        expect(jobStore.getJob(inputPath)).toMatchObject({ status: ProcessingStatus.PENDING, failures: 0 });
+        expect(jobStore.getJob(inputPath)?.quarantinePath).toBeUndefined();
+        expect(handler.getFailedJobs()).toEqual([]);
+    });
+
+    it('should never quarantine with a limit of 0', async () => {
+        settings.maxFailures = 0;
+
+        await fail();
+        await fail();
+        await fail();
+
+        expect(files.has(inputPath)).toBe(true);
+        expect(files.get(errorNotePath)).toContain('failures: 3');
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * File Watcher Tests
+ *
+ * Covers watch mode: per-step opt-in, debouncing, waiting for synced files
+ * to stop growing and the global pause setting.
+ */
+
+import { TFile } from 'obsidian';
+import { FileWatcher } from '../src/core/file-watcher';
+import { ContentPipelineSettings } from '../src/types';
+import { createMockModelsConfig, createMockPipelineConfig, createMockPipelineStep, cleanup } from './setup';
+
+const createFile = (path: string): TFile => {
+    const name = path.split('/').pop() || path;
+    return Object.setPrototypeOf({ path, name, extension: name.split('.').pop(), stat: { size: 2048, ctime: 0, mtime: 0 } }, TFile.prototype);
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('File Watcher', () => {
+    let settings: ContentPipelineSettings;
+    let files: Map<string, TFile>;
+    let sizes: Map<string, number[]>;
+    let processFile: jest.Mock;
+    let watcher: FileWatcher;
+
+    beforeEach(() => {
+        settings = {
+            modelsConfig: '{}',
+            pipelineConfig: '{}',
+            parsedModelsConfig: createMockModelsConfig(),
+            parsedPipelineConfig: createMockPipelineConfig({
+                'transcribe': createMockPipelineStep({ modelConfig: 'openai-whisper', input: 'Audio-Inbox/', watch: true }),
+                'summarize': createMockPipelineStep({ modelConfig: 'openai-gpt', input: 'inbox/notes/' })
+            }),
+            debugMode: false,
+            version: '1.0.0'
+        };
+        files = new Map();
+        sizes = new Map();
+
+        const app = {
+            vault: {
+                getAbstractFileByPath: jest.fn((path: string) => files.get(path) || null),
+                adapter: {
+                    // Each check reports the next recorded size; the last one repeats
+                    stat: jest.fn(async (path: string) => {
+                        const recorded = sizes.get(path);
+                        if (!files.has(path) || !recorded) return null;
+                        const size = recorded.length > 1 ? recorded.shift() : recorded[0];
+                        return { type: 'file', size, ctime: 0, mtime: 0 };
+                    })
+                }
+            }
+        };
+
+        processFile = jest.fn().mockResolvedValue(undefined);
+        watcher = new FileWatcher(app as any, settings, processFile, { debounceMs: 20, stabilityIntervalMs: 5, maxStabilityChecks: 10 });
+    });
+
+    afterEach(() => {
+        watcher.stop();
+        cleanup();
+    });
+
+    const addFile = (path: string, recordedSizes: number[] = [2048]) => {
+        const file = createFile(path);
+        files.set(path, file);
+        sizes.set(path, recordedSizes);
+        return file;
+    };
+
+    it('should process files of watched steps once their size is stable', async () => {
+        const file = addFile('Audio-Inbox/memo.m4a', [1024, 4096, 8192, 8192]);
+
+        watcher.handleFileEvent(file);
+        await wait(100);
+
+        expect(processFile).toHaveBeenCalledTimes(1);
+        expect(processFile).toHaveBeenCalledWith(file, 'transcribe');
+        expect(watcher.getPendingCount()).toBe(0);
+    });
+
+    it('should debounce repeated events for the same file', async () => {
+        const file = addFile('Audio-Inbox/memo.m4a');
+
+        watcher.handleFileEvent(file);
+        await wait(10);
+        watcher.handleFileEvent(file);
+        watcher.handleFileEvent(file);
+        await wait(100);
+
+        expect(processFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore steps without watch mode and unsupported files', async () => {
+        watcher.handleFileEvent(addFile('inbox/notes/meeting.md'));
+        watcher.handleFileEvent(addFile('Audio-Inbox/.memo.m4a.icloud'));
+        await wait(100);
+
+        expect(processFile).not.toHaveBeenCalled();
+    });
+
+    it('should pick up files with the extensions a watched step filters for', async () => {
+        settings.parsedPipelineConfig!['transcribe'].inputFilter = { extensions: ['webm'] };
+        const file = addFile('Audio-Inbox/call.webm');
+
+        watcher.handleFileEvent(file);
+        watcher.handleFileEvent(addFile('Audio-Inbox/memo.m4a'));
+        await wait(100);
+
+        expect(processFile).toHaveBeenCalledTimes(1);
+        expect(processFile).toHaveBeenCalledWith(file, 'transcribe');
+    });
+
+    it('should give up on files that keep growing or disappear', async () => {
+        watcher.handleFileEvent(addFile('Audio-Inbox/growing.m4a', [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]));
+        const removed = addFile('Audio-Inbox/removed.m4a');
+        watcher.handleFileEvent(removed);
+        files.delete(removed.path);
+        await wait(150);
+
+        expect(processFile).not.toHaveBeenCalled();
+        expect(watcher.getPendingCount()).toBe(0);
+    });
+
+    it('should not pick up new files while watch mode is paused', async () => {
+        settings.watchPaused = true;
+        watcher.handleFileEvent(addFile('Audio-Inbox/memo.m4a'));
+        await wait(100);
+
+        expect(processFile).not.toHaveBeenCalled();
+    });
+
+    it('should process queued files one at a time', async () => {
+        let active = 0;
+        let maxActive = 0;
+        processFile.mockImplementation(async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await wait(20);
+            active--;
+        });
+
+        watcher.handleFileEvent(addFile('Audio-Inbox/a.m4a'));
+        watcher.handleFileEvent(addFile('Audio-Inbox/b.m4a'));
+        await wait(200);
+
+        expect(processFile).toHaveBeenCalledTimes(2);
+        expect(maxActive).toBe(1);
+    });
+});
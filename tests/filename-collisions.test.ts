@@ -0,0 +1,99 @@
+/**
+ * Filename Collision Tests
+ *
+ * Covers the collision policies for outputs and archived inputs and the
+ * collisions reported in the processing result.
+ */
+
+import { resolveCollision } from '../src/core/path-operations/resolve-collision';
+import { StepExecutor } from '../src/core/pipeline-executor/StepChain/StepExecutor';
+import { getConfigErrors } from '../src/validation';
+import { FileInfo, PipelineStep, ProcessingStatus } from '../src/types';
+import { mockApp, mockVault, resetMocks } from './file-operations/setup';
+import {
+    createMockCompletion,
+    createMockFileInfo,
+    createMockModelsConfig,
+    createMockPipelineConfig,
+    createMockPipelineStep,
+    createMockNotesSettings,
+    mockVaultFiles,
+    useMockFetch,
+    cleanup
+} from './setup';
+
+describe('Filename Collisions', () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe('resolving', () => {
+        const taken = new Set(['Notes/plan.md', 'Notes/plan-1.md', 'Notes/plan-20240115-103000.md']);
+        const exists = (path: string) => taken.has(path);
+        const now = new Date('2024-01-15T10:30:00.000Z');
+
+        it('should keep free paths and overwrite when asked to', () => {
+            expect(resolveCollision('Notes/idea.md', 'fail', exists)).toBe('Notes/idea.md');
+            expect(resolveCollision('Notes/plan.md', 'overwrite', exists)).toBe('Notes/plan.md');
+        });
+
+        it('should add a numeric or timestamp suffix to taken paths', () => {
+            expect(resolveCollision('Notes/plan.md', 'suffix', exists)).toBe('Notes/plan-2.md');
+            expect(resolveCollision('Notes/plan.md', 'timestamp', exists, now)).toBe('Notes/plan-20240115-103000-1.md');
+            expect(resolveCollision('Notes/plan-1.md', 'timestamp', exists, now)).toBe('Notes/plan-1-20240115-103000.md');
+        });
+
+        it('should fail on taken paths with the fail policy', () => {
+            expect(() => resolveCollision('Notes/plan.md', 'fail', exists)).toThrow('File already exists: Notes/plan.md');
+        });
+    });
+
+    describe('step execution', () => {
+        const fileInfo: FileInfo = createMockFileInfo({ name: 'plan.md', path: 'inbox/notes/plan.md', extension: '.md' });
+        let files: Map<string, string>;
+        const mockFetch = useMockFetch();
+
+        beforeEach(() => {
+            resetMocks();
+            mockFetch.mockResolvedValue(createMockCompletion([{ filename: 'plan', content: 'Plan the garden.' }]));
+
+            files = new Map([
+                [fileInfo.path, 'Plan the garden'],
+                ['Notes/plan.md', 'Old plan'],
+                ['inbox/archive/process-notes/plan.md', 'Old plan']
+            ]);
+            mockVaultFiles(files);
+        });
+
+        it('should write next to existing files and report the collisions', async () => {
+            const result = await new StepExecutor(mockApp as any, createMockNotesSettings()).execute('process-notes', fileInfo);
+
+            expect(result.status).toBe(ProcessingStatus.COMPLETED);
+            expect(result.outputFiles).toEqual(['Notes/plan-1.md']);
+            expect(result.archivePath).toBe('inbox/archive/process-notes/plan-1.md');
+            expect(result.collisions).toEqual([
+                { kind: 'output', path: 'Notes/plan.md', resolvedPath: 'Notes/plan-1.md', policy: 'suffix' },
+                { kind: 'archive', path: 'inbox/archive/process-notes/plan.md', resolvedPath: 'inbox/archive/process-notes/plan-1.md', policy: 'suffix' }
+            ]);
+            expect(mockVault.create).toHaveBeenCalledWith('Notes/plan-1.md', expect.stringContaining('Plan the garden.'));
+        });
+
+        it('should leave the input in place when an output collides under the fail policy', async () => {
+            const result = await new StepExecutor(mockApp as any, createMockNotesSettings({ onCollision: 'fail' })).execute('process-notes', fileInfo);
+
+            expect(result.status).toBe(ProcessingStatus.FAILED);
+            expect(result.error).toContain('File already exists: Notes/plan.md');
+            expect(mockVault.rename).not.toHaveBeenCalled();
+            expect(mockVault.create).not.toHaveBeenCalled();
+        });
+    });
+
+    it('should validate the collision policy', () => {
+        const errors = (onCollision: string) => getConfigErrors(createMockModelsConfig(), createMockPipelineConfig({
+            'test-step': createMockPipelineStep({ onCollision: onCollision as PipelineStep['onCollision'] })
+        }));
+
+        expect(errors('timestamp')).toEqual([]);
+        expect(errors('rename')).toContain('On collision must be one of: suffix, timestamp, fail, overwrite');
+    });
+});
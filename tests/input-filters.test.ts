@@ -0,0 +1,140 @@
+/**
+ * Input Filter Tests
+ *
+ * Covers the filters a step applies to the files of its input folder, in
+ * discovery and when looking up the step for a single file.
+ */
+
+import { FileDiscovery } from '../src/core/file-operations';
+import { matchesInputFilter, InputFilterInput } from '../src/core/input-filter';
+import { getConfigErrors } from '../src/validation';
+import { InputFilter, PipelineConfiguration } from '../src/types';
+import { mockApp, createMockTFile, resetMocks } from './file-operations/setup';
+import { createMockModelsConfig, createMockPipelineConfig, createMockPipelineStep, mockVaultFiles, cleanup } from './setup';
+
+describe('Input Filters', () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe('filters', () => {
+        const input: InputFilterInput = {
+            relativePath: 'meetings/2024/standup.md',
+            extension: '.md',
+            size: 1200,
+            content: '---\nstatus: "final"\ntype: meeting\n---\nAgenda'
+        };
+
+        it('should hold when every filter set holds', () => {
+            const filter: InputFilter = {
+                include: ['meetings/**'],
+                exclude: ['*-draft.md'],
+                extensions: ['MD', '.txt'],
+                minSize: 1000,
+                maxSize: 5000,
+                frontmatter: ['status != draft', 'type = meeting', 'type', '!private']
+            };
+
+            expect(matchesInputFilter(filter, input)).toBe(true);
+            expect(matchesInputFilter(undefined, input)).toBe(true);
+            expect(matchesInputFilter({}, input)).toBe(true);
+        });
+
+        it('should match globs without a slash against the file name', () => {
+            expect(matchesInputFilter({ include: ['*.md'] }, input)).toBe(true);
+            expect(matchesInputFilter({ include: ['*.md'] }, { ...input, relativePath: 'standup.txt' })).toBe(false);
+            expect(matchesInputFilter({ include: ['meetings/*.md'] }, input)).toBe(false);
+            expect(matchesInputFilter({ include: ['**/standup.md'] }, { ...input, relativePath: 'standup.md' })).toBe(true);
+            expect(matchesInputFilter({ exclude: ['stand*'] }, input)).toBe(false);
+        });
+
+        it('should reject files that fail any filter', () => {
+            expect(matchesInputFilter({ extensions: ['m4a'] }, input)).toBe(false);
+            expect(matchesInputFilter({ maxSize: 1000 }, input)).toBe(false);
+            expect(matchesInputFilter({ frontmatter: ['status = draft'] }, input)).toBe(false);
+            expect(matchesInputFilter({ frontmatter: ['!status'] }, input)).toBe(false);
+            expect(matchesInputFilter({ frontmatter: ['type = meeting'] }, { ...input, content: 'No frontmatter' })).toBe(false);
+            expect(matchesInputFilter({ frontmatter: ['status != draft'] }, { ...input, content: undefined })).toBe(true);
+        });
+    });
+
+    describe('discovery', () => {
+        let discovery: FileDiscovery;
+
+        const config: PipelineConfiguration = createMockPipelineConfig({
+            'transcribe': createMockPipelineStep({
+                modelConfig: 'openai-whisper',
+                input: 'inbox/',
+                output: 'inbox/transcripts/',
+                inputFilter: { extensions: ['m4a'] }
+            }),
+            'process-notes': createMockPipelineStep({
+                modelConfig: 'openai-gpt',
+                input: 'inbox/',
+                output: 'Notes/',
+                inputFilter: { include: ['*.md'], exclude: ['templates/**'], frontmatter: ['status != draft'] }
+            })
+        });
+
+        const getFile = (path: string) => createMockTFile(path.split('/').pop() || path, path) as any;
+
+        beforeEach(() => {
+            resetMocks();
+            mockVaultFiles(new Map([
+                ['inbox/a-draft.md', '---\nstatus: draft\n---\nNot yet'],
+                ['inbox/b-notes.txt', 'Unrelated'],
+                ['inbox/templates/c-meeting.md', 'Template'],
+                ['inbox/d-memo.m4a', ''],
+                ['inbox/e-ideas.md', '---\nstatus: final\n---\nIdeas']
+            ]));
+
+            discovery = new FileDiscovery(mockApp as any);
+        });
+
+        it('should only pick up files a step takes', async () => {
+            const notes = createMockPipelineConfig({ 'process-notes': config['process-notes'] });
+
+            expect(await discovery.findNextAvailableFile(notes, new Set())).toEqual(
+                expect.objectContaining({ stepId: 'process-notes', file: expect.objectContaining({ path: 'inbox/e-ideas.md' }) })
+            );
+            expect(await discovery.findNextAvailableFile(notes, new Set(['inbox/e-ideas.md']))).toBeNull();
+        });
+
+        it('should pick up files with the extensions a step filters for', async () => {
+            mockVaultFiles(new Map([
+                ['inbox/f-call.webm', ''],
+                ['inbox/g-voicemail.ogg', ''],
+                ['inbox/h-memo.m4a', '']
+            ]));
+            const recordings = createMockPipelineConfig({
+                'transcribe': createMockPipelineStep({ ...config['transcribe'], inputFilter: { extensions: ['webm', '.OGG'] } })
+            });
+
+            expect((await discovery.findNextAvailableFile(recordings, new Set()))?.file.path).toBe('inbox/f-call.webm');
+            expect((await discovery.findNextAvailableFile(recordings, new Set(['inbox/f-call.webm'])))?.file.path).toBe('inbox/g-voicemail.ogg');
+            expect(await discovery.findNextAvailableFile(recordings, new Set(['inbox/f-call.webm', 'inbox/g-voicemail.ogg']))).toBeNull();
+        });
+
+        it('should find the step whose filter a file passes when steps share an input folder', async () => {
+            expect(await discovery.findStepForFile(getFile('inbox/d-memo.m4a'), config)).toBe('transcribe');
+            expect(await discovery.findStepForFile(getFile('inbox/e-ideas.md'), config)).toBe('process-notes');
+            expect(await discovery.findStepForFile(getFile('inbox/a-draft.md'), config)).toBeNull();
+            expect(await discovery.findStepForFile(getFile('inbox/b-notes.txt'), config)).toBeNull();
+            expect(await discovery.findStepForFile(getFile('inbox/templates/c-meeting.md'), config)).toBeNull();
+        });
+    });
+
+    describe('validation', () => {
+        it('should reject malformed filters', () => {
+            const withFilter = (inputFilter: unknown) => createMockPipelineConfig({
+                'process-notes': createMockPipelineStep({ input: 'inbox/notes/', inputFilter: inputFilter as InputFilter })
+            });
+            const modelsConfig = createMockModelsConfig();
+
+            expect(getConfigErrors(modelsConfig, withFilter({ include: ['**/*.md'], frontmatter: ['status != draft', '!private'] }))).toEqual([]);
+            expect(getConfigErrors(modelsConfig, withFilter({ frontmatter: ['status !='] }))).toContain('Frontmatter predicates must look like "key = value", "key != value", "key" or "!key"');
+            expect(getConfigErrors(modelsConfig, withFilter({ minSize: 100, maxSize: 10 }))).toContain('Input filter min size cannot be larger than max size');
+            expect(getConfigErrors(modelsConfig, withFilter({ extension: ['md'] }))).toContain('Unknown input filter option');
+        });
+    });
+});
@@ -0,0 +1,192 @@
+/**
+ * Job Store Tests
+ *
+ * Covers job state, run history queries and resuming interrupted batch runs.
+ */
+
+import { App } from 'obsidian';
+import { JobStore } from '../src/core/job-store';
+import { PipelineExecutor } from '../src/core/pipeline-executor';
+import { FileInfo, PipelineState, ProcessingResult, ProcessingStatus } from '../src/types';
+import { createMockFileInfo, createMockPipelineConfig, createMockSettings } from './setup';
+
+const createResult = (path: string, status: ProcessingStatus, overrides: Partial<ProcessingResult> = {}): ProcessingResult => ({
+    inputFile: createMockFileInfo({ name: path.split('/').pop(), path }),
+    status,
+    outputFiles: status === ProcessingStatus.COMPLETED ? ['inbox/results/note.md'] : [],
+    startTime: new Date('2025-03-10T09:30:00.000Z'),
+    endTime: new Date('2025-03-10T09:31:00.000Z'),
+    stepId: 'test-step',
+    ...overrides
+});
+
+describe('Job Store', () => {
+    let state: PipelineState;
+    let persistState: jest.Mock;
+    let store: JobStore;
+
+    beforeEach(() => {
+        state = {};
+        persistState = jest.fn().mockResolvedValue(undefined);
+        store = new JobStore(state, persistState);
+    });
+
+    it('should track job status, attempts, outputs and errors', async () => {
+        const file = createMockFileInfo({ path: 'inbox/notes/a.md' });
+        const { run } = await store.startRun();
+
+        await store.markProcessing('test-step', file, run.id);
+        expect(store.getJob(file.path)).toMatchObject({ status: ProcessingStatus.PROCESSING, attempts: 1, runId: run.id });
+
+        await store.recordResult(createResult(file.path, ProcessingStatus.FAILED, { error: 'Rate limit exceeded' }), run.id);
+        await store.markProcessing('test-step', file, run.id);
+        await store.recordResult(createResult(file.path, ProcessingStatus.COMPLETED, { archivePath: 'archive/a.md' }), run.id);
+
+        expect(store.getJob(file.path)).toMatchObject({
+            status: ProcessingStatus.COMPLETED,
+            attempts: 2,
+            outputFiles: ['inbox/results/note.md'],
+            archivePath: 'archive/a.md'
+        });
+        expect(store.getJob(file.path)?.error).toBeUndefined();
+        expect(persistState).toHaveBeenCalled();
+        expect(state.jobStore?.history).toHaveLength(2);
+    });
+
+    it('should count individually processed files as attempts', async () => {
+        await store.recordResult(createResult('inbox/notes/a.md', ProcessingStatus.FAILED, { error: 'Timeout' }));
+        await store.recordResult(createResult('inbox/notes/a.md', ProcessingStatus.FAILED, { error: 'Timeout' }));
+
+        expect(store.getJob('inbox/notes/a.md')?.attempts).toBe(2);
+        expect(store.getHistory()[0].runId).toBeUndefined();
+    });
+
+    it('should query the run history newest first', async () => {
+        const { run } = await store.startRun();
+        await store.recordResult(createResult('inbox/notes/a.md', ProcessingStatus.COMPLETED), run.id);
+        await store.recordResult(createResult('inbox/notes/b.md', ProcessingStatus.FAILED, { error: 'Timeout' }), run.id);
+        await store.recordResult(createResult('inbox/notes/c.md', ProcessingStatus.COMPLETED, { stepId: 'other-step' }));
+
+        expect(store.getHistory().map(entry => entry.inputPath)).toEqual(['inbox/notes/c.md', 'inbox/notes/b.md', 'inbox/notes/a.md']);
+        expect(store.getHistory({ runId: run.id, status: ProcessingStatus.COMPLETED }).map(entry => entry.inputPath)).toEqual(['inbox/notes/a.md']);
+        expect(store.getHistory({ stepId: 'other-step' })).toHaveLength(1);
+        expect(store.getHistory({ limit: 1 })[0].inputPath).toBe('inbox/notes/c.md');
+    });
+
+    it('should resume an interrupted run and reset its jobs in progress', async () => {
+        const { run } = await store.startRun();
+        await store.markProcessing('test-step', createMockFileInfo({ path: 'inbox/notes/a.md' }), run.id);
+        await store.markProcessing('test-step', createMockFileInfo({ path: 'inbox/notes/b.md' }), run.id);
+        await store.recordResult(createResult('inbox/notes/b.md', ProcessingStatus.FAILED, { error: 'Bad request' }), run.id);
+
+        // Obsidian restarts: a new store reads the persisted data
+        const restarted = new JobStore(state, persistState);
+        expect(restarted.getUnfinishedRun()?.id).toBe(run.id);
+
+        const resumed = await restarted.startRun();
+        expect(resumed).toEqual({ run, resumed: true });
+        expect(restarted.getJob('inbox/notes/a.md')?.status).toBe(ProcessingStatus.PENDING);
+        expect(restarted.getFailedPaths(run.id)).toEqual(['inbox/notes/b.md']);
+
+        await restarted.finishRun(run.id);
+        expect(restarted.getUnfinishedRun()).toBeUndefined();
+        expect((await restarted.startRun()).resumed).toBe(false);
+    });
+
+    it('should leave an interrupted run to the next batch when asked not to resume', async () => {
+        const { run } = await store.startRun();
+        await store.markProcessing('test-step', createMockFileInfo({ path: 'inbox/notes/a.md' }), run.id);
+
+        const restarted = new JobStore(state, persistState);
+        const single = await restarted.startRun(false);
+        expect(single.resumed).toBe(false);
+        expect(single.run.id).not.toBe(run.id);
+        expect(restarted.getJob('inbox/notes/a.md')?.status).toBe(ProcessingStatus.PROCESSING);
+        expect(restarted.getUnfinishedRun()?.id).toBe(run.id);
+    });
+
+    it('should not resume a run that is still in progress', async () => {
+        const { run } = await store.startRun();
+
+        expect(store.getUnfinishedRun()).toBeUndefined();
+        const concurrent = await store.startRun();
+        expect(concurrent.resumed).toBe(false);
+        expect(concurrent.run.id).not.toBe(run.id);
+    });
+
+    it('should persist per-file changes together once they settle', async () => {
+        jest.useFakeTimers();
+        try {
+            const { run } = await store.startRun();
+            persistState.mockClear();
+
+            await store.markProcessing('test-step', createMockFileInfo({ path: 'inbox/notes/a.md' }), run.id);
+            await store.recordResult(createResult('inbox/notes/a.md', ProcessingStatus.COMPLETED), run.id);
+            expect(persistState).not.toHaveBeenCalled();
+
+            await jest.runOnlyPendingTimersAsync();
+            expect(persistState).toHaveBeenCalledTimes(1);
+
+            await store.recordResult(createResult('inbox/notes/b.md', ProcessingStatus.COMPLETED), run.id);
+            await store.flush();
+            expect(persistState).toHaveBeenCalledTimes(2);
+            expect(jest.getTimerCount()).toBe(0);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    describe('batch processing', () => {
+        const files = ['a.md', 'b.md', 'c.md'].map(name => createMockFileInfo({ name, path: `inbox/notes/${name}` }));
+
+        const createExecutor = () => {
+            const executor = new PipelineExecutor({} as App, createMockSettings(), store);
+            const internals = executor as unknown as {
+                getPipelineConfiguration: () => unknown;
+                fileDiscovery: { findNextAvailableFile: jest.Mock };
+                stepChain: { executeStep: jest.Mock };
+            };
+
+            internals.getPipelineConfiguration = () => createMockPipelineConfig();
+            internals.fileDiscovery.findNextAvailableFile = jest.fn(async (_config, excludeFiles: Set<string>) => {
+                const file = files.find(candidate => !excludeFiles.has(candidate.path));
+                return file ? { file, stepId: 'test-step' } : null;
+            });
+            internals.stepChain.executeStep = jest.fn(async (stepId: string, file: FileInfo) => {
+                if (file.name === 'b.md') throw new Error('API unavailable');
+                return createResult(file.path, ProcessingStatus.COMPLETED, { stepId });
+            });
+
+            return { executor, executeStep: internals.stepChain.executeStep };
+        };
+
+        it('should record every file of a batch run', async () => {
+            const { executor } = createExecutor();
+            const results: ProcessingResult[] = [];
+            for await (const result of executor.processAllFilesIterator()) {
+                results.push(result);
+            }
+
+            const [run] = store.getRuns();
+            expect(run.finishedAt).toBeDefined();
+            expect(store.getHistory({ runId: run.id })).toHaveLength(3);
+            expect(store.getJob('inbox/notes/b.md')).toMatchObject({ status: ProcessingStatus.FAILED, attempts: 1, error: 'API unavailable' });
+        });
+
+        it('should skip files that already failed in a resumed run', async () => {
+            const { run } = await store.startRun();
+            await store.markProcessing('test-step', files[1], run.id);
+            await store.recordResult(createResult(files[1].path, ProcessingStatus.FAILED, { error: 'API unavailable' }), run.id);
+
+            // Obsidian restarts before the run finished
+            store = new JobStore(state, persistState);
+            const { executor, executeStep } = createExecutor();
+            for await (const result of executor.processAllFilesIterator()) {
+                expect(result.inputFile.path).not.toBe(files[1].path);
+            }
+
+            expect(executeStep.mock.calls.map(call => call[1].name)).toEqual(['a.md', 'c.md']);
+            expect(store.getRuns()).toHaveLength(1);
+        });
+    });
+});
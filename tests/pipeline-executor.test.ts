@@ -7,9 +7,10 @@
 
 import { PipelineExecutor, ExecutionState, StepChain } from '../src/core/pipeline-executor';
 import { FileDiscovery } from '../src/core/file-operations';
-import { createMockPipelineConfig, createMockPipelineStep, createComplexPipelineConfig, cleanup } from './setup';
+import { StepExecutor } from '../src/core/pipeline-executor/StepChain/StepExecutor';
+import { createMockPipelineConfig, createMockPipelineStep, createMockModelsConfig, createMockFileInfo, createComplexPipelineConfig, cleanup } from './setup';
 import { App } from 'obsidian';
-import { ContentPipelineSettings, ProcessingStatus } from '../src/types';
+import { ContentPipelineSettings, FileInfo, ProcessingResult, ProcessingStatus } from '../src/types';
 
 // Mock app for testing
 const mockApp = {} as App;
@@ -296,6 +297,19 @@ describe('File Discovery', () => {
         }
     });
 
+    it('should skip excluded files that are still in the input folder', async () => {
+        const files = [
+            createMockFileInfo({ name: 'a.md', path: 'inbox/audio/a.md' }),
+            createMockFileInfo({ name: 'b.md', path: 'inbox/audio/b.md' })
+        ];
+        const discoverFiles = jest.spyOn(discovery, 'discoverFiles').mockResolvedValue(files);
+
+        const result = await discovery.findNextAvailableFile(createMockPipelineConfig(), new Set(['inbox/audio/a.md']));
+
+        expect(result?.file.path).toBe('inbox/audio/b.md');
+        expect(discoverFiles.mock.calls[0][1]?.limit).toBe(2);
+    });
+
     it('should prioritize files by step and then alphabetically', async () => {
         const multiStepConfig = {
             'step1': createMockPipelineStep({
@@ -474,3 +488,188 @@ describe('Step Chain', () => {
         });
     });
 });
+
+describe('Step Executor Model Failover', () => {
+    const fileInfo = createMockFileInfo({ name: 'note.md', path: 'inbox/notes/note.md', extension: '.md' });
+    let inputExists: boolean;
+    let executor: StepExecutor;
+    let chatExecute: jest.Mock;
+
+    const completedResult = (modelConfig: string) => ({
+        inputFile: fileInfo,
+        status: ProcessingStatus.COMPLETED,
+        outputFiles: ['inbox/results/note.md'],
+        startTime: new Date(),
+        stepId: 'test-step',
+        usage: { modelConfig, model: 'gpt-4', promptTokens: 1, completionTokens: 1, audioSeconds: 0 }
+    });
+
+    beforeEach(() => {
+        inputExists = true;
+        const app = {
+            vault: { getAbstractFileByPath: jest.fn(() => (inputExists ? {} : null)) }
+        } as unknown as App;
+        const settings: ContentPipelineSettings = {
+            ...mockSettings,
+            parsedModelsConfig: createMockModelsConfig(),
+            parsedPipelineConfig: createMockPipelineConfig({
+                'test-step': createMockPipelineStep({ modelConfig: ['openai-gpt', 'test-model'] })
+            })
+        };
+
+        executor = new StepExecutor(app, settings);
+        chatExecute = jest.fn();
+        (executor as unknown as { chatExecutor: { execute: jest.Mock } }).chatExecutor.execute = chatExecute;
+    });
+
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('should fall through to the next model config when the first one fails', async () => {
+        chatExecute
+            .mockRejectedValueOnce(new Error('Rate limit exceeded'))
+            .mockImplementationOnce(async (_stepId, _file, resolvedStep) => completedResult(resolvedStep.modelConfigId));
+
+        const result = await executor.execute('test-step', fileInfo);
+
+        expect(result.status).toBe(ProcessingStatus.COMPLETED);
+        expect(result.usage?.modelConfig).toBe('test-model');
+        expect(chatExecute.mock.calls.map(call => call[2].modelConfigId)).toEqual(['openai-gpt', 'test-model']);
+    });
+
+    it('should keep the usage billed by failed attempts', async () => {
+        const usage = (modelConfig: string, promptTokens: number) => ({ modelConfig, model: 'gpt-4', promptTokens, completionTokens: 5, audioSeconds: 0 });
+        chatExecute
+            .mockImplementationOnce(async (_stepId, _file, _resolvedStep, _signal, onUsage) => {
+                onUsage(usage('openai-gpt', 100));
+                onUsage(usage('openai-gpt', 150));
+                throw new Error('Rate limit exceeded');
+            })
+            .mockImplementationOnce(async (_stepId, _file, _resolvedStep, _signal, onUsage) => {
+                onUsage(usage('test-model', 80));
+                throw new Error('Server error 503');
+            });
+
+        const result = await executor.execute('test-step', fileInfo);
+
+        expect(result.status).toBe(ProcessingStatus.FAILED);
+        expect(result.failedUsage).toEqual([{ ...usage('openai-gpt', 250), completionTokens: 10 }, usage('test-model', 80)]);
+    });
+
+    it('should report every failure when the whole chain fails', async () => {
+        chatExecute
+            .mockRejectedValueOnce(new Error('Rate limit exceeded'))
+            .mockRejectedValueOnce(new Error('Server error'));
+
+        const result = await executor.execute('test-step', fileInfo);
+
+        expect(result.status).toBe(ProcessingStatus.FAILED);
+        expect(result.error).toBe('All model configs failed for step "test-step": openai-gpt: Rate limit exceeded; test-model: Server error');
+        expect(result.failedModelConfig).toBe('test-model');
+    });
+
+    it('should not fall through on errors of the request or the response', async () => {
+        chatExecute.mockRejectedValueOnce(new Error('Response does not match the sections schema: Invalid structure'));
+
+        const result = await executor.execute('test-step', fileInfo);
+
+        expect(result.status).toBe(ProcessingStatus.FAILED);
+        expect(result.error).toBe('Response does not match the sections schema: Invalid structure');
+        expect(chatExecute).toHaveBeenCalledTimes(1);
+
+        chatExecute.mockRejectedValueOnce(new Error('Chat API request failed: HTTP 400 invalid_request_error: Unsupported parameter'));
+        expect((await executor.execute('test-step', fileInfo)).error).toContain('HTTP 400');
+        expect(chatExecute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not fall through once the input file has been archived', async () => {
+        chatExecute.mockImplementationOnce(async () => {
+            inputExists = false;
+            throw new Error('Failed to save output');
+        });
+
+        const result = await executor.execute('test-step', fileInfo);
+
+        expect(result.status).toBe(ProcessingStatus.FAILED);
+        expect(result.error).toBe('Failed to save output');
+        expect(chatExecute).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('Concurrent Batch Processing', () => {
+    const files = ['a.md', 'b.md', 'c.md', 'd.md'].map(name => createMockFileInfo({ name, path: `inbox/notes/${name}` }));
+    const durations: Record<string, number> = { 'a.md': 100, 'b.md': 20, 'c.md': 10, 'd.md': 10 };
+
+    let executor: PipelineExecutor;
+    let executeStep: jest.Mock;
+    let claimed: string[];
+    let running: number;
+    let maxRunning: number;
+
+    beforeEach(() => {
+        claimed = [];
+        running = 0;
+        maxRunning = 0;
+
+        executor = new PipelineExecutor(mockApp, mockSettings);
+        const internals = executor as unknown as {
+            getPipelineConfiguration: () => unknown;
+            fileDiscovery: { findNextAvailableFile: jest.Mock };
+            stepChain: { executeStep: jest.Mock };
+        };
+
+        internals.getPipelineConfiguration = () => createMockPipelineConfig();
+        internals.fileDiscovery.findNextAvailableFile = jest.fn(async (_config, excludeFiles: Set<string>) => {
+            const file = files.find(candidate => !excludeFiles.has(candidate.path));
+            if (file) claimed.push(file.path);
+            return file ? { file, stepId: 'test-step' } : null;
+        });
+
+        executeStep = jest.fn(async (stepId: string, file: FileInfo) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, durations[file.name]));
+            running--;
+            if (file.name === 'c.md') throw new Error('API unavailable');
+            return { inputFile: file, status: ProcessingStatus.COMPLETED, outputFiles: [], startTime: new Date(), stepId };
+        });
+        internals.stepChain.executeStep = executeStep;
+    });
+
+    afterEach(() => {
+        cleanup();
+    });
+
+    const collect = async (options: { concurrency?: number; maxIterations?: number }) => {
+        const results: ProcessingResult[] = [];
+        for await (const result of executor.processAllFilesIterator(options)) {
+            results.push(result);
+        }
+        return results;
+    };
+
+    it('should process files in parallel and yield them in completion order', async () => {
+        const results = await collect({ concurrency: 2 });
+
+        expect(results.map(result => result.inputFile.name)).toEqual(['b.md', 'c.md', 'd.md', 'a.md']);
+        expect(results.find(result => result.inputFile.name === 'c.md')?.status).toBe(ProcessingStatus.FAILED);
+        expect(maxRunning).toBe(2);
+        expect(new Set(claimed).size).toBe(claimed.length);
+        expect(executeStep).toHaveBeenCalledTimes(4);
+    });
+
+    it('should process one file at a time by default', async () => {
+        const results = await collect({});
+
+        expect(results.map(result => result.inputFile.name)).toEqual(['a.md', 'b.md', 'c.md', 'd.md']);
+        expect(maxRunning).toBe(1);
+    });
+
+    it('should stop claiming files at maxIterations', async () => {
+        const results = await collect({ concurrency: 3, maxIterations: 2 });
+
+        expect(results).toHaveLength(2);
+        expect(claimed).toEqual(['inbox/notes/a.md', 'inbox/notes/b.md']);
+    });
+});
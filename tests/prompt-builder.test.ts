@@ -0,0 +1,65 @@
+/**
+ * Prompt Builder Tests
+ *
+ * Covers loading step prompt files as Whisper transcription hints.
+ */
+
+import { PromptBuilder } from '../src/core/prompt-builder';
+import { ContentPipelineSettings, ResolvedPipelineStep } from '../src/types';
+import { mockApp, mockVault, createMockTFile, resetMocks } from './file-operations/setup';
+import { createMockModelConfig, cleanup } from './setup';
+
+const createResolvedStep = (prompts: string[]): ResolvedPipelineStep => ({
+    stepId: 'transcribe',
+    modelConfig: createMockModelConfig({ implementation: 'whisper', model: 'whisper-1' }),
+    input: 'inbox/audio/',
+    output: 'inbox/transcripts/',
+    archive: 'inbox/archive/transcribe/',
+    prompts,
+    context: []
+});
+
+describe('PromptBuilder - transcription prompt', () => {
+    beforeEach(() => {
+        resetMocks();
+    });
+
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('should return an empty prompt when the step has no prompt files', async () => {
+        const builder = new PromptBuilder(mockApp as any);
+        expect(await builder.buildTranscriptionPrompt(createResolvedStep([]))).toBe('');
+    });
+
+    it('should read the vault copy without frontmatter', async () => {
+        mockVault.getAbstractFileByPath.mockReturnValue(createMockTFile('transcribe.md', 'Prompts/transcribe.md'));
+        mockVault.read.mockResolvedValue('---\ntags: [prompt]\n---\nMeeting with Anneliese Kowalczyk about Project Zephyr.');
+
+        const builder = new PromptBuilder(mockApp as any);
+        const prompt = await builder.buildTranscriptionPrompt(createResolvedStep(['Prompts/transcribe.md']));
+
+        expect(prompt).toBe('Meeting with Anneliese Kowalczyk about Project Zephyr.');
+    });
+
+    it('should fall back to config-defined prompts', async () => {
+        mockVault.getAbstractFileByPath.mockReturnValue(null);
+        const settings = {
+            configDefinedPrompts: { 'Prompts/transcribe.md': 'Vocabulary: Zephyr, Kowalczyk.' }
+        } as unknown as ContentPipelineSettings;
+
+        const builder = new PromptBuilder(mockApp as any, settings);
+        const prompt = await builder.buildTranscriptionPrompt(createResolvedStep(['Prompts/transcribe.md']));
+
+        expect(prompt).toBe('Vocabulary: Zephyr, Kowalczyk.');
+    });
+
+    it('should fail when a prompt file cannot be found', async () => {
+        mockVault.getAbstractFileByPath.mockReturnValue(null);
+
+        const builder = new PromptBuilder(mockApp as any);
+        await expect(builder.buildTranscriptionPrompt(createResolvedStep(['Prompts/missing.md'])))
+            .rejects.toThrow('Prompt file not found: Prompts/missing.md');
+    });
+});
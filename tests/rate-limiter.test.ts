@@ -0,0 +1,157 @@
+/**
+ * Rate Limiter Tests
+ */
+
+import { RateLimiter, getRetryDelay, parseResetDelay, estimateRequestTokens } from '../src/api/rate-limiter';
+import { ChatClient } from '../src/api/chat-client';
+
+describe('Rate Limiter', () => {
+    describe('header parsing', () => {
+        it('should parse OpenAI reset durations, seconds and timestamps', () => {
+            expect(parseResetDelay('1s')).toBe(1000);
+            expect(parseResetDelay('6m0s')).toBe(360000);
+            expect(parseResetDelay('20ms')).toBe(20);
+            expect(parseResetDelay('1.5')).toBe(1500);
+            expect(parseResetDelay(new Date(Date.now() + 30000).toISOString())).toBeGreaterThan(29000);
+            expect(parseResetDelay('soon')).toBeUndefined();
+            expect(parseResetDelay(null)).toBeUndefined();
+        });
+
+        it('should prefer Retry-After over exhausted budget resets', () => {
+            expect(getRetryDelay(new Headers({ 'retry-after': '3', 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '10s' }))).toBe(3000);
+            expect(getRetryDelay(new Headers({ 'retry-after-ms': '250' }))).toBe(250);
+        });
+
+        it('should wait for the exhausted budget that resets last', () => {
+            const headers = new Headers({
+                'x-ratelimit-remaining-requests': '0',
+                'x-ratelimit-reset-requests': '2s',
+                'x-ratelimit-remaining-tokens': '0',
+                'x-ratelimit-reset-tokens': '7s'
+            });
+            expect(getRetryDelay(headers)).toBe(7000);
+            expect(getRetryDelay(new Headers({ 'x-ratelimit-remaining-tokens': '1200', 'x-ratelimit-reset-tokens': '7s' }))).toBeUndefined();
+            expect(getRetryDelay(undefined)).toBeUndefined();
+        });
+
+        it('should estimate prompt tokens plus the completion budget', () => {
+            expect(estimateRequestTokens('x'.repeat(400), 1000)).toBe(1100);
+        });
+    });
+
+    describe('budgets', () => {
+        beforeEach(() => {
+            jest.useFakeTimers();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('should hold requests beyond the requests-per-minute budget until the window moves', async () => {
+            const limiter = new RateLimiter({ requestsPerMinute: 2 });
+            (await limiter.acquire())();
+            (await limiter.acquire())();
+
+            expect(limiter.getWaitTime()).toBe(60000);
+
+            let started = false;
+            const pending = limiter.acquire().then(release => {
+                started = true;
+                release();
+            });
+
+            await jest.advanceTimersByTimeAsync(59000);
+            expect(started).toBe(false);
+
+            await jest.advanceTimersByTimeAsync(1000);
+            await pending;
+            expect(started).toBe(true);
+        });
+
+        it('should count tokens against the tokens-per-minute budget', async () => {
+            const limiter = new RateLimiter({ tokensPerMinute: 1000 });
+            const release = await limiter.acquire(800);
+
+            expect(limiter.getWaitTime(300)).toBeGreaterThan(0);
+            release(500);
+            expect(limiter.getWaitTime(300)).toBe(0);
+        });
+
+        it('should let a single oversized request run when the window is empty', () => {
+            const limiter = new RateLimiter({ tokensPerMinute: 1000 });
+            expect(limiter.getWaitTime(5000)).toBe(0);
+        });
+
+        it('should start waiting requests when a request in flight completes', async () => {
+            const limiter = new RateLimiter({ maxConcurrent: 1 });
+            const release = await limiter.acquire();
+
+            expect(limiter.getWaitTime()).toBe(Infinity);
+
+            let started = false;
+            const pending = limiter.acquire().then(() => {
+                started = true;
+            });
+
+            await jest.advanceTimersByTimeAsync(10000);
+            expect(started).toBe(false);
+
+            release();
+            await pending;
+            expect(started).toBe(true);
+        });
+
+        it('should pause all requests when the API reports an exhausted budget', () => {
+            const limiter = new RateLimiter();
+            limiter.updateFromHeaders(new Headers({ 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '5s' }));
+
+            expect(limiter.getWaitTime()).toBe(5000);
+            jest.advanceTimersByTime(5000);
+            expect(limiter.getWaitTime()).toBe(0);
+        });
+    });
+
+    describe('client integration', () => {
+        const originalFetch = global.fetch;
+        const mockFetch = jest.fn();
+
+        beforeEach(() => {
+            mockFetch.mockReset();
+            global.fetch = mockFetch as unknown as typeof fetch;
+        });
+
+        afterAll(() => {
+            global.fetch = originalFetch;
+        });
+
+        it('should retry a 429 after the Retry-After delay and hold back other requests', async () => {
+            const limiter = new RateLimiter();
+            const pauseFor = jest.spyOn(limiter, 'pauseFor');
+
+            mockFetch
+                .mockResolvedValueOnce({
+                    ok: false,
+                    status: 429,
+                    headers: new Headers({ 'retry-after-ms': '10' }),
+                    text: async () => 'Rate limit exceeded'
+                })
+                .mockResolvedValueOnce({
+                    ok: true,
+                    status: 200,
+                    headers: new Headers(),
+                    json: async () => ({
+                        model: 'gpt-4o',
+                        choices: [{ index: 0, message: { role: 'assistant', content: '{"sections":[{"filename":"a.md","content":"A"}]}' }, finish_reason: 'stop' }]
+                    })
+                });
+
+            const client = new ChatClient({ apiKey: 'sk-proj-test1234567890', rateLimiter: limiter });
+            const response = await client.processStructuredRequest('Prompt');
+
+            expect(response.sections[0].content).toBe('A');
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(pauseFor).toHaveBeenCalledWith(10);
+        });
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * Review Gate Tests
+ *
+ * Covers holding the outputs of steps that require approval, skipping them in
+ * discovery, and approving, rejecting and re-routing them.
+ */
+
+import { StepExecutor } from '../src/core/pipeline-executor/StepChain/StepExecutor';
+import { FileDiscovery } from '../src/core/file-operations';
+import { JobStore } from '../src/core/job-store';
+import { ReviewGate } from '../src/core/review';
+import { ContentPipelineSettings, FileInfo, ProcessingStatus } from '../src/types';
+import { mockApp, createMockTFile, resetMocks } from './file-operations/setup';
+import {
+    createMockCompletion,
+    createMockFileInfo,
+    createMockPipelineStep,
+    createMockSettings,
+    mockVaultFiles,
+    useMockFetch,
+    cleanup
+} from './setup';
+
+const heldPath = 'inbox/todos/meeting.md';
+
+describe('Review Gate', () => {
+    const fileInfo: FileInfo = createMockFileInfo({ name: 'meeting.md', path: 'inbox/notes/meeting.md', extension: '.md', mimeType: 'text/markdown' });
+    const mockFetch = useMockFetch();
+    let files: Map<string, string>;
+    let settings: ContentPipelineSettings;
+    let jobStore: JobStore;
+    let reviewGate: ReviewGate;
+
+    const getFile = (path: string) => createMockTFile(path.split('/').pop() || path, path) as any;
+    const findNextFile = () => new FileDiscovery(mockApp as any).findNextAvailableFile(settings.parsedPipelineConfig!, new Set());
+
+    beforeEach(async () => {
+        resetMocks();
+        mockFetch.mockResolvedValue(createMockCompletion([{ filename: 'meeting', nextStep: 'extract-todos', content: 'Send the minutes.' }]));
+        files = new Map([[fileInfo.path, 'Meeting notes']]);
+        mockVaultFiles(files);
+
+        settings = createMockSettings({
+            'analyze-content': createMockPipelineStep({
+                modelConfig: 'openai-gpt',
+                input: 'inbox/notes/',
+                output: { 'extract-todos': 'inbox/todos/', 'create-note': 'inbox/create/', default: 'inbox/other/' },
+                archive: 'inbox/archive/analyze-content/',
+                prompts: [],
+                requiresApproval: true
+            }),
+            'extract-todos': createMockPipelineStep({ modelConfig: 'openai-gpt', input: 'inbox/todos/', output: 'Todos/', prompts: [] }),
+            'create-note': createMockPipelineStep({ modelConfig: 'openai-gpt', input: 'inbox/create/', output: 'Notes/', prompts: [] })
+        });
+        jobStore = new JobStore({});
+        reviewGate = new ReviewGate(mockApp as any, settings, jobStore);
+
+        const result = await new StepExecutor(mockApp as any, settings).execute('analyze-content', fileInfo);
+        expect(result.status).toBe(ProcessingStatus.COMPLETED);
+    });
+
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('should hold the outputs for review and skip them in discovery', async () => {
+        expect(files.get(heldPath)).toContain('nextStep: "extract-todos"');
+        expect(files.get(heldPath)).toContain('status: "pending-review"');
+        expect(await findNextFile()).toBeNull();
+    });
+
+    it('should release approved outputs to their next step', async () => {
+        await reviewGate.approve(getFile(heldPath));
+
+        expect(files.get(heldPath)).not.toContain('status:');
+        expect(files.get(heldPath)).toMatch(/---\nSend the minutes\.$/);
+        expect(await findNextFile()).toEqual(expect.objectContaining({ stepId: 'extract-todos', file: expect.objectContaining({ path: heldPath }) }));
+        expect(jobStore.getReviews()).toEqual([expect.objectContaining({
+            path: heldPath,
+            stepId: 'analyze-content',
+            decision: 'approved',
+            nextStep: 'extract-todos'
+        })]);
+    });
+
+    it('should never process rejected outputs', async () => {
+        await reviewGate.reject(getFile(heldPath));
+
+        expect(files.get(heldPath)).toContain('status: "rejected"');
+        expect(await findNextFile()).toBeNull();
+        await expect(reviewGate.approve(getFile(heldPath))).rejects.toThrow('meeting.md is not waiting for review');
+    });
+
+    it('should move re-routed outputs to the output folder of the chosen next step', async () => {
+        const held = await reviewGate.getHeldOutput(getFile(heldPath));
+        expect(reviewGate.getRerouteOptions(held!)).toEqual(['create-note']);
+
+        const path = await reviewGate.reroute(getFile(heldPath), 'create-note');
+
+        expect(path).toBe('inbox/create/meeting.md');
+        expect(files.has(heldPath)).toBe(false);
+        expect(files.get(path)).toContain('nextStep: "create-note"');
+        expect(files.get(path)).not.toContain('status:');
+        expect(jobStore.getReviews()[0]).toEqual(expect.objectContaining({
+            path: heldPath,
+            decision: 'rerouted',
+            nextStep: 'extract-todos',
+            reroutedTo: 'create-note',
+            reroutedPath: path
+        }));
+    });
+});
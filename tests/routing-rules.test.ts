@@ -0,0 +1,150 @@
+/**
+ * Routing Rules Tests
+ *
+ * Covers rule conditions, routing without a model call and rules that take
+ * the routing decision away from the model.
+ */
+
+import { StepExecutor } from '../src/core/pipeline-executor/StepChain/StepExecutor';
+import { findMatchingRule, RoutingRuleInput } from '../src/core/routing-rules';
+import { getConfigErrors } from '../src/validation';
+import { ContentPipelineSettings, FileInfo, ProcessingStatus, RoutingRule } from '../src/types';
+import { mockApp, mockVault, resetMocks } from './file-operations/setup';
+import {
+    createMockCompletion,
+    createMockFileInfo,
+    createMockModelsConfig,
+    createMockPipelineConfig,
+    createMockPipelineStep,
+    createMockSettings,
+    mockVaultFiles,
+    useMockFetch,
+    cleanup
+} from './setup';
+
+const routingRules: RoutingRule[] = [
+    { when: { tags: ['grocery'], maxSize: 2000 }, nextStep: 'groceries', skipModel: true },
+    { when: { content: '^agenda' }, nextStep: 'create-note' }
+];
+
+const settings: ContentPipelineSettings = createMockSettings(
+    createMockPipelineConfig({
+        'process-notes': createMockPipelineStep({
+            modelConfig: 'openai-gpt',
+            input: 'inbox/notes/',
+            output: { 'groceries': 'Lists/', 'create-note': 'inbox/create-note/', 'default': 'Notes/' },
+            archive: 'inbox/archive/process-notes/',
+            prompts: [],
+            routingRules
+        }),
+        'groceries': createMockPipelineStep({ modelConfig: 'openai-gpt', input: 'Lists/', output: 'Lists/done/' }),
+        'create-note': createMockPipelineStep({ modelConfig: 'openai-gpt', input: 'inbox/create-note/', output: 'Notes/' })
+    })
+);
+
+describe('Routing Rules', () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe('conditions', () => {
+        const input: RoutingRuleInput = {
+            path: 'inbox/notes/shopping.md',
+            extension: '.md',
+            size: 120,
+            content: 'Milk, eggs',
+            frontmatter: { type: 'list', people: ['Ana', 'Ben'] },
+            tags: ['#Grocery']
+        };
+
+        it('should pick the first rule whose conditions all hold', () => {
+            const rules: RoutingRule[] = [
+                { when: { tags: ['grocery'], minSize: 500 }, nextStep: 'large' },
+                { when: { extension: 'md', folder: 'inbox/notes', frontmatter: { type: 'list', people: 'Ben' } }, nextStep: 'lists' },
+                { when: {}, nextStep: 'anything' }
+            ];
+
+            expect(findMatchingRule(rules, input)).toEqual({ index: 1, rule: rules[1] });
+        });
+
+        it('should match content case-insensitively and extensions with or without a dot', () => {
+            expect(findMatchingRule([{ when: { content: 'MILK' }, nextStep: 'a' }], input)?.index).toBe(0);
+            expect(findMatchingRule([{ when: { extension: ['.m4a', '.MD'] }, nextStep: 'a' }], input)?.index).toBe(0);
+            expect(findMatchingRule([{ when: { content: 'bread' }, nextStep: 'a' }], input)).toBeUndefined();
+            expect(findMatchingRule([{ when: { folder: 'inbox/note' }, nextStep: 'a' }], input)).toBeUndefined();
+            expect(findMatchingRule(undefined, input)).toBeUndefined();
+        });
+    });
+
+    describe('step execution', () => {
+        const mockFetch = useMockFetch();
+        let executor: StepExecutor;
+
+        beforeEach(() => {
+            resetMocks();
+            mockVaultFiles(new Map([
+                ['inbox/notes/shopping.md', '---\ntags: [grocery]\n---\nMilk, eggs, bread'],
+                ['inbox/notes/standup.md', 'Agenda: release checklist']
+            ]));
+            const metadataCache = {
+                getFileCache: jest.fn((file: { path: string }) =>
+                    file.path === 'inbox/notes/shopping.md' ? { frontmatter: { tags: ['grocery'] } } : null
+                )
+            };
+
+            executor = new StepExecutor({ ...mockApp, metadataCache } as any, settings);
+        });
+
+        it('should write matching files to the rule output without calling the model', async () => {
+            const fileInfo: FileInfo = createMockFileInfo({ name: 'shopping.md', path: 'inbox/notes/shopping.md', extension: '.md', size: 40 });
+
+            const result = await executor.execute('process-notes', fileInfo);
+
+            expect(mockFetch).not.toHaveBeenCalled();
+            expect(result.status).toBe(ProcessingStatus.COMPLETED);
+            expect(result.nextStep).toBe('groceries');
+            expect(result.routingDecision?.matchedRule).toBe(0);
+            expect(result.outputFiles).toEqual(['Lists/shopping.md']);
+            expect(result.usage).toBeUndefined();
+
+            const [path, content] = mockVault.create.mock.calls.find(call => call[0] === 'Lists/shopping.md') || [];
+            expect(path).toBe('Lists/shopping.md');
+            expect(content).toContain('nextStep: "groceries"');
+            expect(content).toContain('Milk, eggs, bread');
+            expect(content).not.toContain('tags: [grocery]');
+            expect(mockVault.rename).toHaveBeenCalled();
+        });
+
+        it('should take the routing decision away from the model', async () => {
+            mockFetch.mockResolvedValueOnce(createMockCompletion([{ filename: 'standup', content: 'Release checklist.' }]));
+            const fileInfo: FileInfo = createMockFileInfo({ name: 'standup.md', path: 'inbox/notes/standup.md', extension: '.md', size: 4000 });
+
+            const result = await executor.execute('process-notes', fileInfo);
+
+            const request = JSON.parse(mockFetch.mock.calls[0][1].body);
+            expect(JSON.stringify(request)).not.toContain('groceries');
+            expect(result.nextStep).toBe('create-note');
+            expect(result.routingDecision?.matchedRule).toBe(1);
+            expect(result.outputFiles).toEqual(['inbox/create-note/standup.md']);
+        });
+    });
+
+    describe('validation', () => {
+        it('should only route to routing keys of the step output', () => {
+            const withRules = (rules: unknown[]) => createMockPipelineConfig({
+                'process-notes': createMockPipelineStep({
+                    input: 'inbox/notes/',
+                    output: { 'groceries': 'Lists/', 'default': 'Notes/' },
+                    routingRules: rules as RoutingRule[]
+                }),
+                'groceries': createMockPipelineStep({ input: 'Lists/' })
+            });
+            const modelsConfig = createMockModelsConfig();
+
+            expect(getConfigErrors(modelsConfig, withRules([{ when: { tags: ['grocery'] }, nextStep: 'groceries' }]))).toEqual([]);
+            expect(getConfigErrors(modelsConfig, withRules([{ when: {}, nextStep: 'default' }]))).toContain('Routing rule nextStep must be a routing or broadcast key of the step output');
+            expect(getConfigErrors(modelsConfig, withRules([{ when: { content: '(' }, nextStep: 'groceries' }]))).toContain('Content must be a valid regular expression');
+            expect(getConfigErrors(modelsConfig, withRules([{ when: { tag: 'grocery' }, nextStep: 'groceries' }]))).toContain('Unknown routing rule condition');
+        });
+    });
+});
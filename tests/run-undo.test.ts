@@ -0,0 +1,157 @@
+/**
+ * Run Undo Tests
+ *
+ * Covers undoing a batch run from its history: archived inputs are moved back,
+ * outputs are removed or restored, and edited outputs block the undo.
+ */
+
+import { StepExecutor } from '../src/core/pipeline-executor/StepChain/StepExecutor';
+import { JobStore } from '../src/core/job-store';
+import { RunUndo } from '../src/core/run-undo';
+import { ContentPipelineSettings, FileInfo, ProcessingStatus } from '../src/types';
+import { mockApp, mockVault, resetMocks } from './file-operations/setup';
+import {
+    createMockCompletion,
+    createMockFileInfo,
+    createMockPipelineStep,
+    createMockNotesSettings,
+    mockVaultFiles,
+    useMockFetch,
+    cleanup
+} from './setup';
+
+// Step that processes the notes written by 'process-notes'
+const summarizeStep = {
+    'summarize': createMockPipelineStep({
+        modelConfig: 'openai-gpt',
+        input: 'Notes/',
+        output: 'Summaries/',
+        archive: 'inbox/archive/summarize/',
+        prompts: []
+    })
+};
+
+describe('Run Undo', () => {
+    const fileInfo: FileInfo = createMockFileInfo({ name: 'meeting.md', path: 'inbox/notes/meeting.md', extension: '.md' });
+    const mockFetch = useMockFetch();
+    const trashFile = jest.fn();
+    let files: Map<string, string>;
+    let settings: ContentPipelineSettings;
+    let jobStore: JobStore;
+
+    /**
+     * Process files one step each in a single run, like a batch run does
+     */
+    const runSteps = async (steps: Array<[string, FileInfo]>): Promise<string> => {
+        const { run } = await jobStore.startRun();
+        const executor = new StepExecutor(mockApp as any, settings);
+        for (const [stepId, file] of steps) {
+            await jobStore.markProcessing(stepId, file, run.id);
+            const result = await executor.execute(stepId, file);
+            expect(result.status).toBe(ProcessingStatus.COMPLETED);
+            await jobStore.recordResult(result, run.id);
+        }
+        await jobStore.finishRun(run.id);
+        return run.id;
+    };
+
+    beforeEach(() => {
+        resetMocks();
+        trashFile.mockReset();
+        mockFetch.mockResolvedValue(createMockCompletion([
+            { filename: 'decisions', content: 'Ship on Friday.' }
+        ]));
+        files = new Map([[fileInfo.path, 'Meeting notes']]);
+        mockVaultFiles(files);
+        trashFile.mockImplementation(async (file: { path: string }) => {
+            files.delete(file.path);
+        });
+        (mockApp as any).fileManager = { trashFile };
+
+        settings = createMockNotesSettings({}, summarizeStep);
+        jobStore = new JobStore({});
+    });
+
+    afterEach(() => {
+        cleanup();
+    });
+
+    afterAll(() => {
+        delete (mockApp as any).fileManager;
+    });
+
+    it('should move the input back and trash the outputs', async () => {
+        const runId = await runSteps([['process-notes', fileInfo]]);
+        const runUndo = new RunUndo(mockApp as any, jobStore);
+        expect(runUndo.getUndoableRuns().map(run => run.id)).toEqual([runId]);
+
+        const result = await runUndo.undoRun(runId);
+
+        expect(result).toEqual({
+            undone: true,
+            conflicts: [],
+            restoredInputs: [fileInfo.path],
+            revertedOutputs: ['Notes/decisions.md']
+        });
+        expect([...files.entries()]).toEqual([[fileInfo.path, 'Meeting notes']]);
+        expect(jobStore.getJob(fileInfo.path)?.status).toBe(ProcessingStatus.PENDING);
+        expect(runUndo.getUndoableRuns()).toEqual([]);
+    });
+
+    it('should refuse to undo a run whose output was edited', async () => {
+        const runId = await runSteps([['process-notes', fileInfo]]);
+        files.set('Notes/decisions.md', files.get('Notes/decisions.md') + '\n\nMy own notes');
+
+        const result = await new RunUndo(mockApp as any, jobStore).undoRun(runId);
+
+        expect(result.undone).toBe(false);
+        expect(result.conflicts).toEqual(['Notes/decisions.md was edited']);
+        expect(files.has('Notes/decisions.md')).toBe(true);
+        expect(files.has('inbox/archive/process-notes/meeting.md')).toBe(true);
+        expect(trashFile).not.toHaveBeenCalled();
+        expect(mockVault.rename).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restore the previous content of merged files', async () => {
+        files.set('Notes/Log.md', '# Log\n\n- Kickoff');
+        settings = createMockNotesSettings({ write: { default: { mode: 'append', file: 'Notes/Log.md' } } }, summarizeStep);
+        const runId = await runSteps([['process-notes', fileInfo]]);
+        expect(files.get('Notes/Log.md')).toContain('Ship on Friday.');
+
+        const result = await new RunUndo(mockApp as any, jobStore).undoRun(runId);
+
+        expect(result.undone).toBe(true);
+        expect(files.get('Notes/Log.md')).toBe('# Log\n\n- Kickoff');
+        expect(files.has(fileInfo.path)).toBe(true);
+        expect(trashFile).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to undo a merge into a note too long to keep a copy of', async () => {
+        files.set('Notes/Log.md', '# Log\n\n' + '- Kickoff\n'.repeat(20_000));
+        settings = createMockNotesSettings({ write: { default: { mode: 'append', file: 'Notes/Log.md' } } }, summarizeStep);
+        const runId = await runSteps([['process-notes', fileInfo]]);
+        expect(jobStore.getHistory({ runId })[0].outputOperations).toEqual([
+            { path: 'Notes/Log.md', hash: expect.any(String), previousHash: expect.any(String) }
+        ]);
+
+        const result = await new RunUndo(mockApp as any, jobStore).undoRun(runId);
+
+        expect(result.undone).toBe(false);
+        expect(result.conflicts).toEqual(['Notes/Log.md cannot be restored, its previous content was not kept']);
+        expect(files.get('Notes/Log.md')).toContain('Ship on Friday.');
+        expect(trashFile).not.toHaveBeenCalled();
+    });
+
+    it('should undo later steps before the outputs they archived', async () => {
+        const output = createMockFileInfo({ name: 'decisions.md', path: 'Notes/decisions.md', extension: '.md' });
+        const runId = await runSteps([['process-notes', fileInfo], ['summarize', output]]);
+        expect(files.has('inbox/archive/summarize/decisions.md')).toBe(true);
+        expect(files.has('Summaries/decisions.md')).toBe(true);
+
+        const result = await new RunUndo(mockApp as any, jobStore).undoRun(runId);
+
+        expect(result.conflicts).toEqual([]);
+        expect(result.restoredInputs).toEqual([output.path, fileInfo.path]);
+        expect([...files.keys()]).toEqual([fileInfo.path]);
+    });
+});
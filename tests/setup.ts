@@ -7,7 +7,8 @@
 
 // Import the mocked obsidian module directly
 import { mockApp, Notice } from './__mocks__/obsidian';
-import { PipelineConfiguration, ModelsConfig, ModelConfig, PipelineStep } from '../src/types';
+import { mockVault, createMockTFile, createMockTFolder } from './file-operations/setup';
+import { ContentPipelineSettings, PipelineConfiguration, ModelsConfig, ModelConfig, PipelineStep } from '../src/types';
 
 // Mock console.log for tests (Jest captures these automatically, but we can control them)
 global.console = {
@@ -349,6 +350,98 @@ export const createInvalidModelsConfig = (errorType: string): ModelsConfig => {
     }
 };
 
+// Settings factory with parsed configurations, for tests that execute steps
+export const createMockSettings = (
+    pipelineConfig: PipelineConfiguration = createMockPipelineConfig(),
+    overrides: Partial<ContentPipelineSettings> = {}
+): ContentPipelineSettings => ({
+    modelsConfig: '{}',
+    pipelineConfig: '{}',
+    parsedModelsConfig: createMockModelsConfig(),
+    parsedPipelineConfig: pipelineConfig,
+    debugMode: false,
+    version: '1.0.0',
+    ...overrides
+});
+
+// Settings whose chat step 'process-notes' turns the notes of inbox/notes/ into Notes/, next to the given steps
+export const createMockNotesSettings = (
+    overrides: Partial<PipelineStep> = {},
+    steps: PipelineConfiguration = {}
+): ContentPipelineSettings => createMockSettings(createMockPipelineConfig({
+    'process-notes': createMockPipelineStep({
+        modelConfig: 'openai-gpt',
+        input: 'inbox/notes/',
+        output: 'Notes/',
+        archive: 'inbox/archive/process-notes/',
+        prompts: [],
+        ...overrides
+    }),
+    ...steps
+}));
+
+// Chat completions response whose message holds the given sections
+export const createMockCompletion = (
+    sections: unknown[],
+    usage = { prompt_tokens: 80, completion_tokens: 20, total_tokens: 100 }
+) => ({
+    ok: true,
+    status: 200,
+    json: async () => ({
+        model: 'gpt-4',
+        choices: [{ index: 0, message: { role: 'assistant', content: JSON.stringify({ sections }) }, finish_reason: 'stop' }],
+        usage
+    })
+});
+
+// Replace global fetch with a mock for the tests of the enclosing describe block
+export const useMockFetch = (): jest.Mock => {
+    const originalFetch = global.fetch;
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+        mockFetch.mockReset();
+        global.fetch = mockFetch as unknown as typeof fetch;
+    });
+
+    afterAll(() => {
+        global.fetch = originalFetch;
+    });
+
+    return mockFetch;
+};
+
+type MockFileStat = { size: number; mtime: number; ctime: number };
+
+// Back the mock vault with file contents by path; folders exist while they contain a file
+export const mockVaultFiles = (files: Map<string, string>, getStat?: (path: string) => MockFileStat) => {
+    const getFile = (path: string) => createMockTFile(path.split('/').pop() || path, path, getStat?.(path));
+
+    mockVault.getAbstractFileByPath.mockImplementation((path: string) => {
+        if ([...files.keys()].some(candidate => candidate.startsWith(`${path}/`))) {
+            return createMockTFolder(path.split('/').pop() || path, path);
+        }
+        return files.has(path) ? getFile(path) : null;
+    });
+    mockVault.getMarkdownFiles.mockImplementation(() => [...files.keys()].filter(path => path.endsWith('.md')).map(getFile));
+    mockVault.getFiles.mockImplementation(() => [...files.keys()].map(getFile));
+    mockVault.read.mockImplementation(async (file: { path: string }) => files.get(file.path)!);
+    mockVault.create.mockImplementation(async (path: string, data: string) => {
+        files.set(path, data);
+        return getFile(path);
+    });
+    mockVault.modify.mockImplementation(async (file: { path: string }, data: string) => {
+        files.set(file.path, data);
+    });
+    mockVault.delete.mockImplementation(async (file: { path: string }) => {
+        files.delete(file.path);
+    });
+    mockVault.rename.mockImplementation(async (file: { path: string }, newPath: string) => {
+        files.set(newPath, files.get(file.path)!);
+        files.delete(file.path);
+    });
+};
+
 // Cleanup function for tests
 export const cleanup = () => {
     jest.clearAllMocks();
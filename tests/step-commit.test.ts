@@ -0,0 +1,109 @@
+/**
+ * Step Commit Tests
+ *
+ * Covers writing, verifying and archiving a step's results all or nothing,
+ * and rolling back the outputs when any part fails.
+ */
+
+import { StepExecutor } from '../src/core/pipeline-executor/StepChain/StepExecutor';
+import { ContentPipelineSettings, FileInfo, ProcessingStatus } from '../src/types';
+import { mockApp, mockVault, resetMocks } from './file-operations/setup';
+import {
+    createMockCompletion,
+    createMockFileInfo,
+    createMockNotesSettings,
+    mockVaultFiles,
+    useMockFetch,
+    cleanup
+} from './setup';
+
+describe('Step Commit', () => {
+    const fileInfo: FileInfo = createMockFileInfo({ name: 'meeting.md', path: 'inbox/notes/meeting.md', extension: '.md' });
+    const mockFetch = useMockFetch();
+    let files: Map<string, string>;
+
+    beforeEach(() => {
+        resetMocks();
+        mockFetch.mockResolvedValue(createMockCompletion([
+            { filename: 'decisions', content: 'Ship on Friday.' },
+            { filename: 'actions', content: 'Ana writes the release notes.' }
+        ]));
+        files = new Map([[fileInfo.path, 'Meeting notes']]);
+        mockVaultFiles(files);
+    });
+
+    afterEach(() => {
+        cleanup();
+    });
+
+    it('should write the outputs before archiving the input', async () => {
+        const result = await new StepExecutor(mockApp as any, createMockNotesSettings()).execute('process-notes', fileInfo);
+
+        expect(result.status).toBe(ProcessingStatus.COMPLETED);
+        expect(result.outputFiles).toEqual(['Notes/decisions.md', 'Notes/actions.md']);
+        expect(mockVault.create.mock.invocationCallOrder[1]).toBeLessThan(mockVault.rename.mock.invocationCallOrder[0]);
+        expect(files.get('Notes/decisions.md')).toContain('source: "[[inbox/archive/process-notes/meeting.md]]"');
+        expect(files.has('inbox/archive/process-notes/meeting.md')).toBe(true);
+    });
+
+    it('should remove written outputs and keep the input if an output cannot be written', async () => {
+        const create = mockVault.create.getMockImplementation()!;
+        mockVault.create.mockImplementation(async (path: string, data: string) => {
+            if (path === 'Notes/actions.md') throw new Error('Disk full');
+            return create(path, data);
+        });
+
+        const result = await new StepExecutor(mockApp as any, createMockNotesSettings()).execute('process-notes', fileInfo);
+
+        expect(result.status).toBe(ProcessingStatus.FAILED);
+        expect(result.error).toContain('Wrote 1 of 2 output(s), failed to write Notes/actions.md: Disk full');
+        expect(result.error).toContain('No outputs were kept and the input was not archived');
+        expect(files.has('Notes/decisions.md')).toBe(false);
+        expect(files.has(fileInfo.path)).toBe(true);
+        expect(mockVault.rename).not.toHaveBeenCalled();
+    });
+
+    it('should give files committed at the same time their own outputs', async () => {
+        const other = createMockFileInfo({ name: 'standup.md', path: 'inbox/notes/standup.md', extension: '.md' });
+        const executeBoth = (settings: ContentPipelineSettings) => {
+            files.set(fileInfo.path, 'Meeting notes');
+            files.set(other.path, 'Standup notes');
+            const executor = new StepExecutor(mockApp as any, settings);
+            return Promise.all([executor.execute('process-notes', fileInfo), executor.execute('process-notes', other)]);
+        };
+        mockFetch.mockResolvedValue(createMockCompletion([{ filename: 'decisions', content: 'Ship on Friday.' }]));
+
+        const results = await executeBoth(createMockNotesSettings());
+        expect(results.map(result => result.outputFiles)).toEqual([['Notes/decisions.md'], ['Notes/decisions-1.md']]);
+
+        files.set('Notes/Log.md', '# Log');
+        await executeBoth(createMockNotesSettings({ write: { default: { mode: 'append', file: 'Notes/Log.md' } } }));
+        expect(files.get('Notes/Log.md')!.match(/Ship on Friday\./g)).toHaveLength(2);
+    });
+
+    it('should restore merged files and keep the input if it cannot be archived', async () => {
+        files.set('Notes/Log.md', '# Log\n\n- Kickoff');
+        mockVault.rename.mockRejectedValue(new Error('File is locked'));
+
+        const result = await new StepExecutor(mockApp as any, createMockNotesSettings({
+            write: { default: { mode: 'append', file: 'Notes/Log.md' } }
+        })).execute('process-notes', fileInfo);
+
+        expect(result.status).toBe(ProcessingStatus.FAILED);
+        expect(result.error).toContain('File is locked');
+        expect(files.get('Notes/Log.md')).toBe('# Log\n\n- Kickoff');
+        expect(files.has(fileInfo.path)).toBe(true);
+    });
+
+    it('should roll back outputs that do not read back as written', async () => {
+        mockVault.read.mockImplementation(async (file: { path: string }) =>
+            file.path === 'Notes/actions.md' ? '' : files.get(file.path)!
+        );
+
+        const result = await new StepExecutor(mockApp as any, createMockNotesSettings()).execute('process-notes', fileInfo);
+
+        expect(result.status).toBe(ProcessingStatus.FAILED);
+        expect(result.error).toContain('Output could not be verified: Notes/actions.md has different content');
+        expect([...files.keys()]).toEqual([fileInfo.path]);
+    });
+});
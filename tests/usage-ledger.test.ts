@@ -0,0 +1,123 @@
+/**
+ * Usage Ledger Tests
+ *
+ * Covers cost estimation, recording of processing results and aggregation.
+ */
+
+import { UsageLedger, calculateUsageCost } from '../src/core/usage-ledger';
+import { ContentPipelineSettings, PipelineState, ProcessingResult, ProcessingStatus, ProcessingUsage } from '../src/types';
+import { createMockFileInfo, createMockModelConfig } from './setup';
+
+const createSettings = (): ContentPipelineSettings => ({
+    modelsConfig: '{}',
+    pipelineConfig: '{}',
+    debugMode: false,
+    version: '1.0.0',
+    parsedModelsConfig: {
+        'openai-gpt': createMockModelConfig({ pricing: { inputPerMillionTokens: 2.5, outputPerMillionTokens: 10 } }),
+        'openai-whisper': createMockModelConfig({ implementation: 'whisper', model: 'whisper-1', pricing: { perAudioMinute: 0.006 } }),
+        'local-llama': createMockModelConfig({ model: 'llama3.1' })
+    }
+});
+
+const createResult = (stepId: string, usage: ProcessingUsage | undefined, endTime = '2025-03-10T09:30:00.000Z'): ProcessingResult => ({
+    inputFile: createMockFileInfo({ path: `inbox/${stepId}.md` }),
+    status: ProcessingStatus.COMPLETED,
+    outputFiles: [],
+    startTime: new Date(endTime),
+    endTime: new Date(endTime),
+    stepId,
+    usage
+});
+
+const gptUsage: ProcessingUsage = { modelConfig: 'openai-gpt', model: 'gpt-4o', promptTokens: 200000, completionTokens: 50000, audioSeconds: 0 };
+const whisperUsage: ProcessingUsage = { modelConfig: 'openai-whisper', model: 'whisper-1', promptTokens: 0, completionTokens: 0, audioSeconds: 600 };
+
+describe('Usage Ledger', () => {
+    describe('calculateUsageCost', () => {
+        it('should price tokens and audio minutes', () => {
+            expect(calculateUsageCost(gptUsage, { inputPerMillionTokens: 2.5, outputPerMillionTokens: 10 })).toBeCloseTo(1);
+            expect(calculateUsageCost(whisperUsage, { perAudioMinute: 0.006 })).toBeCloseTo(0.06);
+        });
+
+        it('should return undefined without pricing', () => {
+            expect(calculateUsageCost(gptUsage)).toBeUndefined();
+        });
+    });
+
+    describe('record', () => {
+        it('should store usage with the estimated cost', () => {
+            const state: PipelineState = {};
+            const [entry] = new UsageLedger(createSettings(), state).record(createResult('analyze-content', gptUsage));
+
+            expect(entry).toMatchObject({
+                stepId: 'analyze-content',
+                modelConfig: 'openai-gpt',
+                inputFile: 'inbox/analyze-content.md',
+                timestamp: '2025-03-10T09:30:00.000Z'
+            });
+            expect(entry?.cost).toBeCloseTo(1);
+            expect(state.usageLedger).toHaveLength(1);
+        });
+
+        it('should ignore results without usage', () => {
+            const state: PipelineState = {};
+            expect(new UsageLedger(createSettings(), state).record(createResult('transcribe', undefined))).toEqual([]);
+            expect(state.usageLedger).toBeUndefined();
+        });
+
+        it('should store the usage of failed attempts without counting them as files', () => {
+            const ledger = new UsageLedger(createSettings(), {});
+            const entries = ledger.record({
+                ...createResult('analyze-content', undefined),
+                status: ProcessingStatus.FAILED,
+                failedUsage: [gptUsage, { ...gptUsage, modelConfig: 'local-llama' }]
+            });
+
+            expect(entries).toEqual([
+                expect.objectContaining({ modelConfig: 'openai-gpt', failed: true }),
+                expect.objectContaining({ modelConfig: 'local-llama', failed: true })
+            ]);
+            expect(ledger.summarize('step')).toEqual([expect.objectContaining({ key: 'analyze-content', files: 0, promptTokens: 400000 })]);
+        });
+    });
+
+    describe('summarize', () => {
+        const createLedger = () => {
+            const ledger = new UsageLedger(createSettings(), {});
+            ledger.record(createResult('transcribe', whisperUsage, '2025-03-09T18:00:00.000Z'));
+            ledger.record(createResult('analyze-content', gptUsage, '2025-03-10T09:30:00.000Z'));
+            ledger.record(createResult('analyze-content', { ...gptUsage, modelConfig: 'local-llama' }, '2025-03-10T10:00:00.000Z'));
+            return ledger;
+        };
+
+        it('should group by day with the newest day first', () => {
+            const totals = createLedger().summarize('day');
+
+            expect(totals.map(row => row.key)).toEqual(['2025-03-10', '2025-03-09']);
+            expect(totals[0].files).toBe(2);
+            expect(totals[0].promptTokens).toBe(400000);
+            expect(totals[1].audioSeconds).toBe(600);
+        });
+
+        it('should group by step with the most expensive step first', () => {
+            const totals = createLedger().summarize('step');
+
+            expect(totals.map(row => row.key)).toEqual(['analyze-content', 'transcribe']);
+            expect(totals[0].cost).toBeCloseTo(1);
+            expect(totals[0].hasUnpricedUsage).toBe(true);
+            expect(totals[1].hasUnpricedUsage).toBe(false);
+        });
+
+        it('should group by model config', () => {
+            const totals = createLedger().summarize('model');
+            expect(totals.map(row => row.key)).toEqual(['openai-gpt', 'openai-whisper', 'local-llama']);
+        });
+
+        it('should clear all entries', () => {
+            const ledger = createLedger();
+            ledger.clear();
+            expect(ledger.summarize('day')).toEqual([]);
+        });
+    });
+});
@@ -9,11 +9,15 @@ import {
     filePatternSchema,
     pipelineStepSchema,
     pipelineConfigSchema,
+    generationOptionsSchema,
+    rateLimitSchema,
+    resolveStep,
+    resolveStepChain,
     validateConfig,
     isValidConfig,
     getConfigErrors
 } from '../src/validation';
-import { createMockPipelineStep, createMockPipelineConfig, cleanup } from './setup';
+import { createMockPipelineStep, createMockPipelineConfig, createMockModelsConfig, createMockModelConfig, cleanup } from './setup';
 
 describe('Basic Validation Tests', () => {
     afterEach(() => {
@@ -48,5 +52,90 @@ describe('Basic Validation Tests', () => {
             const step = createMockPipelineStep();
             expect(() => v.parse(pipelineStepSchema, step)).not.toThrow();
         });
+
+        it('should validate transcript format options', () => {
+            const step = createMockPipelineStep({ transcriptFormat: 'timestamped', subtitles: 'vtt' });
+            expect(() => v.parse(pipelineStepSchema, step)).not.toThrow();
+            expect(() => v.parse(pipelineStepSchema, { ...step, subtitles: 'ass' })).toThrow('Subtitles must be one of: srt, vtt');
+        });
+
+        it('should validate Whisper language and temperature', () => {
+            const step = createMockPipelineStep({ language: 'de', temperature: 0.2 });
+            expect(() => v.parse(pipelineStepSchema, step)).not.toThrow();
+            expect(() => v.parse(pipelineStepSchema, { ...step, language: 'German' })).toThrow(/ISO-639-1/);
+            expect(() => v.parse(pipelineStepSchema, { ...step, temperature: 1.5 })).toThrow('Temperature must be between 0 and 1');
+        });
+
+        it('should validate the watch mode flag', () => {
+            expect(() => v.parse(pipelineStepSchema, createMockPipelineStep({ watch: true }))).not.toThrow();
+            expect(() => v.parse(pipelineStepSchema, { ...createMockPipelineStep(), watch: 'yes' })).toThrow('Watch must be true or false');
+        });
+    });
+
+    describe('Model config failover chains', () => {
+        it('should accept a list of model configs', () => {
+            expect(() => v.parse(pipelineStepSchema, createMockPipelineStep({ modelConfig: ['openai-gpt', 'test-model'] }))).not.toThrow();
+            expect(() => v.parse(pipelineStepSchema, createMockPipelineStep({ modelConfig: [] }))).toThrow();
+        });
+
+        it('should reject chains with unknown or mixed model configs', () => {
+            const modelsConfig = createMockModelsConfig();
+            const withChain = (modelConfig: string[]) => createMockPipelineConfig({
+                'test-step': createMockPipelineStep({ modelConfig })
+            });
+
+            expect(isValidConfig(modelsConfig, withChain(['openai-gpt', 'test-model']))).toBe(true);
+            expect(getConfigErrors(modelsConfig, withChain(['openai-gpt', 'missing-model']))).toContain('Step references non-existent model config');
+            expect(getConfigErrors(modelsConfig, withChain(['openai-whisper', 'openai-gpt']))).toContain('Model config chain cannot mix Whisper and chat models');
+        });
+
+        it('should resolve one step per model config in order', () => {
+            const modelsConfig = createMockModelsConfig({
+                'openai-gpt': createMockModelConfig({ model: 'gpt-4o', options: { maxTokens: 1000 } })
+            });
+            const pipelineConfig = createMockPipelineConfig({
+                'test-step': createMockPipelineStep({ modelConfig: ['openai-gpt', 'test-model'], options: { temperature: 0.5 } })
+            });
+
+            const chain = resolveStepChain('test-step', pipelineConfig, modelsConfig);
+            expect(chain.map(step => step.modelConfigId)).toEqual(['openai-gpt', 'test-model']);
+            expect(chain[0].options).toEqual({ maxTokens: 1000, temperature: 0.5 });
+            expect(chain[1].options).toEqual({ temperature: 0.5 });
+            expect(resolveStep('test-step', pipelineConfig, modelsConfig).modelConfigId).toBe('openai-gpt');
+        });
+    });
+
+    describe('Generation options', () => {
+        it('should accept all generation parameters', () => {
+            const options = { temperature: 0.9, maxTokens: 2000, topP: 0.95, stop: ['###'], frequencyPenalty: 0.5, presencePenalty: -0.5, timeout: 120000 };
+            expect(() => v.parse(generationOptionsSchema, options)).not.toThrow();
+            expect(() => v.parse(pipelineStepSchema, createMockPipelineStep({ options }))).not.toThrow();
+        });
+
+        it('should reject out-of-range and unknown parameters', () => {
+            expect(() => v.parse(generationOptionsSchema, { temperature: 3 })).toThrow('Temperature must be between 0 and 2');
+            expect(() => v.parse(generationOptionsSchema, { maxTokens: 10.5 })).toThrow('Max tokens must be an integer');
+            expect(() => v.parse(generationOptionsSchema, { timeout: 10 })).toThrow('Timeout must be at least 1000 ms');
+            expect(() => v.parse(generationOptionsSchema, { max_tokens: 100 })).toThrow();
+        });
+
+        it('should validate rate limits', () => {
+            expect(() => v.parse(rateLimitSchema, { requestsPerMinute: 500, tokensPerMinute: 30000, maxConcurrent: 2 })).not.toThrow();
+            expect(() => v.parse(rateLimitSchema, { maxConcurrent: 0 })).toThrow('Max concurrent requests must be at least 1');
+            expect(() => v.parse(rateLimitSchema, { rpm: 10 })).toThrow();
+        });
+
+        it('should merge step options over model config defaults', () => {
+            const modelsConfig = createMockModelsConfig({
+                'test-model': createMockModelConfig({ options: { temperature: 0.1, maxTokens: 1000, timeout: 90000 } })
+            });
+            const pipelineConfig = createMockPipelineConfig({
+                'create-note': createMockPipelineStep({ options: { temperature: 0.9, topP: 0.95 } })
+            });
+
+            const resolved = resolveStep('create-note', pipelineConfig, modelsConfig);
+            expect(resolved.options).toEqual({ temperature: 0.9, maxTokens: 1000, timeout: 90000, topP: 0.95 });
+            expect(resolveStep('test-step', createMockPipelineConfig(), createMockModelsConfig()).options).toBeUndefined();
+        });
     });
 });
@@ -0,0 +1,109 @@
+/**
+ * Whisper Chunking Tests
+ *
+ * Covers chunk planning, WAV encoding and transcript stitching for long recordings.
+ */
+
+import {
+    planAudioChunks,
+    encodeWav,
+    splitAudioIntoChunks,
+    getTranscriptTail,
+    stitchTranscripts,
+    appendChunkSegments,
+    DecodedAudio
+} from '../src/api/whisper-chunking';
+import { WHISPER_CHUNKING, WHISPER_LIMITS } from '../src/api/whisper-types';
+
+describe('Whisper Chunking', () => {
+    describe('planAudioChunks', () => {
+        it('should return a single chunk for short audio', () => {
+            expect(planAudioChunks(90, 600, 2)).toEqual([{ index: 0, start: 0, end: 90 }]);
+        });
+
+        it('should overlap consecutive chunks', () => {
+            const chunks = planAudioChunks(1500, 600, 2);
+
+            expect(chunks).toHaveLength(3);
+            expect(chunks[1].start).toBe(598);
+            expect(chunks[2].start).toBe(1196);
+            expect(chunks[2].end).toBe(1500);
+        });
+
+        it('should reject overlap longer than the chunk', () => {
+            expect(() => planAudioChunks(100, 2, 5)).toThrow(/longer than the chunk overlap/);
+        });
+    });
+
+    describe('encodeWav', () => {
+        it('should write a valid 16-bit mono WAV header', () => {
+            const wav = encodeWav(new Float32Array([0, 0.5, -0.5, 1]), 16000);
+            const view = new DataView(wav);
+            const text = (offset: number) => String.fromCharCode(...Array.from(new Uint8Array(wav, offset, 4)));
+
+            expect(wav.byteLength).toBe(44 + 8);
+            expect(text(0)).toBe('RIFF');
+            expect(text(8)).toBe('WAVE');
+            expect(view.getUint16(22, true)).toBe(1);
+            expect(view.getUint32(24, true)).toBe(16000);
+            expect(view.getInt16(50, true)).toBe(0x7fff);
+        });
+    });
+
+    describe('splitAudioIntoChunks', () => {
+        it('should keep every chunk below the Whisper upload limit', async () => {
+            const sampleRate = 1000;
+            const decoder = async (): Promise<DecodedAudio> => ({
+                samples: new Float32Array(sampleRate * 1300),
+                sampleRate
+            });
+
+            const chunks = await splitAudioIntoChunks(new ArrayBuffer(8), 'meeting.m4a', decoder);
+
+            expect(chunks).toHaveLength(3);
+            expect(chunks[0].filename).toBe('meeting-part-1.wav');
+            expect(chunks[2].filename).toBe('meeting-part-3.wav');
+            chunks.forEach(chunk => expect(chunk.data.byteLength).toBeLessThan(WHISPER_LIMITS.maxFileSize));
+        });
+
+        it('should size default chunks to fit the upload limit', () => {
+            const bytesPerChunk = WHISPER_CHUNKING.chunkDurationSeconds * WHISPER_CHUNKING.sampleRate * 2 + 44;
+            expect(bytesPerChunk).toBeLessThan(WHISPER_LIMITS.maxFileSize);
+        });
+    });
+
+    describe('Transcript stitching', () => {
+        it('should use the end of the transcript as prompt', () => {
+            expect(getTranscriptTail('short text', 50)).toBe('short text');
+            expect(getTranscriptTail('one two three four five', 10)).toBe('four five');
+            expect(getTranscriptTail('one two three four five', 8)).toBe('five');
+        });
+
+        it('should remove words repeated in the overlap', () => {
+            const stitched = stitchTranscripts([
+                'We agreed to ship the release on Friday.',
+                'on Friday. Anna will prepare the notes.'
+            ]);
+
+            expect(stitched).toBe('We agreed to ship the release on Friday. Anna will prepare the notes.');
+        });
+
+        it('should concatenate parts without overlap', () => {
+            expect(stitchTranscripts(['First part.', 'Second part.'])).toBe('First part. Second part.');
+            expect(stitchTranscripts(['Only part.', ''])).toBe('Only part.');
+        });
+
+        it('should shift chunk segments and skip those repeated in the overlap', () => {
+            const first = [{ start: 590, end: 599.5, text: 'on Friday.' }];
+            const second = [
+                { start: 0, end: 1.5, text: 'on Friday.' },
+                { start: 2, end: 6, text: 'Anna will prepare the notes.' }
+            ];
+
+            expect(appendChunkSegments(first, second, 598)).toEqual([
+                first[0],
+                { start: 600, end: 604, text: 'Anna will prepare the notes.' }
+            ]);
+        });
+    });
+});
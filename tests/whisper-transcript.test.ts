@@ -0,0 +1,97 @@
+/**
+ * Whisper Transcript Formatting Tests
+ *
+ * Covers timestamped paragraphs, subtitle sidecars and verbose_json parsing.
+ */
+
+import {
+    formatTimestamp,
+    groupSegmentsIntoParagraphs,
+    formatTimestampedTranscript,
+    formatSubtitles
+} from '../src/api/whisper-transcript';
+import { WhisperClient } from '../src/api/whisper-client';
+import { TranscriptionSegment } from '../src/api/whisper-types';
+
+const segments: TranscriptionSegment[] = [
+    { start: 0, end: 4.2, text: ' Welcome everyone.' },
+    { start: 4.4, end: 9.8, text: ' Let us start with the budget.' },
+    { start: 15, end: 19.5, text: ' Next topic is hiring.' }
+];
+
+describe('Whisper Transcript Formatting', () => {
+    describe('formatTimestamp', () => {
+        it('should format minutes and seconds', () => {
+            expect(formatTimestamp(0)).toBe('00:00');
+            expect(formatTimestamp(75.9)).toBe('01:15');
+        });
+
+        it('should include hours for long recordings', () => {
+            expect(formatTimestamp(3725)).toBe('1:02:05');
+        });
+    });
+
+    describe('groupSegmentsIntoParagraphs', () => {
+        it('should start a new paragraph after a pause', () => {
+            const paragraphs = groupSegmentsIntoParagraphs(segments);
+
+            expect(paragraphs).toHaveLength(2);
+            expect(paragraphs[0].text).toBe('Welcome everyone. Let us start with the budget.');
+            expect(paragraphs[1].start).toBe(15);
+        });
+
+        it('should start a new paragraph after the maximum length', () => {
+            const paragraphs = groupSegmentsIntoParagraphs(segments, 4, 100);
+            expect(paragraphs).toHaveLength(3);
+        });
+    });
+
+    describe('formatTimestampedTranscript', () => {
+        it('should link each paragraph to the audio offset', () => {
+            const transcript = formatTimestampedTranscript(segments, 'Archive/Audio/team meeting.m4a');
+
+            expect(transcript).toBe(
+                '[\\[00:00\\]](Archive/Audio/team%20meeting.m4a#t=0) Welcome everyone. Let us start with the budget.\n\n' +
+                '[\\[00:15\\]](Archive/Audio/team%20meeting.m4a#t=15) Next topic is hiring.'
+            );
+        });
+    });
+
+    describe('formatSubtitles', () => {
+        it('should write numbered SRT cues', () => {
+            const srt = formatSubtitles(segments.slice(0, 1), 'srt');
+            expect(srt).toBe('1\n00:00:00,000 --> 00:00:04,200\nWelcome everyone.\n');
+        });
+
+        it('should write a WebVTT header and cues', () => {
+            const vtt = formatSubtitles(segments.slice(2), 'vtt');
+            expect(vtt).toBe('WEBVTT\n\n00:00:15.000 --> 00:00:19.500\nNext topic is hiring.\n');
+        });
+    });
+
+    describe('verbose_json responses', () => {
+        const originalFetch = global.fetch;
+
+        afterAll(() => {
+            global.fetch = originalFetch;
+        });
+
+        it('should return segments from the verbose_json format', async () => {
+            const mockFetch = jest.fn().mockResolvedValueOnce({
+                ok: true,
+                status: 200,
+                json: async () => ({ text: ' Welcome everyone.', language: 'english', duration: 4.2, segments: segments.slice(0, 1) })
+            });
+            global.fetch = mockFetch as unknown as typeof fetch;
+
+            const client = new WhisperClient({ apiKey: 'sk-test1234567890abcdef' });
+            const result = await client.transcribeAudio(new ArrayBuffer(16), 'meeting.m4a', { responseFormat: 'verbose_json' });
+
+            const formData = mockFetch.mock.calls[0][1].body as FormData;
+            expect(formData.get('response_format')).toBe('verbose_json');
+            expect(result.text).toBe('Welcome everyone.');
+            expect(result.segments).toEqual([{ start: 0, end: 4.2, text: 'Welcome everyone.' }]);
+            expect(result.audioDuration).toBe(4.2);
+        });
+    });
+});
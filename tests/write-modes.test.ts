@@ -0,0 +1,115 @@
+/**
+ * Output Write Mode Tests
+ *
+ * Covers appending, prepending and replacing a section of an existing output
+ * file, with the frontmatter of both merged.
+ */
+
+import { mergeOutput } from '../src/core/write-modes';
+import { OutputHandler } from '../src/core/pipeline-executor/StepChain/OutputHandler';
+import { getConfigErrors } from '../src/validation';
+import { OutputWriteConfig, PipelineStep } from '../src/types';
+import { mockApp, mockVault, createMockTFile, resetMocks } from './file-operations/setup';
+import { createMockContext, createMockModelsConfig, createMockPipelineConfig, createMockPipelineStep, cleanup } from './setup';
+
+const existing = [
+    '---',
+    'source: "[[inbox/archive/summarize/monday.md]]"',
+    'step: "summarize"',
+    'pinned: true',
+    'aliases:',
+    '  - Tasks',
+    '---',
+    '',
+    '# Tasks',
+    '',
+    '## Today',
+    '- [ ] Reply to emails',
+    '',
+    '## Later',
+    '- [ ] Plan trip'
+].join('\n');
+
+const output = '---\nsource: "[[inbox/archive/summarize/tuesday.md]]"\nstep: "summarize"\n---\n- [ ] Buy milk';
+
+describe('Output Write Modes', () => {
+    afterEach(() => {
+        cleanup();
+    });
+
+    describe('merging', () => {
+        const merge = (write: OutputWriteConfig) => mergeOutput(existing, output, write);
+
+        it('should merge the frontmatter instead of duplicating it', () => {
+            const merged = merge({ mode: 'append' });
+
+            expect(merged.match(/^---$/gm)).toHaveLength(2);
+            expect(merged).toContain('source: "[[inbox/archive/summarize/tuesday.md]]"\nstep: "summarize"\npinned: true\naliases:\n  - Tasks\n---');
+            expect(merged).not.toContain('monday.md');
+        });
+
+        it('should append or prepend to the body', () => {
+            expect(merge({ mode: 'append' })).toMatch(/- \[ \] Plan trip\n\n- \[ \] Buy milk$/);
+            expect(merge({ mode: 'prepend' })).toContain('---\n\n- [ ] Buy milk\n\n# Tasks');
+            expect(merge({ mode: 'create' })).toBe(output);
+        });
+
+        it('should replace the section under a heading up to the next heading of the same level', () => {
+            expect(merge({ mode: 'replace-under-heading', heading: '## Today' })).toContain(
+                '## Today\n\n- [ ] Buy milk\n\n## Later\n- [ ] Plan trip'
+            );
+            expect(merge({ mode: 'replace-under-heading', heading: '## Shopping' })).toMatch(
+                /- \[ \] Plan trip\n\n## Shopping\n\n- \[ \] Buy milk$/
+            );
+        });
+    });
+
+    describe('saving', () => {
+        const step = createMockPipelineStep({
+            input: 'inbox/summarize/',
+            output: 'Summary/',
+            write: { default: { mode: 'append', file: 'Summary/Task-List.md' } }
+        });
+        let handler: OutputHandler;
+
+        beforeEach(() => {
+            resetMocks();
+            handler = new OutputHandler(mockApp as any);
+            mockVault.create.mockImplementation(async (path: string) => createMockTFile(path.split('/').pop() || path, path));
+        });
+
+        it('should write into the target file of the write mode', async () => {
+            const target = createMockTFile('Task-List.md', 'Summary/Task-List.md');
+            mockVault.getAbstractFileByPath.mockImplementation((path: string) => path === target.path ? target : null);
+            mockVault.read.mockResolvedValue(existing);
+
+            const path = await handler.save({ filename: 'tuesday', content: '- [ ] Buy milk' }, step, createMockContext({ stepId: 'summarize' }));
+
+            expect(path).toBe('Summary/Task-List.md');
+            const [, content] = mockVault.modify.mock.calls[0];
+            expect(content).toContain('pinned: true');
+            expect(content).toMatch(/- \[ \] Plan trip\n\n- \[ \] Buy milk$/);
+        });
+
+        it('should create the target file if it does not exist yet', async () => {
+            mockVault.getAbstractFileByPath.mockReturnValue(null);
+
+            await handler.save({ filename: 'tuesday', content: '- [ ] Buy milk' }, step, createMockContext({ stepId: 'summarize' }));
+
+            expect(mockVault.create).toHaveBeenCalledWith('Summary/Task-List.md', expect.stringMatching(/^---\n[\s\S]*---\n- \[ \] Buy milk$/));
+        });
+    });
+
+    it('should validate write modes', () => {
+        const errors = (write: Record<string, unknown>, output: PipelineStep['output'] = { 'tasks': 'Tasks/', 'default': 'Notes/' }) =>
+            getConfigErrors(createMockModelsConfig(), createMockPipelineConfig({
+                'test-step': createMockPipelineStep({ output, write: write as PipelineStep['write'] }),
+                'tasks': createMockPipelineStep({ input: 'Tasks/' })
+            }));
+
+        expect(errors({ tasks: { mode: 'replace-under-heading', file: 'Tasks/All.md', heading: '## Open' }, default: { mode: 'prepend' } })).toEqual([]);
+        expect(errors({ ideas: { mode: 'append' } })).toContain('Write mode keys must be "default" or routing keys of the step output');
+        expect(errors({ default: { mode: 'replace-under-heading' } })).toContain('Write mode replace-under-heading needs a heading');
+        expect(errors({ default: { mode: 'overwrite' } })).toContain('Write mode must be one of: create, append, prepend, replace-under-heading');
+    });
+});